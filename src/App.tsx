@@ -6,8 +6,15 @@ import { PortfolioSummary } from './components/PortfolioSummary';
 import { OpportunityTable } from './components/OpportunityTable';
 import { LoadingCard } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
+import { AlertFeed } from './components/AlertFeed';
+import { AlchTable } from './components/AlchTable';
+import { SetArbitrageTable } from './components/SetArbitrageTable';
+import { ProcessingTable } from './components/ProcessingTable';
+import { WatchlistTable } from './components/WatchlistTable';
+import { ItemBrowser } from './components/ItemBrowser';
 import { useApi, apiRequest } from './hooks/useApi';
-import { PortfolioSuggestion, FlipOpportunity } from './types/api';
+import { useLiveUpdates } from './hooks/useLiveUpdates';
+import { PortfolioSuggestion, FlipOpportunity, ScoringStrategy, Market } from './types/api';
 
 /**
  * Main Application Component
@@ -30,6 +37,7 @@ function App() {
   const [maxVolatility, setMaxVolatility] = useState<number>(30);
   const [showSpikes, setShowSpikes] = useState<boolean>(false);
   const [showHighRisk, setShowHighRisk] = useState<boolean>(false);
+  const [showStale, setShowStale] = useState<boolean>(false);
   const [betaMode, setBetaMode] = useState<boolean>(false);
 
   // When beta mode is toggled, enable or disable high-risk and spike filters
@@ -43,48 +51,61 @@ function App() {
     }
   }, [betaMode]);
 
-  const [viewMode, setViewMode] = useState<'portfolio' | 'opportunities'>('portfolio');
+  const [viewMode, setViewMode] = useState<'portfolio' | 'opportunities' | 'alch' | 'sets' | 'processing' | 'watchlist' | 'items'>('portfolio');
   const [resultLimit, setResultLimit] = useState<number>(50);
+  const [strategy, setStrategy] = useState<string>('balanced');
+  // Members accounts get 8 GE slots and members items; F2P accounts get 3 slots
+  const [isMembers, setIsMembers] = useState<boolean>(true);
+  // Game mode whose Grand Exchange prices are shown
+  const [market, setMarket] = useState<Market>('osrs');
+
+  // Available scoring strategies for the selector
+  const { data: strategies } = useApi<ScoringStrategy[]>('/api/strategies');
   
   // State for manual refresh loading indicator
   const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Incremented to force a refetch after a manual sync
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Live updates pushed by the server after every price sync
+  const { connected: liveConnected, lastUpdate, syncVersion, alertVersion } = useLiveUpdates(market);
   
   // Custom hook for fetching portfolio data based on budget
-  // Automatically refetches when budget changes
-  const portfolioUrl = `/api/portfolio?budget=${budget}&minVolume=${minVolume}&maxVolatility=${maxVolatility}&includeSpikes=${showSpikes}&includeHighRisk=${showHighRisk}`;
+  // Automatically refetches when budget or filters change, and after every live sync
+  const portfolioUrl = `/api/portfolio?budget=${budget}&minVolume=${minVolume}&maxVolatility=${maxVolatility}&includeSpikes=${showSpikes}&includeHighRisk=${showHighRisk}&includeStale=${showStale}&strategy=${strategy}&members=${isMembers}&market=${market}`;
   const {
     data: portfolio,
     loading,
     error
-  } = useApi<PortfolioSuggestion>(portfolioUrl, [budget, minVolume, maxVolatility, showSpikes, showHighRisk]);
+  } = useApi<PortfolioSuggestion>(portfolioUrl, [budget, minVolume, maxVolatility, showSpikes, showHighRisk, showStale, strategy, isMembers, market, refreshKey, syncVersion]);
 
-  const opportunitiesUrl = `/api/opportunities?budget=${budget}&limit=${resultLimit}&minVolume=${minVolume}&maxVolatility=${maxVolatility}&includeSpikes=${showSpikes}&includeHighRisk=${showHighRisk}`;
+  const opportunitiesUrl = `/api/opportunities?budget=${budget}&limit=${resultLimit}&minVolume=${minVolume}&maxVolatility=${maxVolatility}&includeSpikes=${showSpikes}&includeHighRisk=${showHighRisk}&includeStale=${showStale}&strategy=${strategy}&members=${isMembers}&market=${market}`;
   const {
     data: opportunities,
     loading: oppLoading,
     error: oppError
-  } = useApi<FlipOpportunity[]>(opportunitiesUrl, [budget, minVolume, maxVolatility, resultLimit, showSpikes, showHighRisk]);
+  } = useApi<FlipOpportunity[]>(opportunitiesUrl, [budget, minVolume, maxVolatility, resultLimit, showSpikes, showHighRisk, showStale, strategy, isMembers, market, refreshKey, syncVersion]);
 
   /**
    * Handles manual data refresh by triggering API sync
-   * Uses a clever technique to force re-fetch by temporarily changing budget
+   * Bumps the refresh key afterwards so data refetches even without a live connection
    */
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
     try {
       // Trigger server-side data synchronization
-      await apiRequest('/api/sync', { method: 'POST' });
-      
-      // Force re-fetch by changing budget slightly and back
-      // This triggers the useApi hook to refetch data
-      setBudget(prev => prev + 1);
-      setTimeout(() => setBudget(prev => prev - 1), 100);
+      await apiRequest(`/api/sync?market=${market}`, { method: 'POST' });
+      setRefreshKey(prev => prev + 1);
     } catch (error) {
       console.error('Failed to refresh data:', error);
     } finally {
       setIsRefreshing(false);
     }
-  }, []);
+  }, [market]);
+
+  // Volume freshness reported by whichever view is active
+  const volumeFreshness = viewMode === 'portfolio' ? portfolio : opportunities?.[0];
 
   const filteredPortfolio = portfolio
     ? {
@@ -94,7 +115,8 @@ function App() {
             opp.volume >= minVolume &&
             opp.volatility <= maxVolatility &&
             (showHighRisk || opp.volatility <= 25) &&
-            (showSpikes || opp.isStable)
+            (showSpikes || opp.isStable) &&
+            (showStale || !opp.priceAge?.stale)
         ),
       }
     : null;
@@ -105,7 +127,8 @@ function App() {
           opp.volume >= minVolume &&
           opp.volatility <= maxVolatility &&
           (showHighRisk || opp.volatility <= 25) &&
-          (showSpikes || opp.isStable)
+          (showSpikes || opp.isStable) &&
+          (showStale || !opp.priceAge?.stale)
       )
     : [];
 
@@ -128,6 +151,19 @@ function App() {
               </div>
             </div>
             
+            {/* Live Update Status */}
+            <div
+              className="flex items-center text-sm text-gray-600 ml-auto mr-4"
+              title={lastUpdate
+                ? `Last sync ${new Date(lastUpdate.syncedAt).toLocaleTimeString()}: ${lastUpdate.changed.length} changed, ${lastUpdate.removed.length} removed`
+                : 'Waiting for the next price sync'}
+            >
+              <span
+                className={`w-2 h-2 rounded-full mr-2 ${liveConnected ? 'bg-green-500' : 'bg-gray-400'}`}
+              />
+              {liveConnected ? 'Live' : 'Offline'}
+            </div>
+
             {/* Manual Refresh Button */}
             <button
               onClick={handleRefresh}
@@ -142,6 +178,29 @@ function App() {
               {isRefreshing ? 'Refreshing...' : 'Refresh Data'}
             </button>
 
+            {/* Market Selector */}
+            <select
+              value={market}
+              onChange={(e) => setMarket(e.target.value as Market)}
+              className="ml-4 border-gray-300 rounded-md text-sm"
+              title="Game mode whose Grand Exchange prices are shown"
+            >
+              <option value="osrs">Main game</option>
+              <option value="dmm">Deadman Mode</option>
+              <option value="fsw">Fresh Start Worlds</option>
+            </select>
+
+            {/* Account Type Toggle */}
+            <select
+              value={isMembers ? 'members' : 'f2p'}
+              onChange={(e) => setIsMembers(e.target.value === 'members')}
+              className="ml-4 border-gray-300 rounded-md text-sm"
+              title="Account type decides GE slot count and whether members items are shown"
+            >
+              <option value="members">Members (8 slots)</option>
+              <option value="f2p">Free-to-play (3 slots)</option>
+            </select>
+
             {/* Beta Mode Toggle */}
             <label className="flex items-center ml-4 text-sm text-gray-700" title="Show high-risk/long-term flips">
               <input
@@ -159,6 +218,9 @@ function App() {
       {/* Main Content Area */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="space-y-6">
+          {/* Price Alert Feed */}
+          <AlertFeed market={market} refreshKey={refreshKey + alertVersion} />
+
           {/* Budget Input Component */}
           <BudgetInput
             budget={budget}
@@ -172,6 +234,16 @@ function App() {
             </div>
           )}
 
+          {volumeFreshness?.volumeStale && (
+            <div className="bg-orange-50 border border-orange-300 text-orange-800 text-sm rounded-md p-3">
+              Volume data is stale
+              {volumeFreshness.volumeUpdatedAt
+                ? ` (last updated ${new Date(volumeFreshness.volumeUpdatedAt).toLocaleString()})`
+                : ' (no volume snapshot stored yet)'}
+              . Liquidity filters may hide or include the wrong items.
+            </div>
+          )}
+
           {/* Advanced Filters */}
           <AdvancedFilters
             minVolume={minVolume}
@@ -182,6 +254,8 @@ function App() {
             onShowSpikesChange={setShowSpikes}
             showHighRisk={showHighRisk}
             onShowHighRiskChange={setShowHighRisk}
+            showStale={showStale}
+            onShowStaleChange={setShowStale}
             disabled={loading}
           />
 
@@ -208,8 +282,81 @@ function App() {
               <label htmlFor="viewOpps" className="text-sm text-gray-700">
                 All Opportunities
               </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                id="viewAlch"
+                checked={viewMode === 'alch'}
+                onChange={() => setViewMode('alch')}
+              />
+              <label htmlFor="viewAlch" className="text-sm text-gray-700">
+                High Alchemy
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                id="viewSets"
+                checked={viewMode === 'sets'}
+                onChange={() => setViewMode('sets')}
+              />
+              <label htmlFor="viewSets" className="text-sm text-gray-700">
+                Item Sets
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                id="viewProcessing"
+                checked={viewMode === 'processing'}
+                onChange={() => setViewMode('processing')}
+              />
+              <label htmlFor="viewProcessing" className="text-sm text-gray-700">
+                Processing
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                id="viewWatchlist"
+                checked={viewMode === 'watchlist'}
+                onChange={() => setViewMode('watchlist')}
+              />
+              <label htmlFor="viewWatchlist" className="text-sm text-gray-700">
+                Watchlist
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                id="viewItems"
+                checked={viewMode === 'items'}
+                onChange={() => setViewMode('items')}
+              />
+              <label htmlFor="viewItems" className="text-sm text-gray-700">
+                Browse Items
+              </label>
+          </div>
+          {/* Scoring Strategy Selector */}
+          <div className="flex items-center gap-2">
+            <label htmlFor="strategy" className="text-sm text-gray-700">
+              Scoring
+            </label>
+            <select
+              id="strategy"
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value)}
+              disabled={loading}
+              className="border-gray-300 rounded-md text-sm"
+              title={strategies?.find(s => s.name === strategy)?.description}
+            >
+              {(strategies || [{ name: 'balanced', label: 'Balanced' }]).map(s => (
+                <option key={s.name} value={s.name}>{s.label}</option>
+              ))}
+            </select>
           </div>
-          {viewMode === 'opportunities' && (
+          {(viewMode === 'opportunities' || viewMode === 'alch') && (
             <select
               value={resultLimit}
               onChange={(e) => setResultLimit(parseInt(e.target.value))}
@@ -227,8 +374,8 @@ function App() {
           )}
           </div>
 
-          {/* Loading State Display */}
-          {loading && (
+          {/* Loading State Display (first load only, so live refetches keep the tables visible) */}
+          {loading && !portfolio && (
             <LoadingCard 
               title="Analyzing Market Data" 
               description="Finding the best flip opportunities for your budget..."
@@ -245,10 +392,10 @@ function App() {
           )}
 
           {/* Data Display */}
-          {viewMode === 'portfolio' && filteredPortfolio && !loading && !error && (
+          {viewMode === 'portfolio' && filteredPortfolio && !error && (
             <>
               <PortfolioSummary portfolio={filteredPortfolio} />
-              <OpportunityTable opportunities={filteredPortfolio.opportunities} />
+              <OpportunityTable opportunities={filteredPortfolio.opportunities} market={market} />
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-8">
                 {/* Real-time Data Info */}
                 <div className="bg-blue-50 rounded-lg p-6">
@@ -285,15 +432,36 @@ function App() {
               </div>
             </>
           )}
-          {viewMode === 'opportunities' && !oppLoading && !oppError && (
-            <OpportunityTable opportunities={filteredOpportunities} />
+          {viewMode === 'opportunities' && opportunities && !oppError && (
+            <OpportunityTable opportunities={filteredOpportunities} market={market} />
           )}
-          {viewMode === 'opportunities' && oppLoading && (
+          {viewMode === 'opportunities' && oppLoading && !opportunities && (
             <LoadingCard title="Loading Opportunities" description="Fetching data..." />
           )}
           {viewMode === 'opportunities' && oppError && (
             <ErrorMessage title="Failed to Load Data" message={oppError} onRetry={() => setBudget(prev => prev)} />
           )}
+          {viewMode === 'alch' && (
+            <AlchTable
+              budget={budget}
+              members={isMembers}
+              limit={resultLimit}
+              market={market}
+              refreshKey={refreshKey + syncVersion}
+            />
+          )}
+          {viewMode === 'sets' && (
+            <SetArbitrageTable market={market} refreshKey={refreshKey + syncVersion} />
+          )}
+          {viewMode === 'processing' && (
+            <ProcessingTable market={market} refreshKey={refreshKey + syncVersion} />
+          )}
+          {viewMode === 'watchlist' && (
+            <WatchlistTable market={market} refreshKey={refreshKey + syncVersion} />
+          )}
+          {viewMode === 'items' && (
+            <ItemBrowser market={market} refreshKey={refreshKey + syncVersion} />
+          )}
         </div>
       </main>
 
@@ -10,6 +10,8 @@ interface AdvancedFiltersProps {
   onShowSpikesChange: (v: boolean) => void;
   showHighRisk: boolean;
   onShowHighRiskChange: (v: boolean) => void;
+  showStale: boolean;
+  onShowStaleChange: (v: boolean) => void;
   disabled?: boolean;
 }
 
@@ -22,6 +24,8 @@ export function AdvancedFilters({
   onShowSpikesChange,
   showHighRisk,
   onShowHighRiskChange,
+  showStale,
+  onShowStaleChange,
   disabled,
 }: AdvancedFiltersProps) {
   return (
@@ -101,6 +105,18 @@ export function AdvancedFilters({
             Show high-risk items (&gt;25% volatility)
           </label>
         </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="showStale"
+            checked={showStale}
+            onChange={(e) => onShowStaleChange(e.target.checked)}
+            disabled={disabled}
+          />
+          <label htmlFor="showStale" className="text-sm text-gray-700">
+            Show items with stale prices (no trade in the last 2 hours)
+          </label>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,125 @@
+import { Sparkles } from 'lucide-react';
+import { AlchOpportunity, Market } from '../types/api';
+import { useApi } from '../hooks/useApi';
+import { LoadingCard } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+
+/**
+ * Props interface for the AlchTable component
+ */
+interface AlchTableProps {
+  budget: number;        // Budget used to size quantities
+  members: boolean;      // Whether members items may be included
+  limit?: number;        // Maximum number of rows
+  market?: Market;       // Market whose prices are used (default: osrs)
+  refreshKey?: number;   // Changing this value reloads the table
+}
+
+/**
+ * High Alchemy Table Component
+ *
+ * Lists items that can be bought at their current low price and alched
+ * for a profit after the nature rune cost. Rows are sorted by GP/hour,
+ * which accounts for the casts per hour and each item's buy limit.
+ */
+export function AlchTable({ budget, members, limit = 50, market = 'osrs', refreshKey = 0 }: AlchTableProps) {
+  const { data: opportunities, loading, error } = useApi<AlchOpportunity[]>(
+    `/api/opportunities/alch?budget=${budget}&limit=${limit}&members=${members}&market=${market}`,
+    [refreshKey]
+  );
+
+  /**
+   * Formats large numbers with K/M suffixes
+   */
+  const formatNumber = (num: number): string => {
+    if (Math.abs(num) >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (Math.abs(num) >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return Math.round(num).toLocaleString();
+  };
+
+  if (loading && !opportunities) {
+    return <LoadingCard title="Loading Alch Opportunities" description="Comparing alch values with live prices..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage title="Failed to Load Alch Opportunities" message={error} />;
+  }
+
+  if (!opportunities || opportunities.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+        No profitable high alchemy opportunities right now.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <Sparkles className="w-5 h-5 text-purple-600 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">High Alchemy Opportunities</h3>
+        <span className="ml-3 text-sm text-gray-500">
+          Nature rune: {formatNumber(opportunities[0].natureRunePrice)} GP
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Item', 'Buy Price', 'Alch Value', 'Profit / Cast', 'Quantity', 'Investment', 'Total Profit', 'GP / Hour'].map(heading => (
+                <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {opportunities.map(opportunity => (
+              <tr key={opportunity.id} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center">
+                    {opportunity.icon && (
+                      <img src={opportunity.icon} alt={opportunity.name} className="w-8 h-8 rounded mr-3" />
+                    )}
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{opportunity.name}</div>
+                      <div className="text-xs text-gray-500">
+                        Limit: {opportunity.buyLimit === 0 ? '∞' : opportunity.buyLimit.toLocaleString()}
+                        {opportunity.remainingBuyLimit !== undefined &&
+                          opportunity.remainingBuyLimit < opportunity.buyLimit &&
+                          ` (${opportunity.remainingBuyLimit.toLocaleString()} left)`}
+                      </div>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {opportunity.buyPrice.toLocaleString()} GP
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {opportunity.highalch.toLocaleString()} GP
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-green-700">
+                  {opportunity.profitPerCast.toLocaleString()} GP
+                  <div className="text-xs text-gray-500">{opportunity.roi.toFixed(1)}% ROI</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {opportunity.quantity.toLocaleString()}
+                  <div className="text-xs text-gray-500">{opportunity.castHours.toFixed(1)}h of casting</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {formatNumber(opportunity.totalCost)} GP
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-700">
+                  {formatNumber(opportunity.totalProfit)} GP
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {formatNumber(opportunity.gpPerHour)} GP
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
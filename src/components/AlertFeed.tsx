@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Bell, Check } from 'lucide-react';
+import { AlertEvent, Market } from '../types/api';
+import { useApi, apiRequest } from '../hooks/useApi';
+
+/**
+ * Props interface for the AlertFeed component
+ */
+interface AlertFeedProps {
+  market?: Market;      // Market whose alerts are shown (default: osrs)
+  refreshKey?: number;  // Changing this value reloads the feed
+}
+
+/**
+ * Alert Feed Component
+ *
+ * In-app notification feed for price alerts. Shows unread events fired by
+ * alert rules after each price sync, with a button to mark them as read.
+ * Renders nothing when there are no unread alerts.
+ */
+export function AlertFeed({ market = 'osrs', refreshKey = 0 }: AlertFeedProps) {
+  const [reloadCount, setReloadCount] = useState(0);
+  const { data: events } = useApi<AlertEvent[]>(
+    `/api/alerts/events?unread=true&limit=10&market=${market}`,
+    [refreshKey, reloadCount]
+  );
+
+  /**
+   * Marks the displayed events as read and reloads the feed
+   */
+  const handleMarkRead = async () => {
+    try {
+      await apiRequest(`/api/alerts/events/read?market=${market}`, {
+        method: 'POST',
+        data: { ids: events?.map(e => e.id) },
+      });
+      setReloadCount(prev => prev + 1);
+    } catch (error) {
+      console.error('Failed to mark alerts read:', error);
+    }
+  };
+
+  if (!events || events.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Bell className="w-5 h-5 text-amber-600 mr-2" />
+          <h3 className="font-semibold text-amber-900">
+            Price Alerts ({events.length})
+          </h3>
+        </div>
+        <button
+          onClick={handleMarkRead}
+          className="inline-flex items-center text-sm text-amber-800 hover:text-amber-900"
+        >
+          <Check className="w-4 h-4 mr-1" />
+          Mark all read
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {events.map(event => (
+          <li key={event.id} className="text-sm text-amber-800">
+            <span className="text-amber-600 mr-2">
+              {new Date(event.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            {event.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
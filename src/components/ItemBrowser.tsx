@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ItemSearchResult, Market } from '../types/api';
+import { useApi } from '../hooks/useApi';
+import { LoadingCard } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+import { ItemDetailModal } from './ItemDetailModal';
+
+/**
+ * Props interface for the ItemBrowser component
+ */
+interface ItemBrowserProps {
+  market?: Market;      // Market whose prices are shown (default: osrs)
+  refreshKey?: number;  // Changing this value reloads the results
+}
+
+/**
+ * Delay before a typed search is sent, in milliseconds
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Items shown per page
+ */
+const PAGE_SIZE = 25;
+
+/**
+ * Item Browser Component
+ *
+ * Searches all items by name with membership, price and buy limit filters.
+ * Clicking an item opens the ItemDetailModal with its price history.
+ */
+export function ItemBrowser({ market = 'osrs', refreshKey = 0 }: ItemBrowserProps) {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [members, setMembers] = useState<'all' | 'true' | 'false'>('all');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [minBuyLimit, setMinBuyLimit] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedItemId, setSelectedItemId] = useState<number | null>(null);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Start from the first page whenever the search changes
+  useEffect(() => {
+    setPage(1);
+  }, [query, members, minPrice, maxPrice, minBuyLimit]);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), market });
+  if (query.trim()) params.set('q', query.trim());
+  if (members !== 'all') params.set('members', members);
+  if (minPrice) params.set('minPrice', minPrice);
+  if (maxPrice) params.set('maxPrice', maxPrice);
+  if (minBuyLimit) params.set('minBuyLimit', minBuyLimit);
+
+  const { data: result, loading, error } = useApi<ItemSearchResult>(
+    `/api/items?${params.toString()}`,
+    [refreshKey]
+  );
+
+  const totalPages = result ? Math.max(Math.ceil(result.total / result.pageSize), 1) : 1;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+        <div className="flex items-center">
+          <Search className="w-5 h-5 text-blue-600 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">Item Browser</h3>
+          {result && (
+            <span className="ml-3 text-sm text-gray-500">{result.total.toLocaleString()} items</span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            placeholder="Search items..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <select
+            value={members}
+            onChange={(e) => setMembers(e.target.value as 'all' | 'true' | 'false')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="all">All items</option>
+            <option value="true">Members only</option>
+            <option value="false">Free-to-play only</option>
+          </select>
+          <input
+            type="number"
+            placeholder="Min price"
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="number"
+            placeholder="Max price"
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="number"
+            placeholder="Min buy limit"
+            value={minBuyLimit}
+            onChange={(e) => setMinBuyLimit(e.target.value)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+      </div>
+
+      {loading && !result ? (
+        <LoadingCard title="Searching Items" description="Matching item names..." />
+      ) : error ? (
+        <ErrorMessage title="Failed to Search Items" message={error} />
+      ) : !result || result.items.length === 0 ? (
+        <div className="p-8 text-center text-gray-600">No items match your search.</div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Item', 'Buy Price', 'Sell Price', 'Buy Limit', 'High Alch'].map(heading => (
+                    <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {result.items.map(item => (
+                  <tr
+                    key={item.id}
+                    onClick={() => setSelectedItemId(item.id)}
+                    className="hover:bg-gray-50 transition-colors cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        {item.icon && <img src={item.icon} alt={item.name} className="w-8 h-8 rounded mr-3" />}
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                          <div className="text-xs text-gray-500">
+                            ID {item.id}{item.members && ' · Members'}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.low !== undefined ? `${item.low.toLocaleString()} GP` : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.high !== undefined ? `${item.high.toLocaleString()} GP` : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.buyLimit === 0 ? '∞' : item.buyLimit.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.highalch !== undefined ? `${item.highalch.toLocaleString()} GP` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page <= 1}
+              className="inline-flex items-center disabled:opacity-40"
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </button>
+            <span>Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page >= totalPages}
+              className="inline-flex items-center disabled:opacity-40"
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </button>
+          </div>
+        </>
+      )}
+
+      {selectedItemId !== null && (
+        <ItemDetailModal itemId={selectedItemId} market={market} onClose={() => setSelectedItemId(null)} />
+      )}
+    </div>
+  );
+}
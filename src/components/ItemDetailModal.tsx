@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { X, Clock, BarChart3, AlertCircle } from 'lucide-react';
 import { useApi } from '../hooks/useApi';
-import { ItemHistory } from '../types/api';
+import { ItemHistory, Market } from '../types/api';
 import { LoadingSpinner } from './LoadingSpinner';
 import { PriceHistoryChart } from './PriceHistoryChart';
 
@@ -10,6 +10,7 @@ import { PriceHistoryChart } from './PriceHistoryChart';
  */
 interface ItemDetailModalProps {
   itemId: number;
+  market?: Market;  // Market of the price history (default: osrs)
   onClose: () => void;
 }
 
@@ -25,12 +26,12 @@ interface ItemDetailModalProps {
  * This modal provides deeper insights into individual trading opportunities
  * to help users make informed decisions.
  */
-export function ItemDetailModal({ itemId, onClose }: ItemDetailModalProps) {
+export function ItemDetailModal({ itemId, market = 'osrs', onClose }: ItemDetailModalProps) {
   const [days, setDays] = useState(7);
   
   // Fetch item history data
   const { data: history, loading, error } = useApi<ItemHistory>(
-    `/api/history/${itemId}?days=${days}`,
+    `/api/history/${itemId}?days=${days}&market=${market}`,
     [itemId, days]
   );
 
@@ -189,7 +190,12 @@ export function ItemDetailModal({ itemId, onClose }: ItemDetailModalProps) {
               {/* Price Chart */}
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="flex items-center justify-between mb-4">
-                  <h4 className="font-medium text-gray-800">Price Trends</h4>
+                  <h4 className="font-medium text-gray-800">
+                    Price Trends
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {history.resolution === 'raw' ? '5-minute' : history.resolution === '1h' ? 'hourly' : 'daily'} data
+                    </span>
+                  </h4>
                   <div className="flex items-center space-x-4 text-sm">
                     <div className="flex items-center">
                       <div className="w-3 h-3 bg-red-500 rounded mr-1"></div>
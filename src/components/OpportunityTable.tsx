@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
-import { TrendingUp, TrendingDown, AlertTriangle, Info, BarChart3 } from 'lucide-react';
-import { FlipOpportunity } from '../types/api';
+import { TrendingUp, TrendingDown, AlertTriangle, Info, BarChart3, Clock } from 'lucide-react';
+import { FlipOpportunity, PriceAge, Market } from '../types/api';
+import { VOLUME_IMBALANCE_THRESHOLD } from '../lib/calculations';
 import { ItemDetailModal } from './ItemDetailModal';
 
 /**
@@ -9,6 +10,7 @@ import { ItemDetailModal } from './ItemDetailModal';
 interface OpportunityTableProps {
   opportunities: FlipOpportunity[];  // Array of trading opportunities to display
   loading?: boolean;                 // Loading state indicator
+  market?: Market;                   // Market of the opportunities (default: osrs)
 }
 
 /**
@@ -24,7 +26,7 @@ interface OpportunityTableProps {
  * - Better formatting for unlimited buy limits
  * - Improved mobile responsiveness
  */
-export function OpportunityTable({ opportunities, loading }: OpportunityTableProps) {
+export function OpportunityTable({ opportunities, loading, market = 'osrs' }: OpportunityTableProps) {
   const [selectedItemId, setSelectedItemId] = useState<number | null>(null);
   const [sortKey, setSortKey] = useState<keyof FlipOpportunity>('profitAfterTax');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
@@ -69,6 +71,24 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
     return `${formatNumber(num)} GP`;
   };
 
+  /**
+   * Formats an estimated duration in hours as minutes, hours or days
+   */
+  const formatHours = (hours: number): string => {
+    if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+    if (hours < 48) return `${hours.toFixed(1)}h`;
+    return `${(hours / 24).toFixed(1)}d`;
+  };
+
+  /**
+   * Describes how long ago each side of a price last traded
+   */
+  const getPriceAgeTooltip = (priceAge: PriceAge): string => {
+    const describe = (minutes: number | null) =>
+      minutes === null ? 'unknown' : `${formatHours(minutes / 60)} ago`;
+    return `Last buy at the low: ${describe(priceAge.lowMinutes)}, last sale at the high: ${describe(priceAge.highMinutes)}`;
+  };
+
   /**
    * Formats percentages with one decimal place
    */
@@ -107,8 +127,11 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
   /**
    * Gets tooltip text for risk level explanation
    */
-  const getRiskTooltip = (volatility: number, riskLevel?: string): string => {
-    const baseText = `${formatPercent(volatility)} volatility`;
+  const getRiskTooltip = (volatility: number, riskLevel?: string, imbalance?: number): string => {
+    let baseText = `${formatPercent(volatility)} volatility`;
+    if (imbalance !== undefined && imbalance >= VOLUME_IMBALANCE_THRESHOLD) {
+      baseText += `, one-sided volume (${formatPercent(imbalance * 100)} sell-side imbalance)`;
+    }
     
     switch (riskLevel) {
       case 'Low':
@@ -209,6 +232,9 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer" onClick={() => handleSort('roi')}>
                   ROI {sortKey === 'roi' && (sortDirection === 'asc' ? '▲' : '▼')}
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer" onClick={() => handleSort('gpPerHour')}>
+                  Fill Time {sortKey === 'gpPerHour' && (sortDirection === 'asc' ? '▲' : '▼')}
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer" onClick={() => handleSort('volatility')}>
                   Risk {sortKey === 'volatility' && (sortDirection === 'asc' ? '▲' : '▼')}
                 </th>
@@ -248,6 +274,19 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
                         {/* Ranking and Buy Limit */}
                         <div className="text-xs text-gray-500">
                           #{index + 1} • Limit: {formatBuyLimit(opportunity.buyLimit)}
+                          {opportunity.remainingBuyLimit !== undefined &&
+                            opportunity.remainingBuyLimit < opportunity.buyLimit && (
+                              <span
+                                className="text-orange-600"
+                                title={opportunity.buyLimitResetsAt
+                                  ? `More becomes available at ${new Date(opportunity.buyLimitResetsAt).toLocaleTimeString()}`
+                                  : undefined}
+                              >
+                                {' '}({opportunity.remainingBuyLimit.toLocaleString()} left
+                                {opportunity.buyLimitResetsAt &&
+                                  `, resets ${new Date(opportunity.buyLimitResetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`})
+                              </span>
+                            )}
                         </div>
                       </div>
                     </div>
@@ -261,6 +300,15 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
                     <div className="text-gray-600" title={`${opportunity.currentHigh.toLocaleString()} GP`}>
                       Sell: {formatCurrency(opportunity.currentHigh)}
                     </div>
+                    {opportunity.priceAge?.stale && (
+                      <span
+                        className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                        title={getPriceAgeTooltip(opportunity.priceAge)}
+                      >
+                        <Clock className="w-3 h-3 mr-1" />
+                        Stale price
+                      </span>
+                    )}
                   </td>
 
                   {/* Margin per Item */}
@@ -279,7 +327,9 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
                       {opportunity.volume > 0 ? formatNumber(opportunity.volume) : '–'}
                     </div>
                     <div className="text-xs text-gray-500">
-                      trades
+                      {opportunity.buyVolume !== undefined && opportunity.sellVolume !== undefined
+                        ? `${formatNumber(opportunity.buyVolume)} buy / ${formatNumber(opportunity.sellVolume)} sell`
+                        : 'trades'}
                     </div>
                   </td>
 
@@ -305,11 +355,28 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
                     </span>
                   </td>
 
+                  {/* Estimated Time to Buy and Sell */}
+                  <td
+                    className="px-6 py-4 whitespace-nowrap text-sm"
+                    title={opportunity.estimatedBuyHours !== undefined && opportunity.estimatedSellHours !== undefined
+                      ? `Buy ~${formatHours(opportunity.estimatedBuyHours)}, sell ~${formatHours(opportunity.estimatedSellHours)}`
+                      : 'Not enough recent trades to estimate'}
+                  >
+                    <div className="text-gray-900">
+                      {opportunity.estimatedFillHours !== undefined ? `~${formatHours(opportunity.estimatedFillHours)}` : '–'}
+                    </div>
+                    {opportunity.gpPerHour !== undefined && (
+                      <div className="text-xs text-gray-500">
+                        {formatCurrency(Math.round(opportunity.gpPerHour))}/h
+                      </div>
+                    )}
+                  </td>
+
                   {/* Risk Assessment */}
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div
                       className={`flex items-center text-sm ${getVolatilityColor(opportunity.volatility)}`}
-                      title={getRiskTooltip(opportunity.volatility, opportunity.riskLevel)}
+                      title={getRiskTooltip(opportunity.volatility, opportunity.riskLevel, opportunity.volumeImbalance)}
                     >
                       {getVolatilityIcon(opportunity.volatility)}
                       <span className="ml-1">{formatPercent(opportunity.volatility)}</span>
@@ -366,6 +433,7 @@ export function OpportunityTable({ opportunities, loading }: OpportunityTablePro
       {selectedItemId && (
         <ItemDetailModal
           itemId={selectedItemId}
+          market={market}
           onClose={() => setSelectedItemId(null)}
         />
       )}
@@ -80,7 +80,7 @@ export function PortfolioSummary({ portfolio }: PortfolioSummaryProps) {
         <div>
           <h2 className="text-xl font-bold text-gray-800">Portfolio Summary</h2>
           <p className="text-sm text-gray-600 mt-1">
-            Optimized selection of {portfolio.itemCount} items (max 8 GE slots)
+            Optimized selection of {portfolio.itemCount} items (max {portfolio.geSlots} GE slots)
           </p>
         </div>
         
@@ -155,7 +155,7 @@ export function PortfolioSummary({ portfolio }: PortfolioSummaryProps) {
         <div className="text-center p-3 bg-gray-50 rounded-lg">
           <div className="flex items-center justify-center mb-1">
             <Package className="w-4 h-4 text-gray-600 mr-1" />
-            <div className="font-medium text-gray-900">{portfolio.itemCount}/8</div>
+            <div className="font-medium text-gray-900">{portfolio.itemCount}/{portfolio.geSlots}</div>
           </div>
           <div className="text-gray-600">GE Slots Used</div>
         </div>
@@ -208,7 +208,7 @@ export function PortfolioSummary({ portfolio }: PortfolioSummaryProps) {
                 <li>• Items filtered by volume (min 1,200 trades/24h) and stability</li>
                 <li>• Unlimited buy limits (∞) allow larger investments in profitable items</li>
                 <li>• GE tax calculations include 5M cap for high-value items</li>
-                <li>• Composite scoring balances profit, volume, and ROI</li>
+                <li>• Composite scoring weights profit, volume, ROI and stability by the selected strategy</li>
               </ul>
             </div>
           </div>
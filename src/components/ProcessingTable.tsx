@@ -0,0 +1,105 @@
+import { FlaskConical } from 'lucide-react';
+import { ProcessingMargin, PricedRecipeItem, Market } from '../types/api';
+import { useApi } from '../hooks/useApi';
+import { LoadingCard } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+
+/**
+ * Props interface for the ProcessingTable component
+ */
+interface ProcessingTableProps {
+  market?: Market;      // Market whose prices are used (default: osrs)
+  refreshKey?: number;  // Changing this value reloads the table
+}
+
+/**
+ * Processing Margins Table Component
+ *
+ * Lists processing recipes (cleaning herbs, making potions, fletching
+ * bows and custom recipes) with their profit per action after GE tax,
+ * ranked by profit/hour.
+ */
+export function ProcessingTable({ market = 'osrs', refreshKey = 0 }: ProcessingTableProps) {
+  const { data: margins, loading, error } = useApi<ProcessingMargin[]>(`/api/recipes?market=${market}`, [refreshKey]);
+
+  /**
+   * Formats GP amounts with K/M suffixes
+   */
+  const formatGp = (num: number): string => {
+    if (Math.abs(num) >= 1000000) return `${(num / 1000000).toFixed(2)}M GP`;
+    if (Math.abs(num) >= 1000) return `${(num / 1000).toFixed(1)}K GP`;
+    return `${Math.round(num).toLocaleString()} GP`;
+  };
+
+  /**
+   * Renders recipe items as "2 × Name @ price" lines
+   */
+  const renderItems = (items: PricedRecipeItem[]) =>
+    items.map(item => (
+      <div key={item.itemId}>
+        {item.quantity > 1 && `${item.quantity} × `}
+        {item.name} @ {formatGp(item.price)}
+      </div>
+    ));
+
+  if (loading && !margins) {
+    return <LoadingCard title="Loading Processing Margins" description="Pricing recipe inputs and outputs..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage title="Failed to Load Processing Margins" message={error} />;
+  }
+
+  if (!margins || margins.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+        No processing recipes with current prices are available.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <FlaskConical className="w-5 h-5 text-teal-600 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Processing Margins</h3>
+        <span className="ml-3 text-sm text-gray-500">Profits are per action, after GE tax</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Recipe', 'Inputs', 'Outputs', 'Profit / Action', 'Actions / Hour', 'Profit / Hour'].map(heading => (
+                <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {margins.map(margin => (
+              <tr key={margin.id} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{margin.name}</div>
+                  {!margin.builtIn && <div className="text-xs text-gray-500">Custom recipe</div>}
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-600">{renderItems(margin.inputs)}</td>
+                <td className="px-6 py-4 text-xs text-gray-600">{renderItems(margin.outputs)}</td>
+                <td className={`px-6 py-4 whitespace-nowrap text-sm ${margin.profit > 0 ? 'text-green-700' : 'text-gray-500'}`}>
+                  {formatGp(margin.profit)}
+                  <div className="text-xs text-gray-500">{margin.roi.toFixed(1)}% ROI</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {margin.actionsPerHour !== undefined ? Math.floor(margin.actionsPerHour).toLocaleString() : '∞'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {margin.profitPerHour !== undefined ? formatGp(margin.profitPerHour) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
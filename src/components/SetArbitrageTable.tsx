@@ -0,0 +1,111 @@
+import { Layers } from 'lucide-react';
+import { SetArbitrage, Market } from '../types/api';
+import { useApi } from '../hooks/useApi';
+import { LoadingCard } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+
+/**
+ * Props interface for the SetArbitrageTable component
+ */
+interface SetArbitrageTableProps {
+  market?: Market;      // Market whose prices are used (default: osrs)
+  refreshKey?: number;  // Changing this value reloads the table
+}
+
+/**
+ * Item Set Arbitrage Table Component
+ *
+ * Compares GE-exchangeable item sets with their components. For each set
+ * it shows whether combining the pieces into a set or splitting a set into
+ * pieces is more profitable after GE tax.
+ */
+export function SetArbitrageTable({ market = 'osrs', refreshKey = 0 }: SetArbitrageTableProps) {
+  const { data: sets, loading, error } = useApi<SetArbitrage[]>(`/api/sets?market=${market}`, [refreshKey]);
+
+  /**
+   * Formats GP amounts with K/M suffixes
+   */
+  const formatGp = (num: number): string => {
+    if (Math.abs(num) >= 1000000) return `${(num / 1000000).toFixed(2)}M GP`;
+    if (Math.abs(num) >= 1000) return `${(num / 1000).toFixed(1)}K GP`;
+    return `${Math.round(num).toLocaleString()} GP`;
+  };
+
+  if (loading && !sets) {
+    return <LoadingCard title="Loading Item Sets" description="Comparing sets with their components..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage title="Failed to Load Item Sets" message={error} />;
+  }
+
+  if (!sets || sets.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+        No item sets with current prices are available.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <Layers className="w-5 h-5 text-indigo-600 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Item Set Arbitrage</h3>
+        <span className="ml-3 text-sm text-gray-500">Profits are per set, after GE tax</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Set', 'Set Price', 'Components', 'Combine', 'Split', 'Best'].map(heading => (
+                <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sets.map(set => (
+              <tr key={set.setItemId} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center">
+                    {set.icon && <img src={set.icon} alt={set.name} className="w-8 h-8 rounded mr-3" />}
+                    <div className="text-sm font-medium text-gray-900">{set.name}</div>
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <div className="text-gray-900">Buy: {formatGp(set.setLow)}</div>
+                  <div className="text-gray-600">Sell: {formatGp(set.setHigh)}</div>
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-600">
+                  {set.components.map(component => (
+                    <div key={component.itemId}>
+                      {component.quantity > 1 && `${component.quantity} × `}
+                      {component.name}: {formatGp(component.low)} / {formatGp(component.high)}
+                    </div>
+                  ))}
+                </td>
+                <td className={`px-6 py-4 whitespace-nowrap text-sm ${set.combineProfit > 0 ? 'text-green-700' : 'text-gray-500'}`}>
+                  {formatGp(set.combineProfit)}
+                </td>
+                <td className={`px-6 py-4 whitespace-nowrap text-sm ${set.splitProfit > 0 ? 'text-green-700' : 'text-gray-500'}`}>
+                  {formatGp(set.splitProfit)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {set.profit > 0 ? (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      {set.action === 'combine' ? 'Combine' : 'Split'} ({set.roi.toFixed(1)}% ROI)
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">No profit</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
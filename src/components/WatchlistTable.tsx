@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Star, Trash2, Plus, Clock } from 'lucide-react';
+import { WatchlistEntry, Market } from '../types/api';
+import { useApi, apiRequest } from '../hooks/useApi';
+import { LoadingCard } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+
+/**
+ * Props interface for the WatchlistTable component
+ */
+interface WatchlistTableProps {
+  market?: Market;      // Market whose prices are shown (default: osrs)
+  refreshKey?: number;  // Changing this value reloads the table
+}
+
+/**
+ * Watchlist Table Component
+ *
+ * Shows pinned items with their note, price targets and live margin. Items
+ * are listed even when they would be filtered out of the opportunities, so
+ * the margin may be negative. A form adds items by ID.
+ */
+export function WatchlistTable({ market = 'osrs', refreshKey = 0 }: WatchlistTableProps) {
+  const [reloadCount, setReloadCount] = useState(0);
+  const [itemId, setItemId] = useState('');
+  const [note, setNote] = useState('');
+  const [targetBuy, setTargetBuy] = useState('');
+  const [targetSell, setTargetSell] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const { data: entries, loading, error } = useApi<WatchlistEntry[]>(
+    `/api/watchlist?market=${market}`,
+    [refreshKey, reloadCount]
+  );
+
+  /**
+   * Formats GP amounts with K/M suffixes
+   */
+  const formatGp = (num: number | undefined): string => {
+    if (num === undefined) return '—';
+    if (Math.abs(num) >= 1000000) return `${(num / 1000000).toFixed(2)}M`;
+    if (Math.abs(num) >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return Math.round(num).toLocaleString();
+  };
+
+  /**
+   * Adds the item from the form to the watchlist
+   */
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setFormError(null);
+    try {
+      await apiRequest(`/api/watchlist?market=${market}`, {
+        method: 'POST',
+        data: {
+          itemId: parseInt(itemId),
+          note: note || undefined,
+          targetBuy: targetBuy ? parseFloat(targetBuy) : undefined,
+          targetSell: targetSell ? parseFloat(targetSell) : undefined,
+        },
+      });
+      setItemId('');
+      setNote('');
+      setTargetBuy('');
+      setTargetSell('');
+      setReloadCount(prev => prev + 1);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to add item');
+    }
+  };
+
+  /**
+   * Removes an entry from the watchlist
+   */
+  const handleRemove = async (id: number) => {
+    try {
+      await apiRequest(`/api/watchlist/${id}`, { method: 'DELETE' });
+      setReloadCount(prev => prev + 1);
+    } catch (err) {
+      console.error('Failed to remove watchlist entry:', err);
+    }
+  };
+
+  if (loading && !entries) {
+    return <LoadingCard title="Loading Watchlist" description="Fetching live prices for watched items..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage title="Failed to Load Watchlist" message={error} />;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <Star className="w-5 h-5 text-yellow-500 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Watchlist</h3>
+        <span className="ml-3 text-sm text-gray-500">Margins are per item, after GE tax</span>
+      </div>
+
+      <form onSubmit={handleAdd} className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-end gap-3">
+        <input
+          type="number"
+          placeholder="Item ID"
+          value={itemId}
+          onChange={(e) => setItemId(e.target.value)}
+          className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          required
+        />
+        <input
+          type="text"
+          placeholder="Note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <input
+          type="number"
+          placeholder="Target buy"
+          value={targetBuy}
+          onChange={(e) => setTargetBuy(e.target.value)}
+          className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <input
+          type="number"
+          placeholder="Target sell"
+          value={targetSell}
+          onChange={(e) => setTargetSell(e.target.value)}
+          className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Watch
+        </button>
+        {formError && <div className="w-full text-sm text-red-600">{formError}</div>}
+      </form>
+
+      {!entries || entries.length === 0 ? (
+        <div className="p-8 text-center text-gray-600">No items on the watchlist yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Item', 'Prices', 'Targets', 'Margin', 'ROI', '24h Volume', ''].map(heading => (
+                  <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="flex items-center">
+                      {entry.icon && <img src={entry.icon} alt={entry.name} className="w-8 h-8 rounded mr-3" />}
+                      <div>
+                        <div className="text-sm font-medium text-gray-900 flex items-center">
+                          {entry.name}
+                          {entry.priceAge?.stale && (
+                            <span title="Stale price">
+                              <Clock className="w-3 h-3 ml-1 text-amber-500" />
+                            </span>
+                          )}
+                        </div>
+                        {entry.note && <div className="text-xs text-gray-500">{entry.note}</div>}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="text-gray-900">Buy: {formatGp(entry.low)}</div>
+                    <div className="text-gray-600">Sell: {formatGp(entry.high)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className={entry.buyTargetReached ? 'text-green-700 font-medium' : 'text-gray-600'}>
+                      Buy ≤ {formatGp(entry.targetBuy)}
+                    </div>
+                    <div className={entry.sellTargetReached ? 'text-green-700 font-medium' : 'text-gray-600'}>
+                      Sell ≥ {formatGp(entry.targetSell)}
+                    </div>
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${(entry.profitAfterTax ?? 0) > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                    {formatGp(entry.profitAfterTax)}
+                    <div className="text-xs text-gray-500">Raw: {formatGp(entry.margin)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {entry.roi !== undefined ? `${entry.roi.toFixed(2)}%` : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatGp(entry.volume)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleRemove(entry.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove from watchlist"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { ApiResponse } from '../types/api';
 // Default to the local API server when the environment variable is not set
 // This matches the behaviour documented in the README so the frontend works
 // out-of-the-box during development.
-const API_BASE_URL =
+export const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
 
 /**
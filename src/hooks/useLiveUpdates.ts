@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react';
+import { AlertEvent, Market, OpportunityUpdate } from '../types/api';
+import { API_BASE_URL } from './useApi';
+
+/**
+ * Custom React Hook for Live Market Updates
+ *
+ * Subscribes to the /api/stream Server-Sent Events endpoint. The server
+ * sends a `sync` event after every price sync cycle and an `alert` event
+ * whenever a price alert fires. The returned version counters change on
+ * each event, so they can be passed as useApi dependencies to refetch
+ * data as soon as it changes. The `snapshot` event sent after connecting
+ * is ignored, since the tables fetch their initial data themselves.
+ *
+ * EventSource reconnects automatically if the connection drops. Sync
+ * events are only received for the selected market; changing it reopens
+ * the connection.
+ *
+ * @param market - Market to receive sync events for (default: osrs)
+ * @returns Connection state, the latest sync update and alert, and event counters
+ */
+export function useLiveUpdates(market: Market = 'osrs') {
+  // Whether the stream is currently connected
+  const [connected, setConnected] = useState(false);
+
+  // Most recent sync update and alert received from the server
+  const [lastUpdate, setLastUpdate] = useState<OpportunityUpdate | null>(null);
+  const [lastAlert, setLastAlert] = useState<AlertEvent | null>(null);
+
+  // Counters incremented for every sync and alert event
+  const [syncVersion, setSyncVersion] = useState(0);
+  const [alertVersion, setAlertVersion] = useState(0);
+
+  useEffect(() => {
+    const source = new EventSource(`${API_BASE_URL}/api/stream?market=${market}`);
+
+    source.addEventListener('connected', () => setConnected(true));
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener('sync', (event) => {
+      setLastUpdate(JSON.parse((event as MessageEvent).data) as OpportunityUpdate);
+      setSyncVersion(prev => prev + 1);
+    });
+
+    source.addEventListener('alert', (event) => {
+      setLastAlert(JSON.parse((event as MessageEvent).data) as AlertEvent);
+      setAlertVersion(prev => prev + 1);
+    });
+
+    // Close the connection when the component unmounts
+    return () => {
+      source.close();
+    };
+  }, [market]);
+
+  return { connected, lastUpdate, lastAlert, syncVersion, alertVersion };
+}
@@ -0,0 +1,91 @@
+import { BUY_LIMIT_WINDOW_HOURS, calculateROI } from './calculations.js';
+
+/**
+ * High Alchemy Library
+ *
+ * Pure calculations for high-alchemy arbitrage: buying an item at its low
+ * price and casting High Level Alchemy on it. Loading prices and buy limit
+ * usage is handled by the alchemy service.
+ */
+
+/**
+ * Item ID of the nature rune consumed by every High Level Alchemy cast
+ */
+export const NATURE_RUNE_ID = 561;
+
+/**
+ * High Level Alchemy casts per hour (one cast every 3 seconds)
+ */
+export const HIGH_ALCH_CASTS_PER_HOUR = 1200;
+
+/**
+ * Profit and throughput of alching one item
+ */
+export interface AlchEvaluation {
+  profitPerCast: number;
+  roi: number;
+  quantity: number;
+  castHours: number;
+  gpPerHour: number;
+}
+
+/**
+ * Calculates the profit of buying an item and casting High Level Alchemy on it
+ *
+ * @param buyPrice - Price paid for the item
+ * @param highalch - Coins returned by the spell
+ * @param natureRunePrice - Price of the nature rune used per cast
+ * @returns Profit per cast (negative when alching loses money)
+ */
+export function calculateAlchProfit(
+  buyPrice: number,
+  highalch: number,
+  natureRunePrice: number
+): number {
+  return highalch - buyPrice - natureRunePrice;
+}
+
+/**
+ * Evaluates an alch opportunity for a budget
+ *
+ * The quantity is limited by the budget (items plus runes), the buy limit
+ * left in the current window, and the number of casts possible within one
+ * buy limit window. GP/hour uses the slower of the cast rate and the rate
+ * at which the buy limit allows buying (buy limit per 4 hours).
+ *
+ * @param budget - Available budget in GP
+ * @param buyPrice - Price paid for the item
+ * @param highalch - Coins returned by the spell
+ * @param natureRunePrice - Price of the nature rune used per cast
+ * @param buyLimit - GE buy limit (0 = unlimited)
+ * @param remainingBuyLimit - Buy limit left in the current window (default: buyLimit)
+ * @returns Evaluation, or null if the alch is not profitable or affordable
+ */
+export function evaluateAlch(
+  budget: number,
+  buyPrice: number,
+  highalch: number,
+  natureRunePrice: number,
+  buyLimit: number,
+  remainingBuyLimit: number = buyLimit
+): AlchEvaluation | null {
+  const profitPerCast = calculateAlchProfit(buyPrice, highalch, natureRunePrice);
+  const costPerCast = buyPrice + natureRunePrice;
+  if (profitPerCast <= 0 || costPerCast <= 0) return null;
+
+  const maxCasts = HIGH_ALCH_CASTS_PER_HOUR * BUY_LIMIT_WINDOW_HOURS;
+  const limit = buyLimit === 0 ? Number.MAX_SAFE_INTEGER : remainingBuyLimit;
+  const quantity = Math.min(Math.floor(budget / costPerCast), limit, maxCasts);
+  if (quantity <= 0) return null;
+
+  const buyRatePerHour = buyLimit === 0 ? Number.MAX_SAFE_INTEGER : buyLimit / BUY_LIMIT_WINDOW_HOURS;
+  const itemsPerHour = Math.min(HIGH_ALCH_CASTS_PER_HOUR, buyRatePerHour);
+
+  return {
+    profitPerCast,
+    roi: calculateROI(profitPerCast, costPerCast),
+    quantity,
+    castHours: quantity / HIGH_ALCH_CASTS_PER_HOUR,
+    gpPerHour: profitPerCast * itemsPerHour,
+  };
+}
@@ -0,0 +1,134 @@
+import { AlertType } from '../types/api.js';
+import {
+  calculateMargin,
+  calculateProfitAfterTax,
+  calculateROI,
+  detectPriceAnomalies,
+} from './calculations.js';
+
+/**
+ * Alert Rules Library
+ *
+ * Pure evaluation of alert conditions against a snapshot of an item's
+ * market data. Loading rules and delivering notifications is handled by
+ * the alert service; this module only decides whether a rule holds.
+ */
+
+/**
+ * Alert types that need a threshold to be evaluated
+ */
+export const THRESHOLD_ALERT_TYPES: AlertType[] = [
+  'price_above',
+  'price_below',
+  'margin_above',
+  'roi_above',
+  'volume_drop',
+];
+
+/**
+ * All supported alert types
+ */
+export const ALERT_TYPES: AlertType[] = [...THRESHOLD_ALERT_TYPES, 'spike'];
+
+/**
+ * Market data for one item at evaluation time
+ */
+export interface AlertMarketSnapshot {
+  itemName: string;
+  high: number;             // Latest instant sell price
+  low: number;              // Latest instant buy price
+  recentHighs: number[];    // Recent sell prices, newest first (includes latest)
+  recentLows: number[];     // Recent buy prices, newest first (includes latest)
+  volume?: number;          // 24h volume
+  previousVolume?: number;  // 24h volume for the 24 hours before that
+}
+
+/**
+ * Result of evaluating an alert rule
+ */
+export interface AlertEvaluation {
+  triggered: boolean;
+  value?: number;           // Observed value compared against the threshold
+  message: string;
+}
+
+/**
+ * Evaluates an alert condition against an item's market data
+ *
+ * @param rule - Alert type and threshold
+ * @param snapshot - Current market data for the rule's item
+ * @returns Whether the condition holds, the observed value and a message
+ */
+export function evaluateAlertRule(
+  rule: { type: AlertType; threshold?: number | null },
+  snapshot: AlertMarketSnapshot
+): AlertEvaluation {
+  const threshold = rule.threshold ?? 0;
+  const { itemName, high, low } = snapshot;
+  const formatGp = (value: number) => `${Math.round(value).toLocaleString()} GP`;
+
+  switch (rule.type) {
+    case 'price_above':
+      return {
+        triggered: high >= threshold,
+        value: high,
+        message: `${itemName} sell price is ${formatGp(high)} (alert at ${formatGp(threshold)} or above)`,
+      };
+
+    case 'price_below':
+      return {
+        triggered: low <= threshold,
+        value: low,
+        message: `${itemName} buy price is ${formatGp(low)} (alert at ${formatGp(threshold)} or below)`,
+      };
+
+    case 'margin_above': {
+      const margin = calculateMargin(high, low);
+      return {
+        triggered: margin > threshold,
+        value: margin,
+        message: `${itemName} margin is ${formatGp(margin)} (alert above ${formatGp(threshold)})`,
+      };
+    }
+
+    case 'roi_above': {
+      const roi = calculateROI(calculateProfitAfterTax(calculateMargin(high, low), high, 1), low);
+      return {
+        triggered: roi > threshold,
+        value: roi,
+        message: `${itemName} ROI after tax is ${roi.toFixed(1)}% (alert above ${threshold}%)`,
+      };
+    }
+
+    case 'volume_drop': {
+      const { volume = 0, previousVolume } = snapshot;
+      if (!previousVolume) {
+        return { triggered: false, message: `${itemName} has no previous volume to compare with` };
+      }
+      const drop = ((previousVolume - volume) / previousVolume) * 100;
+      return {
+        triggered: drop >= threshold,
+        value: drop,
+        message: `${itemName} 24h volume dropped ${drop.toFixed(1)}% to ${volume.toLocaleString()} (alert at ${threshold}%)`,
+      };
+    }
+
+    case 'spike': {
+      const { hasSpike, hasCrash } = detectPriceAnomalies(
+        high,
+        low,
+        snapshot.recentHighs,
+        snapshot.recentLows
+      );
+      const direction = hasSpike ? `spiked to ${formatGp(high)}` : `crashed to ${formatGp(low)}`;
+      return {
+        triggered: hasSpike || hasCrash,
+        value: hasSpike ? high : low,
+        message: `${itemName} price ${direction}`,
+      };
+    }
+
+    default:
+      return { triggered: false, message: `Unknown alert type ${rule.type}` };
+  }
+}
@@ -1,4 +1,16 @@
-import { FlipOpportunity } from '../types/api.js';
+import {
+  BuyLimitUsage,
+  FillTimeEstimate,
+  FlipOpportunity,
+  FlipOutcome,
+  PriceAge,
+  PriceAgeLimits,
+  RealizedProfit,
+  ScoringStrategy,
+  ScoringWeights,
+  TradeLeg,
+  VolumeSides,
+} from '../types/api.js';
 
 /**
  * Trading Calculations Library
@@ -22,6 +34,19 @@ export const GE_TAX_RATE = 0.02;
  */
 export const MAX_GE_TAX = 5000000;
 
+/**
+ * Grand Exchange slots available per account type
+ */
+export const GE_SLOTS = {
+  MEMBERS: 8,    // Members accounts
+  F2P: 3,        // Free-to-play accounts
+};
+
+/**
+ * Length of the rolling GE buy limit window in hours
+ */
+export const BUY_LIMIT_WINDOW_HOURS = 4;
+
 /**
  * Minimum volume thresholds for filtering illiquid items
  */
@@ -30,6 +55,26 @@ export const MIN_VOLUME_THRESHOLDS = {
   DAILY: 1200,   // Minimum trades per 24 hours
 };
 
+/**
+ * Default maximum age of the last trade on each side before a price is stale
+ */
+export const DEFAULT_PRICE_AGE_LIMITS: PriceAgeLimits = {
+  maxHighAgeMinutes: 120,
+  maxLowAgeMinutes: 120,
+};
+
+/**
+ * Shortest fill time used for GP/hour, in hours
+ * Prices are only sampled every 5 minutes, so faster fills cannot be told apart
+ */
+export const MIN_FILL_HOURS = 5 / 60;
+
+/**
+ * Volume imbalance at which an item is treated as one-sided
+ * One-sided items get their risk level raised by one step
+ */
+export const VOLUME_IMBALANCE_THRESHOLD = 0.5;
+
 /**
  * Volatility thresholds for risk assessment and filtering
  */
@@ -121,6 +166,120 @@ export function calculateProfitAfterTax(margin: number, high: number, quantity:
   return profitPerItem * quantity;
 }
 
+/**
+ * Calculates realized profit from recorded trade fills
+ * 
+ * Every sell leg is taxed per item with calculateGETax, matching the rules
+ * used for predicted profits. The average buy price is used as the cost
+ * basis, and profit is only realized for quantity that was both bought
+ * and sold.
+ * 
+ * @param legs - Recorded buy and sell fills for a single item
+ * @returns Quantities, average prices, tax paid and realized profit
+ */
+export function calculateRealizedProfit(
+  legs: Pick<TradeLeg, 'side' | 'price' | 'quantity'>[]
+): RealizedProfit {
+  let boughtQuantity = 0;
+  let soldQuantity = 0;
+  let buyCost = 0;
+  let sellRevenue = 0;
+  let totalTax = 0;
+
+  for (const leg of legs) {
+    if (leg.side === 'buy') {
+      boughtQuantity += leg.quantity;
+      buyCost += leg.price * leg.quantity;
+    } else {
+      soldQuantity += leg.quantity;
+      sellRevenue += leg.price * leg.quantity;
+      totalTax += calculateGETax(leg.price) * leg.quantity;
+    }
+  }
+
+  const avgBuyPrice = boughtQuantity > 0 ? buyCost / boughtQuantity : 0;
+  const avgSellPrice = soldQuantity > 0 ? sellRevenue / soldQuantity : 0;
+  const avgNetSellPrice = soldQuantity > 0 ? (sellRevenue - totalTax) / soldQuantity : 0;
+
+  // Only quantity that has been both bought and sold counts as realized
+  const matchedQuantity = Math.min(boughtQuantity, soldQuantity);
+
+  return {
+    boughtQuantity,
+    soldQuantity,
+    openQuantity: Math.max(boughtQuantity - soldQuantity, 0),
+    avgBuyPrice,
+    avgSellPrice,
+    totalTax,
+    realizedProfit: matchedQuantity * (avgNetSellPrice - avgBuyPrice),
+  };
+}
+
+/**
+ * Replays a suggested flip against prices observed after the suggestion
+ * 
+ * The buy leg fills once a later low trade reaches the suggested buy price,
+ * and the sell leg fills once a later high (after the buy) reaches the
+ * suggested sell price. If the sell never fills, the position is marked to
+ * the last observed high so the achievable profit still reflects the market.
+ * 
+ * @param suggestion - Suggested buy/sell prices, quantity and predicted profit
+ * @param laterPrices - Price observations made after the suggestion
+ * @returns Fill flags, achievable profit and errors versus the prediction
+ */
+export function evaluateFlipOutcome(
+  suggestion: { buyPrice: number; sellPrice: number; quantity: number; profitAfterTax: number },
+  laterPrices: { timestamp: Date; high?: number | null; low?: number | null }[]
+): FlipOutcome {
+  const { buyPrice, sellPrice, quantity, profitAfterTax } = suggestion;
+  const prices = [...laterPrices].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const highs = prices.map(p => p.high || 0).filter(p => p > 0);
+  const lows = prices.map(p => p.low || 0).filter(p => p > 0);
+  const avgHigh = highs.length > 0 ? highs.reduce((sum, p) => sum + p, 0) / highs.length : 0;
+  const avgLow = lows.length > 0 ? lows.reduce((sum, p) => sum + p, 0) / lows.length : 0;
+  const observedMargin = highs.length > 0 && lows.length > 0 ? avgHigh - avgLow : 0;
+
+  const buyIndex = prices.findIndex(p => !!p.low && p.low <= buyPrice);
+  const buyFilled = buyIndex !== -1;
+
+  let sellFilled = false;
+  let sellFilledAt: Date | undefined;
+  let exitPrice: number | undefined;
+  let actualProfitAfterTax = 0;
+
+  if (buyFilled) {
+    const afterBuy = prices.slice(buyIndex);
+    const sell = afterBuy.find(p => !!p.high && p.high >= sellPrice);
+    if (sell) {
+      sellFilled = true;
+      sellFilledAt = sell.timestamp;
+      exitPrice = sellPrice;
+    } else {
+      // Mark the open position to the last observed high
+      const lastHigh = [...afterBuy].reverse().find(p => !!p.high);
+      exitPrice = lastHigh?.high || undefined;
+    }
+
+    if (exitPrice !== undefined) {
+      actualProfitAfterTax = calculateProfitAfterTax(exitPrice - buyPrice, exitPrice, quantity);
+    }
+  }
+
+  return {
+    buyFilled,
+    sellFilled,
+    hit: buyFilled && sellFilled,
+    buyFilledAt: buyFilled ? prices[buyIndex].timestamp : undefined,
+    sellFilledAt,
+    exitPrice,
+    observedMargin,
+    actualProfitAfterTax,
+    marginError: observedMargin - (sellPrice - buyPrice),
+    profitError: actualProfitAfterTax - profitAfterTax,
+  };
+}
+
 /**
  * Calculates price volatility from historical price data
  * 
@@ -178,19 +337,56 @@ export function detectPriceAnomalies(
   return { hasSpike, hasCrash, isStable };
 }
 
+/**
+ * Calculates how much of an item's buy limit is consumed by recorded buys
+ * 
+ * The GE buy limit applies to a rolling 4-hour window: every buy counts
+ * against the limit until 4 hours after it was made. Buys after `now` are
+ * ignored so that past points in time can be evaluated.
+ * 
+ * @param buys - Recorded buy fills for one item on one account
+ * @param buyLimit - GE buy limit for the item (must be greater than 0)
+ * @param now - Time to evaluate the window at (default: current time)
+ * @returns Used and remaining quantity, and when the oldest buy in the window expires
+ */
+export function calculateBuyLimitUsage(
+  buys: { quantity: number; timestamp: Date }[],
+  buyLimit: number,
+  now: Date = new Date()
+): BuyLimitUsage {
+  const windowMs = BUY_LIMIT_WINDOW_HOURS * 60 * 60 * 1000;
+  const windowStart = now.getTime() - windowMs;
+
+  const inWindow = buys.filter(
+    buy => buy.timestamp.getTime() > windowStart && buy.timestamp.getTime() <= now.getTime()
+  );
+  const used = inWindow.reduce((sum, buy) => sum + buy.quantity, 0);
+  const oldest = inWindow.reduce<number | null>(
+    (min, buy) => (min === null ? buy.timestamp.getTime() : Math.min(min, buy.timestamp.getTime())),
+    null
+  );
+
+  return {
+    used,
+    remaining: Math.max(0, buyLimit - used),
+    resetsAt: oldest !== null ? new Date(oldest + windowMs) : undefined,
+  };
+}
+
 /**
  * Calculates optimal quantity to purchase based on various constraints
  * 
  * This function considers multiple factors to determine the best quantity:
  * - Available budget
  * - Item buy limits (GE restrictions) - treats 0 as unlimited
- * - Volume-based liquidity constraints
+ * - Volume-based liquidity constraints, reduced for one-sided markets
  * - Price per item
  * 
  * @param budget - Total available budget
  * @param avgPrice - Average price per item
  * @param buyLimit - GE buy limit for this item (0 = unlimited)
  * @param volume - Recent trading volume for liquidity assessment
+ * @param imbalance - Volume imbalance from calculateVolumeImbalance (default 0 = balanced)
  * @param maxBudgetPercent - Maximum percentage of budget to allocate (default 100% - removed artificial cap)
  * @returns Optimal quantity to purchase
  */
@@ -199,6 +395,7 @@ export function calculateOptimalQuantity(
   avgPrice: number,
   buyLimit: number,
   volume: number = 0,
+  imbalance: number = 0,
   maxBudgetPercent: number = 1.0  // Removed artificial 10% cap
 ): number {
   // Calculate maximum budget allocation for this item
@@ -212,42 +409,250 @@ export function calculateOptimalQuantity(
   const effectiveBuyLimit = buyLimit === 0 ? Number.MAX_SAFE_INTEGER : buyLimit;
   
   // Consider volume for liquidity (don't buy more than recent volume suggests is liquid)
-  // Use a conservative approach: don't exceed 10% of recent daily volume
-  const volumeBasedLimit = volume > 0 ? Math.max(1, Math.floor(volume * 0.1)) : Number.MAX_SAFE_INTEGER;
+  // Use a conservative approach: don't exceed 10% of recent daily volume,
+  // scaled down when there are more sellers than buyers to exit to
+  const exitFactor = 1 - Math.max(0, imbalance);
+  const volumeBasedLimit = volume > 0 ? Math.max(1, Math.floor(volume * 0.1 * exitFactor)) : Number.MAX_SAFE_INTEGER;
   
   // Return the most restrictive limit
   return Math.min(effectiveBuyLimit, maxQuantityByBudget, maxQuantityByPrice, volumeBasedLimit);
 }
 
+/**
+ * Calculates how long ago each side of a price last traded
+ * 
+ * Sides without a trade time (for example prices filled in from
+ * PriceHistory) are reported as unknown and never count as stale.
+ * 
+ * @param highTime - Time of the last trade at the high price
+ * @param lowTime - Time of the last trade at the low price
+ * @param now - Reference time
+ * @param limits - Maximum age per side (default: DEFAULT_PRICE_AGE_LIMITS)
+ * @returns Age of each side in minutes and whether the price is stale
+ */
+export function calculatePriceAge(
+  highTime: Date | null | undefined,
+  lowTime: Date | null | undefined,
+  now: Date,
+  limits: PriceAgeLimits = DEFAULT_PRICE_AGE_LIMITS
+): PriceAge {
+  const age = (time: Date | null | undefined) =>
+    time ? Math.max(now.getTime() - time.getTime(), 0) / (60 * 1000) : null;
+
+  const highMinutes = age(highTime);
+  const lowMinutes = age(lowTime);
+  return {
+    highMinutes,
+    lowMinutes,
+    stale:
+      (highMinutes !== null && highMinutes > limits.maxHighAgeMinutes) ||
+      (lowMinutes !== null && lowMinutes > limits.maxLowAgeMinutes),
+  };
+}
+
+/**
+ * Estimates how long buying and then selling a quantity will take
+ * 
+ * A buy offer at the low price is filled by players instant-selling, and
+ * the following sell offer at the high price by players instant-buying,
+ * so each leg uses the hourly volume of the opposite side. When a side
+ * had no volume in the last hour, the time since its last trade
+ * (`lowTime`/`highTime`) is used as the interval between single trades.
+ * The estimate assumes the offer captures all volume on its side, so it is
+ * optimistic for heavily flipped items.
+ * 
+ * @param quantity - Quantity to buy and sell
+ * @param hourlyVolume - Units instant-bought and instant-sold per hour
+ * @param hoursSinceHighTrade - Hours since the last trade at the high price (optional)
+ * @param hoursSinceLowTrade - Hours since the last trade at the low price (optional)
+ * @returns Fill time estimate, or null if a side shows no trading activity
+ */
+export function estimateFillTime(
+  quantity: number,
+  hourlyVolume: VolumeSides,
+  hoursSinceHighTrade?: number | null,
+  hoursSinceLowTrade?: number | null
+): FillTimeEstimate | null {
+  const rate = (volume: number, hoursSinceTrade?: number | null) => {
+    if (volume > 0) return volume;
+    if (hoursSinceTrade !== undefined && hoursSinceTrade !== null && hoursSinceTrade > 0) {
+      return 1 / hoursSinceTrade;
+    }
+    return 0;
+  };
+
+  const buyRate = rate(hourlyVolume.sellVolume, hoursSinceLowTrade);
+  const sellRate = rate(hourlyVolume.buyVolume, hoursSinceHighTrade);
+  if (buyRate === 0 || sellRate === 0) return null;
+
+  const buyHours = quantity / buyRate;
+  const sellHours = quantity / sellRate;
+  return { buyHours, sellHours, totalHours: buyHours + sellHours };
+}
+
+/**
+ * Calculates net profit per hour of estimated fill time
+ * 
+ * @param profitAfterTax - Net profit of the flip
+ * @param fillHours - Estimated buy plus sell time
+ * @returns GP per hour (fill time is floored at MIN_FILL_HOURS)
+ */
+export function calculateGpPerHour(profitAfterTax: number, fillHours: number): number {
+  return profitAfterTax / Math.max(fillHours, MIN_FILL_HOURS);
+}
+
+/**
+ * Name of the strategy used when none is requested
+ */
+export const DEFAULT_SCORING_STRATEGY = 'balanced';
+
+/**
+ * Registry of named scoring strategies
+ * Presets are registered below; additional strategies can be added at runtime
+ */
+const scoringStrategies = new Map<string, ScoringStrategy>();
+
+/**
+ * Normalizes scoring weights so they sum to 1
+ * 
+ * Missing weights default to 0 and negative weights are clamped to 0.
+ * If every weight is 0, the balanced preset weights are returned.
+ * 
+ * @param weights - Partial or unnormalized weights
+ * @returns Complete weights summing to 1
+ */
+export function normalizeScoringWeights(weights: Partial<ScoringWeights>): ScoringWeights {
+  const raw: ScoringWeights = {
+    profit: Math.max(weights.profit || 0, 0),
+    volume: Math.max(weights.volume || 0, 0),
+    roi: Math.max(weights.roi || 0, 0),
+    stability: Math.max(weights.stability || 0, 0),
+    gpPerHour: Math.max(weights.gpPerHour || 0, 0),
+  };
+  const total = raw.profit + raw.volume + raw.roi + raw.stability + raw.gpPerHour;
+  if (total === 0) {
+    return { profit: 0.5, volume: 0.3, roi: 0.2, stability: 0, gpPerHour: 0 };
+  }
+
+  return {
+    profit: raw.profit / total,
+    volume: raw.volume / total,
+    roi: raw.roi / total,
+    stability: raw.stability / total,
+    gpPerHour: raw.gpPerHour / total,
+  };
+}
+
+/**
+ * Adds or replaces a named scoring strategy in the registry
+ * 
+ * @param strategy - Strategy definition (weights are normalized)
+ */
+export function registerScoringStrategy(strategy: ScoringStrategy): void {
+  scoringStrategies.set(strategy.name, {
+    ...strategy,
+    weights: normalizeScoringWeights(strategy.weights),
+  });
+}
+
+/**
+ * Looks up a scoring strategy by name
+ * 
+ * @param name - Strategy name
+ * @returns The strategy, or undefined if it is not registered
+ */
+export function getScoringStrategy(name: string): ScoringStrategy | undefined {
+  return scoringStrategies.get(name);
+}
+
+/**
+ * Lists all registered scoring strategies
+ * 
+ * @returns Array of strategies in registration order
+ */
+export function listScoringStrategies(): ScoringStrategy[] {
+  return [...scoringStrategies.values()];
+}
+
+registerScoringStrategy({
+  name: 'balanced',
+  label: 'Balanced',
+  description: 'Profit 50%, volume 30%, ROI 20%',
+  weights: { profit: 0.5, volume: 0.3, roi: 0.2, stability: 0, gpPerHour: 0 },
+});
+
+registerScoringStrategy({
+  name: 'high-roi',
+  label: 'High ROI',
+  description: 'Favours the best return per GP invested',
+  weights: { profit: 0.2, volume: 0.2, roi: 0.6, stability: 0, gpPerHour: 0 },
+});
+
+registerScoringStrategy({
+  name: 'high-liquidity',
+  label: 'High Liquidity',
+  description: 'Favours heavily traded items that fill quickly',
+  weights: { profit: 0.2, volume: 0.6, roi: 0.2, stability: 0, gpPerHour: 0 },
+});
+
+registerScoringStrategy({
+  name: 'low-risk',
+  label: 'Low Risk',
+  description: 'Favours stable prices over raw profit',
+  weights: { profit: 0.25, volume: 0.25, roi: 0.1, stability: 0.4, gpPerHour: 0 },
+});
+
+registerScoringStrategy({
+  name: 'gp-per-hour',
+  label: 'GP / Hour',
+  description: 'Favours quick flips over slow items that tie up slots',
+  weights: { profit: 0.2, volume: 0, roi: 0, stability: 0, gpPerHour: 0.8 },
+});
+
 /**
  * Calculates a composite score for ranking opportunities
  * 
- * This scoring system balances profitability, liquidity, and ROI to provide
- * better recommendations than simple profit-based sorting.
+ * This scoring system balances profitability, liquidity, ROI, price
+ * stability and GP/hour according to the given weights. Each metric is converted to a
+ * rank-based score between 0 and 1 before weighting.
  * 
  * @param opportunities - Array of opportunities to score
+ * @param weights - Scoring weights (default: balanced strategy)
  * @returns Array with calculated scores
  */
-export function calculateOpportunityScores(opportunities: FlipOpportunity[]): FlipOpportunity[] {
+export function calculateOpportunityScores(
+  opportunities: FlipOpportunity[],
+  weights: ScoringWeights = getScoringStrategy(DEFAULT_SCORING_STRATEGY)!.weights
+): FlipOpportunity[] {
   if (opportunities.length === 0) return opportunities;
 
   // Calculate ranks for each metric (lower rank = better)
   const sortedByProfit = [...opportunities].sort((a, b) => b.profitAfterTax - a.profitAfterTax);
   const sortedByVolume = [...opportunities].sort((a, b) => b.volume - a.volume);
   const sortedByROI = [...opportunities].sort((a, b) => b.roi - a.roi);
+  const sortedByStability = [...opportunities].sort((a, b) => a.volatility - b.volatility);
+  const sortedByGpPerHour = [...opportunities].sort((a, b) => (b.gpPerHour || 0) - (a.gpPerHour || 0));
 
   // Assign normalized scores (0-1, higher is better)
   return opportunities.map(opp => {
     const profitRank = sortedByProfit.findIndex(o => o.id === opp.id);
     const volumeRank = sortedByVolume.findIndex(o => o.id === opp.id);
     const roiRank = sortedByROI.findIndex(o => o.id === opp.id);
+    const stabilityRank = sortedByStability.findIndex(o => o.id === opp.id);
+    const gpPerHourRank = sortedByGpPerHour.findIndex(o => o.id === opp.id);
 
     const profitScore = 1 - (profitRank / opportunities.length);
     const volumeScore = 1 - (volumeRank / opportunities.length);
     const roiScore = 1 - (roiRank / opportunities.length);
+    const stabilityScore = 1 - (stabilityRank / opportunities.length);
+    const gpPerHourScore = 1 - (gpPerHourRank / opportunities.length);
 
-    // Weighted composite score: profit 50%, volume 30%, ROI 20%
-    const compositeScore = (profitScore * 0.5) + (volumeScore * 0.3) + (roiScore * 0.2);
+    const compositeScore =
+      (profitScore * weights.profit) +
+      (volumeScore * weights.volume) +
+      (roiScore * weights.roi) +
+      (stabilityScore * weights.stability) +
+      (gpPerHourScore * (weights.gpPerHour || 0));
 
     return {
       ...opp,
@@ -260,10 +665,14 @@ export function calculateOpportunityScores(opportunities: FlipOpportunity[]): Fl
  * Sorts trading opportunities by composite score (descending)
  * 
  * @param opportunities - Array of flip opportunities
+ * @param weights - Scoring weights (default: balanced strategy)
  * @returns Sorted array with highest scoring opportunities first
  */
-export function sortOpportunitiesByScore(opportunities: FlipOpportunity[]): FlipOpportunity[] {
-  const scoredOpportunities = calculateOpportunityScores(opportunities);
+export function sortOpportunitiesByScore(
+  opportunities: FlipOpportunity[],
+  weights?: ScoringWeights
+): FlipOpportunity[] {
+  const scoredOpportunities = calculateOpportunityScores(opportunities, weights);
   return scoredOpportunities.sort((a, b) => (b.compositeScore || 0) - (a.compositeScore || 0));
 }
 
@@ -277,11 +686,14 @@ export function sortOpportunitiesByScore(opportunities: FlipOpportunity[]): Flip
  * - Volume/liquidity requirements
  * - Volatility limits
  * - Price stability checks
+ * - Stale prices (last trade on a side older than its maximum age)
  * 
  * @param opportunities - Array of all opportunities
  * @param minProfit - Minimum profit threshold (default: 1000 GP)
  * @param minROI - Minimum ROI threshold (default: 5%)
  * @param minVolume - Minimum volume threshold (default: 50 trades/day)
+ * @param maxVolatility - Maximum volatility percentage
+ * @param excludeStale - Drop opportunities whose `priceAge` is stale (default: true)
  * @returns Filtered array of profitable and stable opportunities
  */
 export function filterProfitableOpportunities(
@@ -289,7 +701,8 @@ export function filterProfitableOpportunities(
   minProfit: number = 1000,
   minROI: number = 5,
   minVolume: number = 0,
-  maxVolatility: number = VOLATILITY_THRESHOLDS.EXTREME
+  maxVolatility: number = VOLATILITY_THRESHOLDS.EXTREME,
+  excludeStale: boolean = true
 ): FlipOpportunity[] {
   return opportunities.filter(opp => {
     // Basic profitability filters
@@ -317,6 +730,11 @@ export function filterProfitableOpportunities(
       return false;
     }
 
+    // Margins between prices that have not traded recently are unreliable
+    if (excludeStale && opp.priceAge?.stale) {
+      return false;
+    }
+
     // All filters passed
     return true;
   });
@@ -335,15 +753,78 @@ export function hasSufficientVolume(volume: number, itemPrice: number): boolean
   return volume >= threshold;
 }
 
+/**
+ * Calculates how one-sided recent trading was
+ * 
+ * Buy volume counts units instant-bought at the high price (the demand a
+ * flip sells into); sell volume counts units instant-sold at the low price
+ * (the supply a flip buys from). The result ranges from -1 (only buyers)
+ * to 1 (only sellers). Positive values mean a flip may fill its buy offer
+ * but struggle to exit at the high.
+ * 
+ * @param buyVolume - Units traded at the high price
+ * @param sellVolume - Units traded at the low price
+ * @returns Imbalance between -1 and 1 (0 when there is no volume)
+ */
+export function calculateVolumeImbalance(buyVolume: number, sellVolume: number): number {
+  const total = buyVolume + sellVolume;
+  if (total <= 0) return 0;
+  return (sellVolume - buyVolume) / total;
+}
+
 /**
  * Gets risk level based on volatility percentage
  * 
+ * Items whose volume imbalance reaches VOLUME_IMBALANCE_THRESHOLD are
+ * raised one level, since positions in them cannot be exited quickly.
+ * 
  * @param volatility - Volatility percentage
+ * @param imbalance - Volume imbalance from calculateVolumeImbalance (default 0)
  * @returns Risk level string
  */
-export function getRiskLevel(volatility: number): 'Low' | 'Medium' | 'High' | 'Extreme' {
-  if (volatility < VOLATILITY_THRESHOLDS.LOW) return 'Low';
-  if (volatility < VOLATILITY_THRESHOLDS.MEDIUM) return 'Medium';
-  if (volatility < VOLATILITY_THRESHOLDS.HIGH) return 'High';
-  return 'Extreme';
-}
\ No newline at end of file
+export function getRiskLevel(
+  volatility: number,
+  imbalance: number = 0
+): 'Low' | 'Medium' | 'High' | 'Extreme' {
+  const levels = ['Low', 'Medium', 'High', 'Extreme'] as const;
+  let level = 3;
+  if (volatility < VOLATILITY_THRESHOLDS.LOW) level = 0;
+  else if (volatility < VOLATILITY_THRESHOLDS.MEDIUM) level = 1;
+  else if (volatility < VOLATILITY_THRESHOLDS.HIGH) level = 2;
+
+  if (imbalance >= VOLUME_IMBALANCE_THRESHOLD) level = Math.min(level + 1, 3);
+  return levels[level];
+}
+
+/**
+ * Finds opportunities that changed between two analysis runs
+ * 
+ * An opportunity counts as changed when it is new or its prices, volume or
+ * quantity differ. Opportunities that are no longer present are returned
+ * by ID.
+ * 
+ * @param previous - Opportunities from the previous run
+ * @param current - Opportunities from the current run
+ * @returns Changed or new opportunities, and IDs of removed ones
+ */
+export function diffOpportunities(
+  previous: FlipOpportunity[],
+  current: FlipOpportunity[]
+): { changed: FlipOpportunity[]; removed: number[] } {
+  const previousById = new Map(previous.map(opp => [opp.id, opp]));
+  const currentIds = new Set(current.map(opp => opp.id));
+
+  const changed = current.filter(opp => {
+    const before = previousById.get(opp.id);
+    return (
+      !before ||
+      before.currentHigh !== opp.currentHigh ||
+      before.currentLow !== opp.currentLow ||
+      before.volume !== opp.volume ||
+      before.quantity !== opp.quantity
+    );
+  });
+  const removed = previous.filter(opp => !currentIds.has(opp.id)).map(opp => opp.id);
+
+  return { changed, removed };
+}
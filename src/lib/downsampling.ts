@@ -0,0 +1,131 @@
+/**
+ * Price Downsampling Library
+ *
+ * Rolls price observations up into fixed time buckets (hourly or daily).
+ * Used by the retention job to turn raw Price rows into PriceHistory
+ * aggregates, and by item history queries to present mixed-resolution
+ * data at a single resolution.
+ */
+
+/**
+ * Duration of one hour in milliseconds
+ */
+export const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Duration of one day in milliseconds
+ */
+export const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Interval covered by the volume recorded on a raw Price row (/5m window)
+ */
+export const RAW_VOLUME_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * A price observation: either a raw sample or an existing aggregate
+ * Aggregates carry their own min/max, raw samples use high/low for both.
+ */
+export interface PricePoint {
+  itemId: number;
+  timestamp: Date;
+  high: number | null;
+  low: number | null;
+  minHigh?: number | null;
+  maxHigh?: number | null;
+  minLow?: number | null;
+  maxLow?: number | null;
+  volume?: number | null;
+}
+
+/**
+ * A price aggregate for one item and one time bucket
+ */
+export interface PriceAggregate {
+  itemId: number;
+  date: Date;               // Start of the bucket
+  avgHigh: number;
+  avgLow: number;
+  minHigh: number;
+  maxHigh: number;
+  minLow: number;
+  maxLow: number;
+  volume: number;
+}
+
+/**
+ * Returns the start of the bucket containing a timestamp (UTC aligned)
+ *
+ * @param timestamp - Time to align
+ * @param bucketMs - Bucket length in milliseconds
+ * @returns Start of the bucket
+ */
+export function bucketStart(timestamp: Date, bucketMs: number): Date {
+  return new Date(Math.floor(timestamp.getTime() / bucketMs) * bucketMs);
+}
+
+/**
+ * Aggregates price points into per-item time buckets
+ *
+ * High and low prices are averaged over the points that have them, and
+ * min/max use each point's own range when it is an aggregate. Buckets
+ * without both a high and a low price are dropped.
+ *
+ * Volume is summed by default. When `volumeIntervalMs` is given, each
+ * point's volume is treated as a rate sample covering that interval, and
+ * the bucket volume is the average sample scaled to the bucket length.
+ * This keeps estimates stable when samples are missing or duplicated.
+ *
+ * @param points - Price points for one or more items
+ * @param bucketMs - Bucket length in milliseconds
+ * @param volumeIntervalMs - Interval covered by each point's volume (optional)
+ * @returns Aggregates sorted by item and bucket start
+ */
+export function downsamplePrices(
+  points: PricePoint[],
+  bucketMs: number,
+  volumeIntervalMs?: number
+): PriceAggregate[] {
+  const buckets = new Map<string, PricePoint[]>();
+  for (const point of points) {
+    const key = `${point.itemId}:${bucketStart(point.timestamp, bucketMs).getTime()}`;
+    const list = buckets.get(key) || [];
+    list.push(point);
+    buckets.set(key, list);
+  }
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const aggregates: PriceAggregate[] = [];
+
+  for (const bucket of buckets.values()) {
+    const withHigh = bucket.filter(p => p.high !== null && p.high > 0);
+    const withLow = bucket.filter(p => p.low !== null && p.low > 0);
+    if (withHigh.length === 0 || withLow.length === 0) continue;
+
+    const volumes = bucket
+      .map(p => p.volume)
+      .filter((v): v is number => v !== null && v !== undefined);
+    let volume = 0;
+    if (volumes.length > 0) {
+      volume = volumeIntervalMs
+        ? Math.round(average(volumes) * (bucketMs / volumeIntervalMs))
+        : volumes.reduce((sum, v) => sum + v, 0);
+    }
+
+    aggregates.push({
+      itemId: bucket[0].itemId,
+      date: bucketStart(bucket[0].timestamp, bucketMs),
+      avgHigh: average(withHigh.map(p => p.high!)),
+      avgLow: average(withLow.map(p => p.low!)),
+      minHigh: Math.min(...withHigh.map(p => p.minHigh ?? p.high!)),
+      maxHigh: Math.max(...withHigh.map(p => p.maxHigh ?? p.high!)),
+      minLow: Math.min(...withLow.map(p => p.minLow ?? p.low!)),
+      maxLow: Math.max(...withLow.map(p => p.maxLow ?? p.low!)),
+      volume,
+    });
+  }
+
+  return aggregates.sort(
+    (a, b) => a.itemId - b.itemId || a.date.getTime() - b.date.getTime()
+  );
+}
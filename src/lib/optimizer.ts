@@ -0,0 +1,240 @@
+import { FlipOpportunity } from '../types/api.js';
+import { calculateGETax, calculateProfitAfterTax, calculateROI } from './calculations.js';
+
+/**
+ * Portfolio Optimizer Library
+ *
+ * Selects which opportunities to fill the Grand Exchange slots with, and in
+ * what quantity, for a given budget. Two selection methods are available:
+ *
+ * - Greedy: takes opportunities in score order until the budget or slots
+ *   run out (the original selection algorithm, kept for comparison)
+ * - Knapsack: maximizes expected after-tax profit under the budget, slot
+ *   count, buy limits and volume caps using dynamic programming
+ */
+
+/**
+ * Default number of budget units used by the knapsack optimizer
+ * Higher values are more precise but slower (cost grows quadratically)
+ */
+export const KNAPSACK_RESOLUTION = 100;
+
+/**
+ * Share of 24h volume that may be bought of an item without a buy limit
+ */
+const UNLIMITED_VOLUME_SHARE = 0.2;
+
+/**
+ * Returns a copy of an opportunity with metrics recalculated for a new quantity
+ *
+ * @param opportunity - Opportunity to adjust
+ * @param quantity - New quantity to buy
+ * @returns Opportunity with quantity, cost, profit and ROI updated
+ */
+export function withQuantity(opportunity: FlipOpportunity, quantity: number): FlipOpportunity {
+  const totalCost = quantity * opportunity.currentLow;
+  const profitAfterTax = calculateProfitAfterTax(
+    opportunity.margin,
+    opportunity.currentHigh,
+    quantity
+  );
+
+  return {
+    ...opportunity,
+    quantity,
+    totalCost,
+    totalProfit: quantity * opportunity.margin,
+    profitAfterTax,
+    roi: calculateROI(profitAfterTax, totalCost),
+  };
+}
+
+/**
+ * Maximum quantity the optimizer may allocate to an opportunity
+ *
+ * Items with a buy limit use the quantity already capped by buy limit and
+ * volume. Unlimited items are capped at a share of their 24h volume.
+ *
+ * @param opportunity - Opportunity to cap
+ * @returns Maximum quantity to buy
+ */
+export function getMaxQuantity(opportunity: FlipOpportunity): number {
+  if (opportunity.buyLimit === 0) {
+    return Math.floor(opportunity.volume * UNLIMITED_VOLUME_SHARE);
+  }
+  return opportunity.quantity;
+}
+
+/**
+ * Greedy portfolio selection
+ *
+ * Picks opportunities in the given (score) order until the budget or the
+ * slot limit is exhausted, buying as much of each as constraints allow.
+ *
+ * @param opportunities - Opportunities sorted by preference
+ * @param budget - Available trading budget in GP
+ * @param maxSlots - Maximum number of items (GE slots)
+ * @returns Selected opportunities with adjusted quantities
+ */
+export function selectGreedyPortfolio(
+  opportunities: FlipOpportunity[],
+  budget: number,
+  maxSlots: number
+): FlipOpportunity[] {
+  let remainingBudget = budget;
+  const selected: FlipOpportunity[] = [];
+
+  for (const opportunity of opportunities) {
+    if (remainingBudget <= 0 || selected.length >= maxSlots) break;
+
+    let adjustedQuantity: number;
+
+    if (opportunity.buyLimit === 0) {
+      // Unlimited buy limit - use budget and volume constraints
+      // Relax the volume cap when we still have a large amount of GP
+      const volumeMultiplier = remainingBudget > budget * 0.5 ? UNLIMITED_VOLUME_SHARE : 0.1;
+      adjustedQuantity = Math.min(
+        Math.floor(remainingBudget / opportunity.currentLow),
+        Math.floor(opportunity.volume * volumeMultiplier)
+      );
+    } else {
+      // Normal buy limit - respect the limit
+      adjustedQuantity = Math.min(
+        opportunity.quantity,
+        Math.floor(remainingBudget / opportunity.currentLow)
+      );
+    }
+
+    // Only include if we can afford at least one item
+    if (adjustedQuantity > 0) {
+      const adjusted = withQuantity(opportunity, adjustedQuantity);
+      selected.push(adjusted);
+      remainingBudget -= adjusted.totalCost;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Knapsack portfolio selection
+ *
+ * Treats the budget as `resolution` equal units and solves a bounded,
+ * multiple-choice knapsack with dynamic programming: each opportunity can
+ * receive 0..N budget units (its quantity is the most that fits, capped by
+ * buy limit and volume), and at most `maxSlots` opportunities may be used.
+ * The objective is total expected profit after GE tax. Budget left over by
+ * the discretization is then topped up on the selected items.
+ *
+ * @param opportunities - Candidate opportunities (order is kept in the result)
+ * @param budget - Available trading budget in GP
+ * @param maxSlots - Maximum number of items (GE slots)
+ * @param resolution - Number of budget units (default: KNAPSACK_RESOLUTION)
+ * @returns Selected opportunities with optimized quantities
+ */
+export function selectOptimalPortfolio(
+  opportunities: FlipOpportunity[],
+  budget: number,
+  maxSlots: number,
+  resolution: number = KNAPSACK_RESOLUTION
+): FlipOpportunity[] {
+  const unit = budget / resolution;
+  const slots = Math.max(0, Math.floor(maxSlots));
+  const stride = resolution + 1;
+
+  const candidates = opportunities
+    .map(opportunity => ({
+      opportunity,
+      unitProfit: opportunity.margin - calculateGETax(opportunity.currentHigh),
+      maxQuantity: getMaxQuantity(opportunity),
+    }))
+    .filter(c => c.unitProfit > 0 && c.maxQuantity > 0 && c.opportunity.currentLow > 0);
+
+  // dp[k * stride + b] = best profit using k slots and at most b budget units
+  let dp = new Float64Array((slots + 1) * stride);
+  const choices: Uint16Array[] = [];
+
+  const quantityFor = (index: number, units: number) => {
+    const { opportunity, maxQuantity } = candidates[index];
+    return Math.min(maxQuantity, Math.floor((units * unit) / opportunity.currentLow));
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    const next = Float64Array.from(dp);
+    const choice = new Uint16Array((slots + 1) * stride);
+
+    // Only unit counts that increase the quantity are worth considering
+    const options: { units: number; profit: number }[] = [];
+    let lastQuantity = 0;
+    for (let units = 1; units <= resolution; units++) {
+      const quantity = quantityFor(i, units);
+      if (quantity > lastQuantity) {
+        options.push({ units, profit: quantity * candidates[i].unitProfit });
+        lastQuantity = quantity;
+      }
+      if (quantity >= candidates[i].maxQuantity) break;
+    }
+
+    for (let k = 1; k <= slots; k++) {
+      for (let b = 1; b <= resolution; b++) {
+        for (const option of options) {
+          if (option.units > b) break;
+          const value = dp[(k - 1) * stride + b - option.units] + option.profit;
+          if (value > next[k * stride + b]) {
+            next[k * stride + b] = value;
+            choice[k * stride + b] = option.units;
+          }
+        }
+      }
+    }
+
+    dp = next;
+    choices.push(choice);
+  }
+
+  // Find the best slot count at full budget, then walk the choices back
+  let bestSlots = 0;
+  for (let k = 1; k <= slots; k++) {
+    if (dp[k * stride + resolution] > dp[bestSlots * stride + resolution]) {
+      bestSlots = k;
+    }
+  }
+
+  const quantities = new Map<number, number>();
+  let k = bestSlots;
+  let b = resolution;
+  for (let i = candidates.length - 1; i >= 0 && k > 0; i--) {
+    const units = choices[i][k * stride + b];
+    if (units > 0) {
+      quantities.set(i, quantityFor(i, units));
+      k--;
+      b -= units;
+    }
+  }
+
+  // Spend budget lost to discretization on the most profitable-per-GP picks
+  let remainingBudget = budget;
+  for (const [i, quantity] of quantities) {
+    remainingBudget -= quantity * candidates[i].opportunity.currentLow;
+  }
+  const byEfficiency = [...quantities.keys()].sort(
+    (a, c) =>
+      candidates[c].unitProfit / candidates[c].opportunity.currentLow -
+      candidates[a].unitProfit / candidates[a].opportunity.currentLow
+  );
+  for (const i of byEfficiency) {
+    const { opportunity, maxQuantity } = candidates[i];
+    const extra = Math.min(
+      maxQuantity - quantities.get(i)!,
+      Math.floor(remainingBudget / opportunity.currentLow)
+    );
+    if (extra > 0) {
+      quantities.set(i, quantities.get(i)! + extra);
+      remainingBudget -= extra * opportunity.currentLow;
+    }
+  }
+
+  return [...quantities.keys()]
+    .sort((a, c) => a - c)
+    .map(i => withQuantity(candidates[i].opportunity, quantities.get(i)!));
+}
@@ -0,0 +1,106 @@
+import { BUY_LIMIT_WINDOW_HOURS, calculateGETax, calculateROI } from './calculations.js';
+
+/**
+ * Processing Library
+ *
+ * Pure calculations for processing recipes: buying input items, converting
+ * them (cleaning herbs, making potions, fletching bows) and selling the
+ * outputs. Loading recipes and prices is handled by the recipe service.
+ */
+
+/**
+ * Current price of one recipe input or output
+ */
+export interface RecipeItemPrice {
+  quantity: number;
+  price: number;
+  buyLimit?: number;  // Inputs only; 0 or missing = unlimited
+}
+
+/**
+ * Profit and throughput of one recipe
+ */
+export interface RecipeEvaluation {
+  inputCost: number;
+  outputValue: number;
+  profit: number;
+  roi: number;
+  actionsPerHour?: number;
+  profitPerHour?: number;
+}
+
+/**
+ * Calculates how many actions per hour a recipe can sustain
+ *
+ * Each input with a buy limit caps the rate at buyLimit / quantity actions
+ * per 4-hour window. The action time caps it at 3600 / secondsPerAction.
+ *
+ * @param inputs - Recipe inputs with their buy limits
+ * @param secondsPerAction - Time for one action (optional)
+ * @returns Actions per hour, or undefined when nothing limits the rate
+ */
+export function calculateActionsPerHour(
+  inputs: RecipeItemPrice[],
+  secondsPerAction?: number | null
+): number | undefined {
+  const limits = inputs
+    .filter(input => input.buyLimit && input.buyLimit > 0)
+    .map(input => input.buyLimit! / input.quantity / BUY_LIMIT_WINDOW_HOURS);
+  if (secondsPerAction && secondsPerAction > 0) {
+    limits.push(3600 / secondsPerAction);
+  }
+  return limits.length > 0 ? Math.min(...limits) : undefined;
+}
+
+/**
+ * Evaluates a processing recipe at current prices
+ *
+ * Inputs are bought at their low price and outputs sold at their high
+ * price. GE tax is charged per output item via calculateGETax.
+ *
+ * @param inputs - Buy prices and quantities of the inputs
+ * @param outputs - Sell prices and quantities of the outputs
+ * @param secondsPerAction - Time for one action (optional)
+ * @returns Profit per action and, when the rate is bounded, per hour
+ */
+export function evaluateRecipe(
+  inputs: RecipeItemPrice[],
+  outputs: RecipeItemPrice[],
+  secondsPerAction?: number | null
+): RecipeEvaluation {
+  const inputCost = inputs.reduce((sum, input) => sum + input.price * input.quantity, 0);
+  const outputValue = outputs.reduce(
+    (sum, output) => sum + (output.price - calculateGETax(output.price)) * output.quantity,
+    0
+  );
+  const profit = outputValue - inputCost;
+  const actionsPerHour = calculateActionsPerHour(inputs, secondsPerAction);
+
+  return {
+    inputCost,
+    outputValue,
+    profit,
+    roi: calculateROI(profit, inputCost),
+    actionsPerHour,
+    profitPerHour: actionsPerHour !== undefined ? profit * actionsPerHour : undefined,
+  };
+}
+
+/**
+ * Orders evaluated recipes for ranking
+ *
+ * Recipes with a known profit/hour come first, highest first. Recipes
+ * without one follow, ordered by profit per action.
+ *
+ * @param a - First recipe
+ * @param b - Second recipe
+ * @returns Sort comparator result
+ */
+export function compareRecipeEvaluations(a: RecipeEvaluation, b: RecipeEvaluation): number {
+  if (a.profitPerHour !== undefined && b.profitPerHour !== undefined) {
+    return b.profitPerHour - a.profitPerHour;
+  }
+  if (a.profitPerHour !== undefined) return -1;
+  if (b.profitPerHour !== undefined) return 1;
+  return b.profit - a.profit;
+}
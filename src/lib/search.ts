@@ -0,0 +1,124 @@
+/**
+ * Item Search Library
+ *
+ * Pure fuzzy matching of search queries against item names. Names are
+ * compared case-insensitively with punctuation removed, so "dharoks" finds
+ * "Dharok's greataxe". Loading items is handled by the item service.
+ */
+
+/**
+ * Match scores, from best to worst
+ */
+export const SEARCH_SCORES = {
+  EXACT: 100,
+  PREFIX: 80,
+  WORD_PREFIXES: 60,
+  SUBSTRING: 50,
+  WORDS: 40,
+  TYPO: 20,
+  SUBSEQUENCE: 10,
+} as const;
+
+/**
+ * Normalizes text for matching: lower case, apostrophes removed and other
+ * punctuation turned into spaces
+ *
+ * @param text - Query or item name
+ * @returns Normalized text
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Checks whether two words differ by at most one edit (insertion, deletion
+ * or substitution)
+ *
+ * @param a - First word
+ * @param b - Second word
+ * @returns Whether the words are within one edit
+ */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/**
+ * Checks whether all characters of the query appear in order in the name
+ *
+ * @param query - Normalized query without spaces
+ * @param name - Normalized name without spaces
+ * @returns Whether the query is a subsequence of the name
+ */
+function isSubsequence(query: string, name: string): boolean {
+  let i = 0;
+  for (const char of name) {
+    if (char === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return query.length === 0;
+}
+
+/**
+ * Scores how well an item name matches a search query
+ *
+ * Exact matches score highest, followed by prefixes, names whose words
+ * start with every query word, substrings, names containing every query
+ * word, single-typo matches (words of 4+ characters) and finally names
+ * containing the query's characters in order (queries of 3+ characters).
+ *
+ * @param query - Search query
+ * @param name - Item name
+ * @returns Match score (see SEARCH_SCORES), or 0 if the name does not match
+ */
+export function scoreItemName(query: string, name: string): number {
+  const q = normalizeSearchText(query);
+  const n = normalizeSearchText(name);
+  if (!q) return 0;
+
+  if (n === q) return SEARCH_SCORES.EXACT;
+  if (n.startsWith(q)) return SEARCH_SCORES.PREFIX;
+
+  const queryWords = q.split(' ');
+  const nameWords = n.split(' ');
+  if (queryWords.every(qw => nameWords.some(nw => nw.startsWith(qw)))) {
+    return SEARCH_SCORES.WORD_PREFIXES;
+  }
+  if (n.includes(q) || n.replace(/ /g, '').includes(q.replace(/ /g, ''))) {
+    return SEARCH_SCORES.SUBSTRING;
+  }
+  if (queryWords.every(qw => n.includes(qw))) return SEARCH_SCORES.WORDS;
+  if (
+    queryWords.every(qw =>
+      nameWords.some(nw => nw.startsWith(qw) || (qw.length >= 4 && withinOneEdit(qw, nw)))
+    )
+  ) {
+    return SEARCH_SCORES.TYPO;
+  }
+  const compact = q.replace(/ /g, '');
+  if (compact.length >= 3 && isSubsequence(compact, n.replace(/ /g, ''))) {
+    return SEARCH_SCORES.SUBSEQUENCE;
+  }
+  return 0;
+}
@@ -0,0 +1,70 @@
+import { SetArbitrageAction } from '../types/api.js';
+import { evaluateRecipe } from './processing.js';
+
+/**
+ * Item Set Arbitrage Library
+ *
+ * Pure calculations for GE-exchangeable item sets. A set is stored as a
+ * recipe with its components as inputs and the set as the single output.
+ * The Grand Exchange exchanges it for free in both directions, so the
+ * recipe is evaluated forwards (combine) and in reverse (split). Loading
+ * set recipes and prices is handled by the recipe service.
+ */
+
+/**
+ * Current prices of one set component
+ */
+export interface SetComponentPrice {
+  quantity: number;
+  high: number;
+  low: number;
+}
+
+/**
+ * Profit of both directions for one set
+ */
+export interface SetArbitrageResult {
+  combineProfit: number;
+  splitProfit: number;
+  action: SetArbitrageAction;
+  profit: number;
+  roi: number;
+}
+
+/**
+ * Calculates combine and split profit for one set after GE tax
+ *
+ * Both directions are evaluated with evaluateRecipe: combining buys the
+ * components at their low price and sells the set at its high price,
+ * splitting buys the set at its low price and sells the components at
+ * their high price. GE tax is charged per item sold.
+ *
+ * @param setHigh - Current sell price of the set
+ * @param setLow - Current buy price of the set
+ * @param components - Prices and quantities of the set's components
+ * @returns Profit of each direction and the better one
+ */
+export function calculateSetArbitrage(
+  setHigh: number,
+  setLow: number,
+  components: SetComponentPrice[]
+): SetArbitrageResult {
+  const combine = evaluateRecipe(
+    components.map(c => ({ quantity: c.quantity, price: c.low })),
+    [{ quantity: 1, price: setHigh }]
+  );
+  const split = evaluateRecipe(
+    [{ quantity: 1, price: setLow }],
+    components.map(c => ({ quantity: c.quantity, price: c.high }))
+  );
+
+  const action: SetArbitrageAction = combine.profit >= split.profit ? 'combine' : 'split';
+  const best = action === 'combine' ? combine : split;
+  return {
+    combineProfit: combine.profit,
+    splitProfit: split.profit,
+    action,
+    profit: best.profit,
+    roi: best.roi,
+  };
+}
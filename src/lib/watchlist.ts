@@ -0,0 +1,54 @@
+import { calculateMargin, calculateProfitAfterTax, calculateROI } from './calculations.js';
+
+/**
+ * Watchlist Library
+ *
+ * Pure calculations for watched items. Loading entries and prices is
+ * handled by the watchlist service.
+ */
+
+/**
+ * Live margin of a watched item and whether its targets are reached
+ */
+export interface WatchlistPriceStatus {
+  margin?: number;
+  profitAfterTax?: number;
+  roi?: number;
+  buyTargetReached: boolean;
+  sellTargetReached: boolean;
+}
+
+/**
+ * Evaluates the current prices of a watched item
+ *
+ * Unlike opportunities, watched items are evaluated even with a negative
+ * margin. A target is only reached when the matching price is known.
+ *
+ * @param high - Current sell price (optional)
+ * @param low - Current buy price (optional)
+ * @param targetBuy - Target buy price (optional)
+ * @param targetSell - Target sell price (optional)
+ * @returns Margin, after-tax profit and ROI per item, plus target status
+ */
+export function evaluateWatchlistPrices(
+  high: number | null | undefined,
+  low: number | null | undefined,
+  targetBuy?: number | null,
+  targetSell?: number | null
+): WatchlistPriceStatus {
+  const buyTargetReached = !!low && targetBuy != null && low <= targetBuy;
+  const sellTargetReached = !!high && targetSell != null && high >= targetSell;
+  if (!high || !low) {
+    return { buyTargetReached, sellTargetReached };
+  }
+
+  const margin = calculateMargin(high, low);
+  const profitAfterTax = calculateProfitAfterTax(margin, high, 1);
+  return {
+    margin,
+    profitAfterTax,
+    roi: calculateROI(profitAfterTax, low),
+    buyTargetReached,
+    sellTargetReached,
+  };
+}
@@ -2,6 +2,7 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import { apiRoutes } from './routes/api.js';
 import { PriceSyncJob } from './jobs/price-sync.js';
+import { RecipeService } from './services/recipe-service.js';
 import prisma from '../lib/database.js';
 
 /**
@@ -103,6 +104,7 @@ process.on('SIGTERM', async () => {
  * Handles the complete server initialization process including:
  * - Database connection establishment
  * - Initial data synchronization (if needed)
+ * - Loading item set definitions and built-in processing recipes
  * - Background job scheduling
  * - HTTP server startup
  * 
@@ -126,6 +128,9 @@ async function start() {
       await PriceSyncJob.runInitialSync();
     }
 
+    // Load built-in recipes and item sets; a broken file is logged but does not stop the server
+    await RecipeService.loadBuiltInRecipes().catch(() => undefined);
+
     // Start background job scheduler
     PriceSyncJob.start();
 
@@ -1,5 +1,11 @@
 import cron from 'node-cron';
 import { PriceService } from '../services/price-service.js';
+import { AlertService } from '../services/alert-service.js';
+import { LiveUpdateService } from '../services/live-update-service.js';
+import { RetentionService } from '../services/retention-service.js';
+import { BackfillService } from '../services/backfill-service.js';
+import { TRACKED_MARKETS } from '../services/market-data.js';
+import { resolveWikiApiMode } from '../services/wiki-fixtures.js';
 
 /**
  * Price Synchronization Job Manager
@@ -18,12 +24,29 @@ export class PriceSyncJob {
    */
   private static isRunning = false;
 
+  /**
+   * Flag to prevent concurrent backfill runs
+   */
+  private static isBackfilling = false;
+
+  /**
+   * Whether the price history backfill runs
+   * Replay mode only has /timeseries fixtures for a few items, so the
+   * backfill is skipped instead of failing a task for every other item.
+   */
+  private static readonly backfillEnabled = resolveWikiApiMode(process.env.WIKI_API_MODE) !== 'replay';
+
   /**
    * Starts all scheduled background jobs
    * 
    * This method sets up cron jobs for:
-   * - Price synchronization every 5 minutes
-   * - Item metadata synchronization every hour
+   * - Price and volume snapshot synchronization of every tracked market every 5 minutes,
+   *   followed by alert evaluation and a live update for /api/stream clients
+   * - Item metadata synchronization every hour, followed by queueing history
+   *   backfill tasks for new items and price retention (downsampling and
+   *   pruning of old price data)
+   * - A batch of the price history backfill queue every 5 minutes, offset
+   *   from the price sync (skipped in replay mode)
    * 
    * The scheduling ensures fresh data while being respectful of external APIs
    */
@@ -49,8 +72,19 @@ export class PriceSyncJob {
       this.isRunning = true;
       try {
         console.log('Starting scheduled price sync...');
-        await PriceService.syncPrices();
+        for (const market of TRACKED_MARKETS) {
+          await PriceService.syncPrices(market);
+          await PriceService.syncVolumes(market);
+        }
         console.log('Scheduled price sync completed successfully');
+
+        // Check alert rules against the freshly synced prices
+        await AlertService.evaluateRules();
+
+        // Notify live stream clients that new data is available
+        for (const market of TRACKED_MARKETS) {
+          await LiveUpdateService.publishSyncCompleted(market);
+        }
       } catch (error) {
         console.error('Scheduled price sync failed:', error);
       } finally {
@@ -71,16 +105,61 @@ export class PriceSyncJob {
       try {
         console.log('Starting scheduled item sync...');
         await PriceService.syncItems();
-        await PriceService.syncHistoricalPrices();
+        if (this.backfillEnabled) {
+          for (const market of TRACKED_MARKETS) {
+            await BackfillService.enqueue(market);
+          }
+        }
         console.log('Scheduled item sync completed successfully');
+
+        // Roll old raw prices up into hourly/daily aggregates
+        await RetentionService.run();
       } catch (error) {
         console.error('Scheduled item sync failed:', error);
       }
     });
 
+    /**
+     * Price History Backfill Job
+     *
+     * Works through the backfill queue in batches, continuing with the
+     * pending tasks after a restart.
+     *
+     * Cron pattern: '2-59/5 * * * *' = every 5 minutes, 2 minutes after the price sync
+     */
+    if (this.backfillEnabled) {
+      cron.schedule('2-59/5 * * * *', () => this.runBackfill());
+
+      // Queue items synced while the server was down or before the queue existed
+      for (const market of TRACKED_MARKETS) {
+        void BackfillService.enqueue(market);
+      }
+    } else {
+      console.log('Price history backfill disabled in replay mode');
+    }
+
     console.log('Price sync job scheduler started successfully');
   }
 
+  /**
+   * Processes one batch of the backfill queue of every tracked market
+   */
+  static async runBackfill(): Promise<void> {
+    if (this.isBackfilling) {
+      console.log('Backfill already running, skipping...');
+      return;
+    }
+
+    this.isBackfilling = true;
+    try {
+      for (const market of TRACKED_MARKETS) {
+        await BackfillService.run(market);
+      }
+    } finally {
+      this.isBackfilling = false;
+    }
+  }
+
   /**
    * Runs initial data synchronization on application startup
    * 
@@ -96,14 +175,17 @@ export class PriceSyncJob {
       // Sync items first (required for price data relationships)
       await PriceService.syncItems();
       
-      // Then sync current prices
-      await PriceService.syncPrices();
-
-      // Populate historical data if needed
-      await PriceService.syncHistoricalPrices();
+      for (const market of TRACKED_MARKETS) {
+        // Then sync current prices and volume snapshots
+        await PriceService.syncPrices(market);
+        await PriceService.syncVolumes(market);
 
-      // Preload recent price history into the Price table
-      await PriceService.preloadRecentPrices();
+        // Queue the history backfill and load the most traded items first
+        if (this.backfillEnabled) {
+          await BackfillService.enqueue(market);
+          await BackfillService.run(market);
+        }
+      }
 
       console.log('Initial data sync completed successfully');
     } catch (error) {
@@ -1,7 +1,432 @@
 import { FastifyInstance } from 'fastify';
-import { PriceService } from '../services/price-service.js';
-import { ApiResponse, PortfolioSuggestion, FlipOpportunity, ItemHistory } from '../../types/api.js';
-import { VOLATILITY_THRESHOLDS } from '../../lib/calculations.js';
+import { OutgoingHttpHeaders } from 'http';
+import { OpportunityFilters, PriceService } from '../services/price-service.js';
+import { TradeService, TradeLegInput } from '../services/trade-service.js';
+import { PerformanceService } from '../services/performance-service.js';
+import { BacktestDataError, BacktestService, MAX_BACKTEST_RUNS } from '../services/backtest-service.js';
+import { AccountService, MEMBERS_PROFILE, F2P_PROFILE } from '../services/account-service.js';
+import { AlertService, AlertRuleInput } from '../services/alert-service.js';
+import { listNotifierChannels } from '../services/notifiers.js';
+import { LiveUpdateService } from '../services/live-update-service.js';
+import { AlchemyService } from '../services/alchemy-service.js';
+import { RecipeService, RecipeInput } from '../services/recipe-service.js';
+import { WatchlistService, WatchlistInput } from '../services/watchlist-service.js';
+import { ItemService, ItemSearchFilters, MAX_PAGE_SIZE } from '../services/item-service.js';
+import { DEFAULT_MARKET, MARKETS, TRACKED_MARKETS } from '../services/market-data.js';
+import { BackfillService } from '../services/backfill-service.js';
+import {
+  ApiResponse,
+  PortfolioSuggestion,
+  FlipOpportunity,
+  ItemHistory,
+  Trade,
+  SuggestionPerformanceReport,
+  BacktestResult,
+  ScoringStrategy,
+  ScoringWeights,
+  AccountProfile,
+  AlertRule,
+  AlertEvent,
+  AlertType,
+  LiveUpdateEvent,
+  PriceAgeLimits,
+  AlchOpportunity,
+  SetArbitrage,
+  ProcessingRecipe,
+  ProcessingMargin,
+  WatchlistEntry,
+  ItemSearchResult,
+  BackfillProgress,
+  Market,
+} from '../../types/api.js';
+import {
+  VOLATILITY_THRESHOLDS,
+  DEFAULT_SCORING_STRATEGY,
+  getScoringStrategy,
+  listScoringStrategies,
+  normalizeScoringWeights,
+  GE_SLOTS,
+  DEFAULT_PRICE_AGE_LIMITS,
+} from '../../lib/calculations.js';
+import { ALERT_TYPES, THRESHOLD_ALERT_TYPES } from '../../lib/alerts.js';
+
+/**
+ * Interval between keep-alive comments on the live update stream
+ */
+const STREAM_KEEP_ALIVE_MS = 30000;
+
+/**
+ * Resolves the scoring weights requested through query parameters
+ *
+ * `weights` takes custom weights as "profit:0.4,volume:0.4,roi:0.2,stability:0,gpPerHour:0"
+ * and is used when `strategy` is "custom" or omitted. Otherwise `strategy`
+ * names a registered preset (default: balanced).
+ *
+ * @param strategy - Strategy name from the query string
+ * @param weights - Custom weights from the query string
+ * @returns Normalized weights, or an error message if the request is invalid
+ */
+function resolveScoringWeights(strategy?: string, weights?: string): ScoringWeights | string {
+  if (weights && (!strategy || strategy === 'custom')) {
+    const parsed: Partial<ScoringWeights> = {};
+    for (const pair of weights.split(',')) {
+      const [key, value] = pair.split(':');
+      const weight = parseFloat(value);
+      if (!['profit', 'volume', 'roi', 'stability', 'gpPerHour'].includes(key) || isNaN(weight)) {
+        return `Invalid scoring weight "${pair}"`;
+      }
+      parsed[key as keyof ScoringWeights] = weight;
+    }
+    return normalizeScoringWeights(parsed);
+  }
+
+  if (strategy === 'custom') {
+    return 'The custom strategy requires a weights parameter';
+  }
+
+  const preset = getScoringStrategy(strategy || DEFAULT_SCORING_STRATEGY);
+  if (!preset) {
+    return `Unknown scoring strategy "${strategy}"`;
+  }
+  return preset.weights;
+}
+
+/**
+ * Error message for an unknown `market` query parameter
+ */
+const INVALID_MARKET_MESSAGE = `market must be one of: ${MARKETS.join(', ')}`;
+
+/**
+ * Resolves the market requested through the `market` query parameter
+ *
+ * @param market - Market name from the query string
+ * @returns The market (default: DEFAULT_MARKET), or null if the name is unknown
+ */
+function resolveMarketQuery(market?: string): Market | null {
+  if (!market) return DEFAULT_MARKET;
+  return MARKETS.includes(market as Market) ? (market as Market) : null;
+}
+
+/**
+ * Query parameters that select the account profile for a request
+ */
+interface AccountQuery {
+  accountId?: string;
+  members?: string;
+  slots?: string;
+  market?: string;
+}
+
+/**
+ * Resolves the account profile requested through query parameters
+ *
+ * `accountId` loads a stored account, which must play on the requested
+ * market. Otherwise `members=false` selects the free-to-play profile
+ * (3 slots) and the default is a members account (8 slots). `slots`
+ * overrides the slot count, up to the maximum of the account type.
+ *
+ * @param query - Account-related query parameters
+ * @returns The account profile, or an error message if the request is invalid
+ */
+async function resolveAccountProfile(query: AccountQuery): Promise<AccountProfile | string> {
+  let profile: AccountProfile;
+
+  if (query.accountId) {
+    const accountId = parseInt(query.accountId);
+    const account = isNaN(accountId) ? null : await AccountService.getAccount(accountId);
+    if (!account) {
+      return `Account ${query.accountId} not found`;
+    }
+    const market = resolveMarketQuery(query.market);
+    if (market && account.market !== market) {
+      return `Account ${query.accountId} plays on ${account.market}, not ${market}`;
+    }
+    profile = account;
+  } else {
+    profile = query.members === 'false' ? F2P_PROFILE : MEMBERS_PROFILE;
+  }
+
+  if (query.slots) {
+    const slots = parseInt(query.slots);
+    const maxSlots = AccountService.defaultSlots(profile.members);
+    if (isNaN(slots) || slots < 1 || slots > maxSlots) {
+      return `slots must be between 1 and ${maxSlots}`;
+    }
+    profile = { ...profile, geSlots: slots };
+  }
+
+  return profile;
+}
+
+/**
+ * Resolves the per-side price age limits requested through query parameters
+ *
+ * `maxHighAge` and `maxLowAge` are in minutes; a missing side keeps its default.
+ *
+ * @param query - Price age query parameters
+ * @returns The limits, or an error message if the request is invalid
+ */
+function resolvePriceAgeLimits(query: {
+  maxHighAge?: string;
+  maxLowAge?: string;
+}): PriceAgeLimits | string {
+  const limits = { ...DEFAULT_PRICE_AGE_LIMITS };
+  for (const [param, key] of [
+    ['maxHighAge', 'maxHighAgeMinutes'],
+    ['maxLowAge', 'maxLowAgeMinutes'],
+  ] as const) {
+    const value = query[param];
+    if (value === undefined) continue;
+    const minutes = parseFloat(value);
+    if (isNaN(minutes) || minutes <= 0) {
+      return `${param} must be a positive number of minutes`;
+    }
+    limits[key] = minutes;
+  }
+  return limits;
+}
+
+/**
+ * Resolves item search filters from query parameters
+ *
+ * @param query - Item search query parameters
+ * @returns The filters, or an error message if the request is invalid
+ */
+function resolveItemSearchFilters(query: {
+  q?: string;
+  members?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  minBuyLimit?: string;
+  maxBuyLimit?: string;
+  page?: string;
+  pageSize?: string;
+  market?: string;
+}): ItemSearchFilters | string {
+  const market = resolveMarketQuery(query.market);
+  if (!market) {
+    return INVALID_MARKET_MESSAGE;
+  }
+  const filters: ItemSearchFilters = { query: query.q, market };
+
+  if (query.members !== undefined) {
+    if (query.members !== 'true' && query.members !== 'false') {
+      return 'members must be "true" or "false"';
+    }
+    filters.members = query.members === 'true';
+  }
+
+  for (const param of ['minPrice', 'maxPrice', 'minBuyLimit', 'maxBuyLimit'] as const) {
+    const value = query[param];
+    if (value === undefined) continue;
+    const number = parseFloat(value);
+    if (isNaN(number) || number < 0) {
+      return `${param} must be a non-negative number`;
+    }
+    filters[param] = number;
+  }
+
+  const page = parseInt(query.page || '1');
+  if (isNaN(page) || page < 1) {
+    return 'page must be a positive integer';
+  }
+  const pageSize = parseInt(query.pageSize || '25');
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return `pageSize must be between 1 and ${MAX_PAGE_SIZE}`;
+  }
+
+  return { ...filters, page, pageSize };
+}
+
+/**
+ * Request body shape for a trade leg
+ */
+interface TradeLegBody {
+  side?: string;
+  price?: number;
+  quantity?: number;
+  timestamp?: string | number;
+}
+
+/**
+ * Validates a trade leg request body
+ *
+ * @param body - Raw leg from the request body
+ * @returns Parsed leg input, or an error message if the leg is invalid
+ */
+function parseTradeLeg(body: TradeLegBody | undefined): TradeLegInput | string {
+  if (!body || (body.side !== 'buy' && body.side !== 'sell')) {
+    return 'Leg side must be "buy" or "sell"';
+  }
+  if (typeof body.price !== 'number' || !(body.price > 0)) {
+    return 'Leg price must be a positive number';
+  }
+  if (typeof body.quantity !== 'number' || !Number.isInteger(body.quantity) || body.quantity <= 0) {
+    return 'Leg quantity must be a positive integer';
+  }
+
+  let timestamp: Date | undefined;
+  if (body.timestamp !== undefined) {
+    timestamp = new Date(body.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      return 'Leg timestamp must be a valid date';
+    }
+  }
+
+  return { side: body.side, price: body.price, quantity: body.quantity, timestamp };
+}
+
+/**
+ * Request body shape for an alert rule
+ */
+interface AlertRuleBody {
+  itemId?: number;
+  type?: string;
+  threshold?: number;
+  channel?: string;
+  webhookUrl?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Validates an alert rule request body
+ *
+ * @param body - Raw rule from the request body
+ * @param partial - Whether fields may be omitted (for updates)
+ * @returns Parsed rule input, or an error message if the rule is invalid
+ */
+function parseAlertRule(
+  body: AlertRuleBody | undefined,
+  partial: boolean
+): Partial<AlertRuleInput> | string {
+  const { itemId, type, threshold, channel, webhookUrl, enabled } = body || {};
+
+  if (!partial && (typeof itemId !== 'number' || !Number.isInteger(itemId) || itemId <= 0)) {
+    return 'Invalid item ID';
+  }
+  if ((!partial || type !== undefined) && !ALERT_TYPES.includes(type as AlertType)) {
+    return `Alert type must be one of: ${ALERT_TYPES.join(', ')}`;
+  }
+  if (threshold !== undefined && (typeof threshold !== 'number' || !isFinite(threshold))) {
+    return 'Threshold must be a number';
+  }
+  if (!partial && THRESHOLD_ALERT_TYPES.includes(type as AlertType) && threshold === undefined) {
+    return `Alert type "${type}" requires a threshold`;
+  }
+  if (channel !== undefined && !listNotifierChannels().includes(channel)) {
+    return `Channel must be one of: ${listNotifierChannels().join(', ')}`;
+  }
+  if (channel === 'webhook' && !webhookUrl) {
+    return 'The webhook channel requires a webhookUrl';
+  }
+  if (webhookUrl !== undefined && !/^https?:\/\//.test(webhookUrl)) {
+    return 'webhookUrl must be an http(s) URL';
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  return {
+    itemId: partial ? undefined : itemId,
+    type: type as AlertType | undefined,
+    threshold,
+    channel,
+    webhookUrl,
+    enabled,
+  };
+}
+
+/**
+ * Request body shape for a processing recipe
+ */
+interface RecipeBody {
+  name?: string;
+  secondsPerAction?: number;
+  inputs?: { itemId?: number; quantity?: number }[];
+  outputs?: { itemId?: number; quantity?: number }[];
+}
+
+/**
+ * Validates a processing recipe request body
+ *
+ * @param body - Raw recipe from the request body
+ * @returns Parsed recipe input, or an error message if the recipe is invalid
+ */
+function parseRecipe(body: RecipeBody | undefined): RecipeInput | string {
+  const { name, secondsPerAction, inputs, outputs } = body || {};
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    return 'Recipe name is required';
+  }
+  if (secondsPerAction !== undefined && (typeof secondsPerAction !== 'number' || !(secondsPerAction > 0))) {
+    return 'secondsPerAction must be a positive number';
+  }
+
+  const parsed: Pick<RecipeInput, 'inputs' | 'outputs'> = { inputs: [], outputs: [] };
+  for (const [role, entries] of [['inputs', inputs], ['outputs', outputs]] as const) {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return `Recipe ${role} must be a non-empty array`;
+    }
+    for (const entry of entries) {
+      const { itemId, quantity = 1 } = entry || {};
+      if (typeof itemId !== 'number' || !Number.isInteger(itemId) || itemId <= 0) {
+        return `Invalid item ID in ${role}`;
+      }
+      if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity <= 0) {
+        return `Quantities in ${role} must be positive integers`;
+      }
+      if (parsed[role].some(existing => existing.itemId === itemId)) {
+        return `Item ${itemId} is listed more than once in ${role}`;
+      }
+      parsed[role].push({ itemId, quantity });
+    }
+  }
+
+  return { name: name.trim(), secondsPerAction, ...parsed };
+}
+
+/**
+ * Request body shape for a watchlist entry
+ */
+interface WatchlistBody {
+  itemId?: number;
+  note?: string | null;
+  targetBuy?: number | null;
+  targetSell?: number | null;
+}
+
+/**
+ * Validates a watchlist entry request body
+ *
+ * @param body - Raw entry from the request body
+ * @param partial - Whether the item ID may be omitted (for updates)
+ * @returns Parsed entry input, or an error message if the entry is invalid
+ */
+function parseWatchlistEntry(
+  body: WatchlistBody | undefined,
+  partial: boolean
+): Partial<WatchlistInput> | string {
+  const { itemId, note, targetBuy, targetSell } = body || {};
+
+  if (!partial && (typeof itemId !== 'number' || !Number.isInteger(itemId) || itemId <= 0)) {
+    return 'Invalid item ID';
+  }
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    return 'note must be a string';
+  }
+  for (const [field, value] of [['targetBuy', targetBuy], ['targetSell', targetSell]] as const) {
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !(value > 0))) {
+      return `${field} must be a positive number`;
+    }
+  }
+
+  return {
+    itemId: partial ? undefined : itemId,
+    note: typeof note === 'string' ? note.trim() || null : note,
+    targetBuy,
+    targetSell,
+  };
+}
 
 /**
  * API Routes Module
@@ -21,15 +446,40 @@ export async function apiRoutes(fastify: FastifyInstance) {
    * 
    * Generates optimized portfolio recommendations based on user's budget.
    * Now includes volume filtering, volatility checks, and composite scoring.
-   * Limited to 8 items maximum (GE slot limit).
+   * Limited to the account's GE slots (8 for members, 3 for F2P), selected by a
+   * knapsack optimizer.
    * 
    * Query Parameters:
    * - budget: Trading budget in GP (required)
+   * - strategy: Scoring strategy name (optional, default: balanced)
+   * - weights: Custom scoring weights, e.g. "profit:0.4,volume:0.4,roi:0.2" (optional)
+   * - optimizer: "knapsack" (default) or "greedy" selection
+   * - accountId: Stored account profile to build the portfolio for (optional)
+   * - members: "false" for a free-to-play profile with 3 GE slots (optional)
+   * - slots: Override the number of GE slots (optional)
+   * - includeStale, maxHighAge, maxLowAge: Stale price filtering, as for /api/opportunities
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
    * 
    * Returns: PortfolioSuggestion object with selected opportunities and metrics
    */
   fastify.get<{
-    Querystring: { budget: string; minVolume?: string; maxVolatility?: string; includeSpikes?: string; includeHighRisk?: string };
+    Querystring: {
+      budget: string;
+      minVolume?: string;
+      maxVolatility?: string;
+      includeSpikes?: string;
+      includeHighRisk?: string;
+      includeStale?: string;
+      maxHighAge?: string;
+      maxLowAge?: string;
+      strategy?: string;
+      weights?: string;
+      optimizer?: string;
+      accountId?: string;
+      members?: string;
+      slots?: string;
+      market?: string;
+    };
   }>('/api/portfolio', async (request, reply) => {
     try {
       // Parse and validate budget parameter
@@ -38,6 +488,7 @@ export async function apiRoutes(fastify: FastifyInstance) {
       const maxVolatility = request.query.maxVolatility ? parseFloat(request.query.maxVolatility) : VOLATILITY_THRESHOLDS.EXTREME;
       const includeSpikes = request.query.includeSpikes === 'true';
       const includeHighRisk = request.query.includeHighRisk === 'true';
+      const includeStale = request.query.includeStale === 'true';
       
       // Validate budget range (must be positive and within int32 limits)
       if (budget <= 0 || budget > 2147483647) {
@@ -48,13 +499,68 @@ export async function apiRoutes(fastify: FastifyInstance) {
         } as ApiResponse<null>);
       }
 
+      const scoringWeights = resolveScoringWeights(request.query.strategy, request.query.weights);
+      if (typeof scoringWeights === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: scoringWeights,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const optimizer = request.query.optimizer || 'knapsack';
+      if (optimizer !== 'knapsack' && optimizer !== 'greedy') {
+        return reply.status(400).send({
+          success: false,
+          error: 'Optimizer must be "knapsack" or "greedy"',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const priceAgeLimits = resolvePriceAgeLimits(request.query);
+      if (typeof priceAgeLimits === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: priceAgeLimits,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const account = await resolveAccountProfile(request.query);
+      if (typeof account === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: account,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
       // Generate enhanced portfolio recommendation
-      const portfolio = await PriceService.getPortfolioSuggestion(budget, {
+      const filters: OpportunityFilters = {
         minVolume,
         maxVolatility,
         includeSpikes,
         includeHighRisk,
-      });
+        includeStale,
+        priceAgeLimits,
+        scoringWeights,
+        optimizer,
+        account,
+        market,
+      };
+      const portfolio = await PriceService.getPortfolioSuggestion(budget, filters);
+
+      // Persist the suggestion so it can be checked against later prices
+      await PerformanceService.recordSuggestion(portfolio, filters);
       
       return reply.send({
         success: true,
@@ -80,6 +586,12 @@ export async function apiRoutes(fastify: FastifyInstance) {
    * Query Parameters:
    * - budget: Budget for opportunity calculation (optional, default: 100M)
    * - limit: Maximum number of opportunities to return (optional, default: 50)
+   * - strategy: Scoring strategy name (optional, default: balanced)
+   * - weights: Custom scoring weights, e.g. "profit:0.4,volume:0.4,roi:0.2" (optional)
+   * - accountId / members: Account profile; free-to-play excludes members items (optional)
+   * - includeStale: "true" to keep items whose last high/low trade is too old (optional)
+   * - maxHighAge / maxLowAge: Maximum minutes since the last trade per side (optional, default: 120)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
    * 
    * Returns: Array of FlipOpportunity objects
    */
@@ -91,6 +603,15 @@ export async function apiRoutes(fastify: FastifyInstance) {
       maxVolatility?: string;
       includeSpikes?: string;
       includeHighRisk?: string;
+      includeStale?: string;
+      maxHighAge?: string;
+      maxLowAge?: string;
+      strategy?: string;
+      weights?: string;
+      accountId?: string;
+      members?: string;
+      slots?: string;
+      market?: string;
     };
   }>('/api/opportunities', async (request, reply) => {
     try {
@@ -101,13 +622,55 @@ export async function apiRoutes(fastify: FastifyInstance) {
       const maxVolatility = request.query.maxVolatility ? parseFloat(request.query.maxVolatility) : VOLATILITY_THRESHOLDS.EXTREME;
       const includeSpikes = request.query.includeSpikes === 'true';
       const includeHighRisk = request.query.includeHighRisk === 'true';
+      const includeStale = request.query.includeStale === 'true';
+
+      const scoringWeights = resolveScoringWeights(request.query.strategy, request.query.weights);
+      if (typeof scoringWeights === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: scoringWeights,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
       
+      const priceAgeLimits = resolvePriceAgeLimits(request.query);
+      if (typeof priceAgeLimits === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: priceAgeLimits,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const account = await resolveAccountProfile(request.query);
+      if (typeof account === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: account,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
       // Get all opportunities with enhanced filtering and scoring
       const opportunities = await PriceService.getFlipOpportunities(budget, {
         minVolume,
         maxVolatility,
         includeSpikes,
         includeHighRisk,
+        includeStale,
+        priceAgeLimits,
+        scoringWeights,
+        account,
+        market,
       });
       const limitedOpportunities = opportunities.slice(0, limit);
       
@@ -127,76 +690,1923 @@ export async function apiRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * GET /api/history/:itemId
+   * GET /api/opportunities/alch
    * 
-   * Fetches historical price data for a specific item.
-   * Used for detailed analysis and charting in the frontend.
+   * Returns high-alchemy opportunities: items that can be bought at their
+   * low price and alched for more than the item plus a nature rune cost.
    * 
-   * Path Parameters:
-   * - itemId: The item ID to fetch history for
+   * Query Parameters:
+   * - budget: Budget for quantity calculation (optional, default: 100M)
+   * - limit: Maximum number of opportunities to return (optional, default: 50)
+   * - accountId / members: Account profile; free-to-play excludes members items (optional)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   * 
+   * Returns: Array of AlchOpportunity objects sorted by GP/hour
+   */
+  fastify.get<{
+    Querystring: {
+      budget?: string;
+      limit?: string;
+      accountId?: string;
+      members?: string;
+      market?: string;
+    };
+  }>('/api/opportunities/alch', async (request, reply) => {
+    try {
+      const budget = parseFloat(request.query.budget || '100000000');
+      const limit = parseInt(request.query.limit || '50');
+
+      if (isNaN(budget) || budget <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Budget must be a positive number',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const account = await resolveAccountProfile(request.query);
+      if (typeof account === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: account,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const opportunities = await AlchemyService.getAlchOpportunities(budget, account, market);
+
+      return reply.send({
+        success: true,
+        data: opportunities.slice(0, limit),
+        timestamp: new Date(),
+      } as ApiResponse<AlchOpportunity[]>);
+    } catch (error) {
+      console.error('Alch opportunities API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch alch opportunities',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/sets
+   * 
+   * Returns combine/split arbitrage for GE-exchangeable item sets, using the
+   * set recipes loaded from src/server/data/processing-recipes.json.
    * 
    * Query Parameters:
-   * - days: Number of days of history (optional, default: 7)
+   * - profitableOnly: "true" to only return sets with a positive profit (optional)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
    * 
-   * Returns: ItemHistory object with price data over time
+   * Returns: Array of SetArbitrage objects, most profitable first
    */
   fastify.get<{
-    Params: { itemId: string };
-    Querystring: { days?: string };
-  }>('/api/history/:itemId', async (request, reply) => {
+    Querystring: { profitableOnly?: string; market?: string };
+  }>('/api/sets', async (request, reply) => {
     try {
-      const itemId = parseInt(request.params.itemId);
-      const days = parseInt(request.query.days || '7');
-      
-      if (isNaN(itemId) || itemId <= 0) {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
         return reply.status(400).send({
           success: false,
-          error: 'Invalid item ID',
+          error: INVALID_MARKET_MESSAGE,
           timestamp: new Date(),
         } as ApiResponse<null>);
       }
 
-      const history = await PriceService.getItemHistory(itemId, days);
-      
+      const sets = await RecipeService.getSetArbitrage(market);
+      const data = request.query.profitableOnly === 'true' ? sets.filter(set => set.profit > 0) : sets;
+
       return reply.send({
         success: true,
-        data: history,
+        data,
         timestamp: new Date(),
-      } as ApiResponse<ItemHistory>);
+      } as ApiResponse<SetArbitrage[]>);
     } catch (error) {
-      console.error('History API error:', error);
+      console.error('Set arbitrage API error:', error);
       return reply.status(500).send({
         success: false,
-        error: 'Failed to fetch item history',
+        error: 'Failed to analyze item sets',
         timestamp: new Date(),
       } as ApiResponse<null>);
     }
   });
 
   /**
-   * POST /api/sync
+   * GET /api/recipes
    * 
-   * Manually triggers synchronization of item and price data from external APIs.
-   * Now also fetches volume data for enhanced analysis.
+   * Evaluates all processing recipes (built-in and custom) at current
+   * prices: inputs are bought at their low price and outputs sold at their
+   * high price after GE tax. Item sets are evaluated by GET /api/sets.
    * 
-   * Returns: Success message confirming sync completion
+   * Query Parameters:
+   * - profitableOnly: "true" to only return recipes with a positive profit (optional)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   * 
+   * Returns: Array of ProcessingMargin objects ranked by profit/hour
    */
-  fastify.post('/api/sync', async (request, reply) => {
+  fastify.get<{
+    Querystring: { profitableOnly?: string; market?: string };
+  }>('/api/recipes', async (request, reply) => {
     try {
-      // Synchronize both item metadata and current prices
-      await PriceService.syncItems();
-      await PriceService.syncPrices();
-      
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const margins = await RecipeService.getProcessingMargins(market);
+      const data = request.query.profitableOnly === 'true'
+        ? margins.filter(margin => margin.profit > 0)
+        : margins;
+
       return reply.send({
         success: true,
-        data: { message: 'Data sync completed successfully (including volume data)' },
+        data,
         timestamp: new Date(),
-      } as ApiResponse<{ message: string }>);
+      } as ApiResponse<ProcessingMargin[]>);
     } catch (error) {
-      console.error('Sync API error:', error);
+      console.error('Processing margins API error:', error);
       return reply.status(500).send({
         success: false,
-        error: 'Failed to sync data',
+        error: 'Failed to evaluate processing recipes',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/recipes/definitions
+   *
+   * Lists all recipes, including item sets (kind "set"), without prices.
+   *
+   * Returns: Array of ProcessingRecipe objects
+   */
+  fastify.get('/api/recipes/definitions', async (_request, reply) => {
+    try {
+      const recipes = await RecipeService.listRecipes();
+      return reply.send({
+        success: true,
+        data: recipes,
+        timestamp: new Date(),
+      } as ApiResponse<ProcessingRecipe[]>);
+    } catch (error) {
+      console.error('Recipes API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch processing recipes',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/recipes
+   *
+   * Adds a custom processing recipe.
+   *
+   * Body:
+   * - name: Unique recipe name (required)
+   * - secondsPerAction: Time for one action, including banking (optional)
+   * - inputs: Items consumed per action, as [{ itemId, quantity }] (required)
+   * - outputs: Items produced per action, as [{ itemId, quantity }] (required)
+   *
+   * Returns: The created ProcessingRecipe object
+   */
+  fastify.post<{ Body: RecipeBody }>('/api/recipes', async (request, reply) => {
+    try {
+      const input = parseRecipe(request.body);
+      if (typeof input === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: input,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const recipe = await RecipeService.createRecipe(input);
+      if (typeof recipe === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: recipe,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: recipe,
+        timestamp: new Date(),
+      } as ApiResponse<ProcessingRecipe>);
+    } catch (error) {
+      console.error('Create recipe API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to create processing recipe',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * DELETE /api/recipes/:id
+   *
+   * Deletes a custom processing recipe. Built-in recipes cannot be deleted.
+   *
+   * Path Parameters:
+   * - id: Recipe ID
+   *
+   * Returns: Confirmation message
+   */
+  fastify.delete<{ Params: { id: string } }>('/api/recipes/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid recipe ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const deleted = await RecipeService.deleteRecipe(id);
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Custom recipe not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Recipe deleted' },
+        timestamp: new Date(),
+      } as ApiResponse<{ message: string }>);
+    } catch (error) {
+      console.error('Delete recipe API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete processing recipe',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/strategies
+   *
+   * Lists the registered scoring strategies that can be passed as the
+   * `strategy` query parameter to /api/opportunities and /api/portfolio.
+   *
+   * Returns: Array of ScoringStrategy objects
+   */
+  fastify.get('/api/strategies', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: listScoringStrategies(),
+      timestamp: new Date(),
+    } as ApiResponse<ScoringStrategy[]>);
+  });
+
+  /**
+   * GET /api/items
+   * 
+   * Item browser: fuzzy name search over all items with filters and
+   * pagination. Matches tolerate missing punctuation, partial words and
+   * single typos, and are ordered by match quality.
+   * 
+   * Query Parameters:
+   * - q: Search text (optional; omitted lists all items by name)
+   * - members: "true" for members items only, "false" for free-to-play only (optional)
+   * - minPrice, maxPrice: Latest buy price range in GP (optional)
+   * - minBuyLimit, maxBuyLimit: GE buy limit range; unlimited items have a limit of 0 (optional)
+   * - page: 1-based page number (optional, default: 1)
+   * - pageSize: Items per page (optional, default: 25, max: 100)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   * 
+   * Returns: ItemSearchResult with one page of items and the total match count
+   */
+  fastify.get<{
+    Querystring: {
+      q?: string;
+      members?: string;
+      minPrice?: string;
+      maxPrice?: string;
+      minBuyLimit?: string;
+      maxBuyLimit?: string;
+      page?: string;
+      pageSize?: string;
+      market?: string;
+    };
+  }>('/api/items', async (request, reply) => {
+    try {
+      const filters = resolveItemSearchFilters(request.query);
+      if (typeof filters === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: filters,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const result = await ItemService.searchItems(filters);
+      return reply.send({
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      } as ApiResponse<ItemSearchResult>);
+    } catch (error) {
+      console.error('Item search API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to search items',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/history/:itemId
+   * 
+   * Fetches historical price data for a specific item.
+   * Used for detailed analysis and charting in the frontend.
+   * 
+   * Path Parameters:
+   * - itemId: The item ID to fetch history for
+   * 
+   * Query Parameters:
+   * - days: Number of days of history (optional, default: 7)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   * 
+   * Returns: ItemHistory object with price data over time
+   */
+  fastify.get<{
+    Params: { itemId: string };
+    Querystring: { days?: string; market?: string };
+  }>('/api/history/:itemId', async (request, reply) => {
+    try {
+      const itemId = parseInt(request.params.itemId);
+      const days = parseInt(request.query.days || '7');
+      
+      if (isNaN(itemId) || itemId <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid item ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const history = await PriceService.getItemHistory(itemId, days, market);
+      
+      return reply.send({
+        success: true,
+        data: history,
+        timestamp: new Date(),
+      } as ApiResponse<ItemHistory>);
+    } catch (error) {
+      console.error('History API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch item history',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/performance
+   *
+   * Compares persisted portfolio suggestions with the prices recorded after
+   * they were made. Reports buy/sell fill rates, hit rate and the average
+   * error between predicted and achievable profit after tax.
+   *
+   * Query Parameters:
+   * - days: Number of days of suggestions to evaluate (optional, default: 7)
+   * - horizonHours: Hours after each suggestion to observe prices (optional, default: 6)
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   *
+   * Returns: SuggestionPerformanceReport object
+   */
+  fastify.get<{
+    Querystring: { days?: string; horizonHours?: string; market?: string };
+  }>('/api/performance', async (request, reply) => {
+    try {
+      const days = parseFloat(request.query.days || '7');
+      const horizonHours = parseFloat(request.query.horizonHours || '6');
+
+      if (isNaN(days) || days <= 0 || isNaN(horizonHours) || horizonHours <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'days and horizonHours must be positive numbers',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const report = await PerformanceService.getReport(days, horizonHours, market);
+
+      return reply.send({
+        success: true,
+        data: report,
+        timestamp: new Date(),
+      } as ApiResponse<SuggestionPerformanceReport>);
+    } catch (error) {
+      console.error('Performance API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to build performance report',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/backtest
+   *
+   * Replays the opportunity scoring and portfolio pipeline against stored
+   * historical data as of one or more past timestamps, then simulates fills
+   * over the following hours to produce a cumulative P&L curve.
+   *
+   * Query Parameters:
+   * - asOf: First simulated "now" as an ISO date (required)
+   * - to: Last simulated "now" as an ISO date (optional, default: asOf)
+   * - stepHours: Hours between simulated runs (optional, default: 24)
+   * - horizonHours: Hours of fills to simulate after each run (optional, default: 24)
+   * - budget: Trading budget in GP for each run (optional, default: 10M)
+   * - minVolume, maxVolatility, includeSpikes, includeHighRisk, strategy, weights, optimizer,
+   *   accountId, members, slots, market: Same as /api/portfolio
+   *
+   * Returns: BacktestResult object
+   */
+  fastify.get<{
+    Querystring: {
+      asOf?: string;
+      to?: string;
+      stepHours?: string;
+      horizonHours?: string;
+      budget?: string;
+      minVolume?: string;
+      maxVolatility?: string;
+      includeSpikes?: string;
+      includeHighRisk?: string;
+      strategy?: string;
+      weights?: string;
+      optimizer?: string;
+      accountId?: string;
+      members?: string;
+      slots?: string;
+      market?: string;
+    };
+  }>('/api/backtest', async (request, reply) => {
+    try {
+      const from = new Date(request.query.asOf || '');
+      const to = request.query.to ? new Date(request.query.to) : from;
+      const stepHours = parseFloat(request.query.stepHours || '24');
+      const horizonHours = parseFloat(request.query.horizonHours || '24');
+      const budget = parseFloat(request.query.budget || '10000000');
+      const minVolume = request.query.minVolume ? parseInt(request.query.minVolume) : 0;
+      const maxVolatility = request.query.maxVolatility ? parseFloat(request.query.maxVolatility) : VOLATILITY_THRESHOLDS.EXTREME;
+      const includeSpikes = request.query.includeSpikes === 'true';
+      const includeHighRisk = request.query.includeHighRisk === 'true';
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+        return reply.status(400).send({
+          success: false,
+          error: 'asOf (and optional to) must be valid dates with to >= asOf',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      if (!(stepHours > 0) || !(horizonHours > 0) || budget <= 0 || budget > 2147483647) {
+        return reply.status(400).send({
+          success: false,
+          error: 'stepHours and horizonHours must be positive and budget between 1 and 2,147,483,647 GP',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const runs = Math.floor((to.getTime() - from.getTime()) / (stepHours * 60 * 60 * 1000)) + 1;
+      if (runs > MAX_BACKTEST_RUNS) {
+        return reply.status(400).send({
+          success: false,
+          error: `Backtest range needs ${runs} runs; increase stepHours (max ${MAX_BACKTEST_RUNS} runs)`,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const scoringWeights = resolveScoringWeights(request.query.strategy, request.query.weights);
+      if (typeof scoringWeights === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: scoringWeights,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const optimizer = request.query.optimizer || 'knapsack';
+      if (optimizer !== 'knapsack' && optimizer !== 'greedy') {
+        return reply.status(400).send({
+          success: false,
+          error: 'Optimizer must be "knapsack" or "greedy"',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const account = await resolveAccountProfile(request.query);
+      if (typeof account === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: account,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const result = await BacktestService.run({
+        from,
+        to,
+        stepHours,
+        horizonHours,
+        budget,
+        filters: {
+          minVolume,
+          maxVolatility,
+          includeSpikes,
+          includeHighRisk,
+          scoringWeights,
+          optimizer,
+          account,
+          market,
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      } as ApiResponse<BacktestResult>);
+    } catch (error) {
+      if (error instanceof BacktestDataError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      console.error('Backtest API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to run backtest',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/accounts
+   *
+   * Lists the stored account profiles (membership and GE slot count) of a market.
+   *
+   * Query Parameters:
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   *
+   * Returns: Array of AccountProfile objects
+   */
+  fastify.get<{
+    Querystring: { market?: string };
+  }>('/api/accounts', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const accounts = await AccountService.listAccounts(market);
+      return reply.send({
+        success: true,
+        data: accounts,
+        timestamp: new Date(),
+      } as ApiResponse<AccountProfile[]>);
+    } catch (error) {
+      console.error('Accounts API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch accounts',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/accounts
+   *
+   * Creates an account profile.
+   *
+   * Query Parameters:
+   * - market: Market the account plays on (optional, default: MARKET or osrs)
+   *
+   * Body:
+   * - name: Unique account name (required)
+   * - members: Whether the account has membership (optional, default: true)
+   * - geSlots: Number of GE slots (optional, default and maximum: 8 members / 3 F2P)
+   *
+   * Returns: The created AccountProfile object
+   */
+  fastify.post<{
+    Querystring: { market?: string };
+    Body: { name?: string; members?: boolean; geSlots?: number };
+  }>('/api/accounts', async (request, reply) => {
+    try {
+      const { name, members = true, geSlots } = request.body || {};
+      if (!name || typeof name !== 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: 'Account name is required',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      const maxSlots = AccountService.defaultSlots(members !== false);
+      if (geSlots !== undefined && (!Number.isInteger(geSlots) || geSlots < 1 || geSlots > maxSlots)) {
+        return reply.status(400).send({
+          success: false,
+          error: AccountService.slotLimitMessage(members !== false),
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const account = await AccountService.createAccount({ name, members: members !== false, geSlots, market });
+      if (typeof account === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: account,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: account,
+        timestamp: new Date(),
+      } as ApiResponse<AccountProfile>);
+    } catch (error) {
+      console.error('Create account API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to create account',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * PUT /api/accounts/:id
+   *
+   * Updates an account profile.
+   *
+   * Path Parameters:
+   * - id: Account ID
+   *
+   * Body:
+   * - name, members, geSlots: Fields to change (all optional)
+   *
+   * Returns: The updated AccountProfile object
+   */
+  fastify.put<{
+    Params: { id: string };
+    Body: { name?: string; members?: boolean; geSlots?: number };
+  }>('/api/accounts/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      const { name, members, geSlots } = request.body || {};
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid account ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      if (geSlots !== undefined && (!Number.isInteger(geSlots) || geSlots < 1 || geSlots > GE_SLOTS.MEMBERS)) {
+        return reply.status(400).send({
+          success: false,
+          error: `geSlots must be between 1 and ${GE_SLOTS.MEMBERS}`,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const account = await AccountService.updateAccount(id, { name, members, geSlots });
+      if (!account) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Account not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      if (typeof account === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: account,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: account,
+        timestamp: new Date(),
+      } as ApiResponse<AccountProfile>);
+    } catch (error) {
+      console.error('Update account API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to update account',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * DELETE /api/accounts/:id
+   *
+   * Deletes an account profile.
+   *
+   * Path Parameters:
+   * - id: Account ID
+   *
+   * Returns: Confirmation message
+   */
+  fastify.delete<{ Params: { id: string } }>('/api/accounts/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid account ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const deleted = await AccountService.deleteAccount(id);
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Account not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Account deleted' },
+        timestamp: new Date(),
+      } as ApiResponse<{ message: string }>);
+    } catch (error) {
+      console.error('Delete account API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete account',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/trades
+   *
+   * Lists the trades recorded on a market, most recent first.
+   * Each trade includes its legs and realized profit after GE tax.
+   *
+   * Query Parameters:
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   *
+   * Returns: Array of Trade objects
+   */
+  fastify.get<{
+    Querystring: { market?: string };
+  }>('/api/trades', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const trades = await TradeService.listTrades(market);
+      return reply.send({
+        success: true,
+        data: trades,
+        timestamp: new Date(),
+      } as ApiResponse<Trade[]>);
+    } catch (error) {
+      console.error('Trades API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch trades',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/trades/:id
+   *
+   * Fetches a single trade with its legs and realized profit.
+   *
+   * Path Parameters:
+   * - id: Trade ID
+   *
+   * Returns: Trade object
+   */
+  fastify.get<{ Params: { id: string } }>('/api/trades/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid trade ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const trade = await TradeService.getTrade(id);
+      if (!trade) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Trade not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: trade,
+        timestamp: new Date(),
+      } as ApiResponse<Trade>);
+    } catch (error) {
+      console.error('Trade API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch trade',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/trades
+   *
+   * Records a new trade in the journal.
+   *
+   * Query Parameters:
+   * - market: Market the trade was made on (optional, default: MARKET or osrs)
+   *
+   * Body:
+   * - itemId: Item that was traded (required)
+   * - accountId: Account the trade was made on; its buys count against that
+   *   account's buy limits (optional, default: trades without an account)
+   * - note: Free-text note (optional)
+   * - legs: Array of { side, price, quantity, timestamp? } fills (optional)
+   *
+   * Returns: The created Trade object
+   */
+  fastify.post<{
+    Querystring: { market?: string };
+    Body: { itemId?: number; accountId?: number; note?: string; legs?: TradeLegBody[] };
+  }>('/api/trades', async (request, reply) => {
+    try {
+      const { itemId, accountId, note, legs = [] } = request.body || {};
+      if (typeof itemId !== 'number' || !Number.isInteger(itemId) || itemId <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid item ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      if (accountId !== undefined) {
+        if (typeof accountId !== 'number' || !Number.isInteger(accountId) || accountId <= 0) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Invalid account ID',
+            timestamp: new Date(),
+          } as ApiResponse<null>);
+        }
+        const account = await AccountService.getAccount(accountId);
+        if (!account) {
+          return reply.status(404).send({
+            success: false,
+            error: `Account with ID ${accountId} not found`,
+            timestamp: new Date(),
+          } as ApiResponse<null>);
+        }
+        if (account.market !== market) {
+          return reply.status(400).send({
+            success: false,
+            error: `Account ${accountId} plays on ${account.market}, not ${market}`,
+            timestamp: new Date(),
+          } as ApiResponse<null>);
+        }
+      }
+
+      const parsedLegs: TradeLegInput[] = [];
+      for (const leg of legs) {
+        const parsed = parseTradeLeg(leg);
+        if (typeof parsed === 'string') {
+          return reply.status(400).send({
+            success: false,
+            error: parsed,
+            timestamp: new Date(),
+          } as ApiResponse<null>);
+        }
+        parsedLegs.push(parsed);
+      }
+
+      const trade = await TradeService.createTrade({ itemId, accountId, market, note, legs: parsedLegs });
+      if (!trade) {
+        return reply.status(404).send({
+          success: false,
+          error: `Item with ID ${itemId} not found`,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: trade,
+        timestamp: new Date(),
+      } as ApiResponse<Trade>);
+    } catch (error) {
+      console.error('Create trade API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to create trade',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * PUT /api/trades/:id
+   *
+   * Updates the note attached to a trade.
+   *
+   * Path Parameters:
+   * - id: Trade ID
+   *
+   * Body:
+   * - note: New note text (null clears it)
+   *
+   * Returns: The updated Trade object
+   */
+  fastify.put<{
+    Params: { id: string };
+    Body: { note?: string | null };
+  }>('/api/trades/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid trade ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const trade = await TradeService.updateTrade(id, request.body?.note ?? null);
+      if (!trade) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Trade not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: trade,
+        timestamp: new Date(),
+      } as ApiResponse<Trade>);
+    } catch (error) {
+      console.error('Update trade API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to update trade',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * DELETE /api/trades/:id
+   *
+   * Deletes a trade and all of its legs.
+   *
+   * Path Parameters:
+   * - id: Trade ID
+   *
+   * Returns: Confirmation message
+   */
+  fastify.delete<{ Params: { id: string } }>('/api/trades/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid trade ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const deleted = await TradeService.deleteTrade(id);
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Trade not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Trade deleted' },
+        timestamp: new Date(),
+      } as ApiResponse<{ message: string }>);
+    } catch (error) {
+      console.error('Delete trade API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete trade',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/trades/:id/legs
+   *
+   * Records an additional buy or sell fill against a trade.
+   *
+   * Path Parameters:
+   * - id: Trade ID
+   *
+   * Body:
+   * - side: "buy" or "sell"
+   * - price: Fill price per item in GP
+   * - quantity: Number of items filled
+   * - timestamp: When the offer completed (optional, default: now)
+   *
+   * Returns: The updated Trade object
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: TradeLegBody;
+  }>('/api/trades/:id/legs', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid trade ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const leg = parseTradeLeg(request.body);
+      if (typeof leg === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: leg,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const trade = await TradeService.addLeg(id, leg);
+      if (!trade) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Trade not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: trade,
+        timestamp: new Date(),
+      } as ApiResponse<Trade>);
+    } catch (error) {
+      console.error('Add trade leg API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to record trade leg',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * DELETE /api/trades/:id/legs/:legId
+   *
+   * Removes a single fill from a trade.
+   *
+   * Path Parameters:
+   * - id: Trade ID
+   * - legId: Leg ID
+   *
+   * Returns: The updated Trade object
+   */
+  fastify.delete<{
+    Params: { id: string; legId: string };
+  }>('/api/trades/:id/legs/:legId', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      const legId = parseInt(request.params.legId);
+      if (isNaN(id) || id <= 0 || isNaN(legId) || legId <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid trade or leg ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const trade = await TradeService.deleteLeg(id, legId);
+      if (!trade) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Trade leg not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: trade,
+        timestamp: new Date(),
+      } as ApiResponse<Trade>);
+    } catch (error) {
+      console.error('Delete trade leg API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete trade leg',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/alerts
+   *
+   * Lists the alert rules of a market.
+   *
+   * Query Parameters:
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   *
+   * Returns: Array of AlertRule objects
+   */
+  fastify.get<{
+    Querystring: { market?: string };
+  }>('/api/alerts', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const rules = await AlertService.listRules(market);
+      return reply.send({
+        success: true,
+        data: rules,
+        timestamp: new Date(),
+      } as ApiResponse<AlertRule[]>);
+    } catch (error) {
+      console.error('Alerts API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch alert rules',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/alerts
+   *
+   * Creates an alert rule. Rules are evaluated after every price sync and
+   * fire once each time their condition becomes true.
+   *
+   * Query Parameters:
+   * - market: Market whose prices the rule watches (optional, default: MARKET or osrs)
+   *
+   * Body:
+   * - itemId: Item to watch (required)
+   * - type: price_above, price_below, margin_above, roi_above, volume_drop or spike (required)
+   * - threshold: GP for price/margin, percent for roi/volume_drop (required except for spike)
+   * - channel: "feed" (default) or "webhook"
+   * - webhookUrl: URL to POST events to (required for the webhook channel)
+   * - enabled: Whether the rule is evaluated (optional, default: true)
+   *
+   * Returns: The created AlertRule object
+   */
+  fastify.post<{
+    Querystring: { market?: string };
+    Body: AlertRuleBody;
+  }>('/api/alerts', async (request, reply) => {
+    try {
+      const input = parseAlertRule(request.body, false);
+      if (typeof input === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: input,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const rule = await AlertService.createRule({ ...input, market } as AlertRuleInput);
+      if (!rule) {
+        return reply.status(404).send({
+          success: false,
+          error: `Item with ID ${input.itemId} not found`,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: rule,
+        timestamp: new Date(),
+      } as ApiResponse<AlertRule>);
+    } catch (error) {
+      console.error('Create alert API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to create alert rule',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * PUT /api/alerts/:id
+   *
+   * Updates an alert rule. Changing the type or threshold re-arms the rule.
+   * Switching to a type that needs a threshold requires one, either in the
+   * body or already stored on the rule.
+   *
+   * Path Parameters:
+   * - id: Alert rule ID
+   *
+   * Body:
+   * - type, threshold, channel, webhookUrl, enabled: Fields to change (all optional)
+   *
+   * Returns: The updated AlertRule object
+   */
+  fastify.put<{
+    Params: { id: string };
+    Body: AlertRuleBody;
+  }>('/api/alerts/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid alert rule ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const input = parseAlertRule(request.body, true);
+      if (typeof input === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: input,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const rule = await AlertService.updateRule(id, input);
+      if (!rule) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Alert rule not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+      if (typeof rule === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: rule,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: rule,
+        timestamp: new Date(),
+      } as ApiResponse<AlertRule>);
+    } catch (error) {
+      console.error('Update alert API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to update alert rule',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * DELETE /api/alerts/:id
+   *
+   * Deletes an alert rule and its fired events.
+   *
+   * Path Parameters:
+   * - id: Alert rule ID
+   *
+   * Returns: Confirmation message
+   */
+  fastify.delete<{ Params: { id: string } }>('/api/alerts/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid alert rule ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const deleted = await AlertService.deleteRule(id);
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Alert rule not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Alert rule deleted' },
+        timestamp: new Date(),
+      } as ApiResponse<{ message: string }>);
+    } catch (error) {
+      console.error('Delete alert API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete alert rule',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/alerts/events
+   *
+   * In-app alert feed: events fired by alert rules, newest first.
+   *
+   * Query Parameters:
+   * - limit: Maximum number of events (optional, default: 50, max: 200)
+   * - unread: "true" to only return unread events (optional)
+   * - market: Only return events of rules on this market (optional, default: MARKET or osrs)
+   *
+   * Returns: Array of AlertEvent objects
+   */
+  fastify.get<{
+    Querystring: { limit?: string; unread?: string; market?: string };
+  }>('/api/alerts/events', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const limit = Math.min(parseInt(request.query.limit || '50') || 50, 200);
+      const events = await AlertService.listEvents(limit, request.query.unread === 'true', market);
+      return reply.send({
+        success: true,
+        data: events,
+        timestamp: new Date(),
+      } as ApiResponse<AlertEvent[]>);
+    } catch (error) {
+      console.error('Alert events API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch alert events',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/alerts/events/read
+   *
+   * Marks alert feed events as read.
+   *
+   * Body:
+   * - ids: Event IDs to mark (optional, default: all unread events)
+   *
+   * Query Parameters:
+   * - market: Only mark events of rules on this market (optional, default: MARKET or osrs)
+   *
+   * Returns: Number of events marked as read
+   */
+  fastify.post<{
+    Body: { ids?: number[] };
+    Querystring: { market?: string };
+  }>('/api/alerts/events/read', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const { ids } = request.body || {};
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+        return reply.status(400).send({
+          success: false,
+          error: 'ids must be an array of event IDs',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const count = await AlertService.markEventsRead(ids, market);
+      return reply.send({
+        success: true,
+        data: { count },
+        timestamp: new Date(),
+      } as ApiResponse<{ count: number }>);
+    } catch (error) {
+      console.error('Mark alert events read API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to mark alert events read',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/watchlist
+   *
+   * Lists the watched items of a market with their live margin and ROI.
+   * Watched items are returned even when they fail the default opportunity
+   * filters.
+   *
+   * Query Parameters:
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   *
+   * Returns: Array of WatchlistEntry objects, ordered by item name
+   */
+  fastify.get<{
+    Querystring: { market?: string };
+  }>('/api/watchlist', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const entries = await WatchlistService.listEntries(market);
+      return reply.send({
+        success: true,
+        data: entries,
+        timestamp: new Date(),
+      } as ApiResponse<WatchlistEntry[]>);
+    } catch (error) {
+      console.error('Watchlist API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to fetch watchlist',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * POST /api/watchlist
+   *
+   * Adds an item to the watchlist of a market.
+   *
+   * Body:
+   * - itemId: Item to watch (required)
+   * - note: Free-form note (optional)
+   * - targetBuy: Target buy price (optional)
+   * - targetSell: Target sell price (optional)
+   *
+   * Query Parameters:
+   * - market: Market the entry belongs to (optional, default: MARKET or osrs)
+   *
+   * Returns: The created WatchlistEntry object
+   */
+  fastify.post<{
+    Body: WatchlistBody;
+    Querystring: { market?: string };
+  }>('/api/watchlist', async (request, reply) => {
+    try {
+      const input = parseWatchlistEntry(request.body, false);
+      if (typeof input === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: input,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      if (await WatchlistService.isWatched(input.itemId!, market)) {
+        return reply.status(400).send({
+          success: false,
+          error: `Item ${input.itemId} is already on the ${market} watchlist`,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const entry = await WatchlistService.addEntry(input as WatchlistInput, market);
+      if (!entry) {
+        return reply.status(404).send({
+          success: false,
+          error: `Item with ID ${input.itemId} not found`,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: entry,
+        timestamp: new Date(),
+      } as ApiResponse<WatchlistEntry>);
+    } catch (error) {
+      console.error('Add watchlist API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to add watchlist entry',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * PUT /api/watchlist/:id
+   *
+   * Updates the note or price targets of a watchlist entry.
+   *
+   * Path Parameters:
+   * - id: Watchlist entry ID
+   *
+   * Body:
+   * - note, targetBuy, targetSell: Fields to change; null clears a field (all optional)
+   *
+   * Query Parameters:
+   * - market: Market the entry belongs to; entries of other markets are not found
+   *   (optional, default: MARKET or osrs)
+   *
+   * Returns: The updated WatchlistEntry object
+   */
+  fastify.put<{
+    Params: { id: string };
+    Body: WatchlistBody;
+    Querystring: { market?: string };
+  }>('/api/watchlist/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid watchlist entry ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const input = parseWatchlistEntry(request.body, true);
+      if (typeof input === 'string') {
+        return reply.status(400).send({
+          success: false,
+          error: input,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const entry = await WatchlistService.updateEntry(id, input, market);
+      if (!entry) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Watchlist entry not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: entry,
+        timestamp: new Date(),
+      } as ApiResponse<WatchlistEntry>);
+    } catch (error) {
+      console.error('Update watchlist API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to update watchlist entry',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * DELETE /api/watchlist/:id
+   *
+   * Removes an item from the watchlist.
+   *
+   * Path Parameters:
+   * - id: Watchlist entry ID
+   *
+   * Returns: Confirmation message
+   */
+  fastify.delete<{ Params: { id: string } }>('/api/watchlist/:id', async (request, reply) => {
+    try {
+      const id = parseInt(request.params.id);
+      if (isNaN(id) || id <= 0) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid watchlist entry ID',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const deleted = await WatchlistService.deleteEntry(id);
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: 'Watchlist entry not found',
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      return reply.send({
+        success: true,
+        data: { message: 'Watchlist entry deleted' },
+        timestamp: new Date(),
+      } as ApiResponse<{ message: string }>);
+    } catch (error) {
+      console.error('Delete watchlist API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to delete watchlist entry',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/stream
+   *
+   * Server-Sent Events stream of live updates. Sends a `snapshot` event with
+   * all current opportunities of the selected market after connecting, then
+   * a `sync` event with the changed opportunities after every price sync
+   * cycle of that market and an `alert` event whenever an alert rule fires.
+   * Events published before the snapshot is sent are held back until it is.
+   * A comment line is sent periodically to keep idle connections open.
+   *
+   * Query Parameters:
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   *
+   * Returns: text/event-stream of LiveUpdateEvent objects
+   */
+  fastify.get<{
+    Querystring: { market?: string };
+  }>('/api/stream', (request, reply) => {
+    const market = resolveMarketQuery(request.query.market);
+    if (!market) {
+      return reply.status(400).send({
+        success: false,
+        error: INVALID_MARKET_MESSAGE,
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+
+    // Keep headers set by plugins (CORS) since the raw response is written directly
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    reply.hijack();
+
+    let closed = false;
+    let pending: LiveUpdateEvent[] | null = [];
+    const write = (event: LiveUpdateEvent) => {
+      if (closed) return;
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+    const send = (event: LiveUpdateEvent) => {
+      if (event.type === 'sync' && event.data.market !== market) return;
+      if (pending) pending.push(event);
+      else write(event);
+    };
+    reply.raw.write(`event: connected\ndata: ${JSON.stringify({ timestamp: new Date() })}\n\n`);
+
+    const unsubscribe = LiveUpdateService.subscribe(send);
+    const keepAlive = setInterval(() => reply.raw.write(': keep-alive\n\n'), STREAM_KEEP_ALIVE_MS);
+
+    LiveUpdateService.getSnapshot(market)
+      .then(snapshot => write({ type: 'snapshot', data: snapshot }))
+      .catch(error => console.error('Failed to send live update snapshot:', error))
+      .finally(() => {
+        const queued = pending || [];
+        pending = null;
+        queued.forEach(write);
+      });
+
+    request.raw.on('close', () => {
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  /**
+   * POST /api/sync
+   * 
+   * Manually triggers synchronization of item and price data from external APIs.
+   * Now also fetches volume data for enhanced analysis.
+   * 
+   * Query Parameters:
+   * - market: Market whose prices and volumes are synced (optional, default: MARKET or osrs)
+   * 
+   * Returns: Success message confirming sync completion
+   */
+  fastify.post<{
+    Querystring: { market?: string };
+  }>('/api/sync', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      // Synchronize both item metadata and current prices
+      await PriceService.syncItems();
+      await PriceService.syncPrices(market);
+      await PriceService.syncVolumes(market);
+      await AlertService.evaluateRules(market);
+      await LiveUpdateService.publishSyncCompleted(market);
+      
+      return reply.send({
+        success: true,
+        data: { message: 'Data sync completed successfully (including volume data)' },
+        timestamp: new Date(),
+      } as ApiResponse<{ message: string }>);
+    } catch (error) {
+      console.error('Sync API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to sync data',
+        timestamp: new Date(),
+      } as ApiResponse<null>);
+    }
+  });
+
+  /**
+   * GET /api/backfill
+   * 
+   * Reports the progress of the price history backfill queue, which fetches
+   * the /timeseries history of every item at 5m, 1h, 6h and 24h resolution.
+   * 
+   * Query Parameters:
+   * - market: "osrs", "dmm" or "fsw" (optional, default: MARKET or osrs)
+   * 
+   * Returns: BackfillProgress with pending, done and failed task counts
+   */
+  fastify.get<{
+    Querystring: { market?: string };
+  }>('/api/backfill', async (request, reply) => {
+    try {
+      const market = resolveMarketQuery(request.query.market);
+      if (!market) {
+        return reply.status(400).send({
+          success: false,
+          error: INVALID_MARKET_MESSAGE,
+          timestamp: new Date(),
+        } as ApiResponse<null>);
+      }
+
+      const progress = await BackfillService.getProgress(market);
+
+      return reply.send({
+        success: true,
+        data: progress,
+        timestamp: new Date(),
+      } as ApiResponse<BackfillProgress>);
+    } catch (error) {
+      console.error('Backfill progress API error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: 'Failed to load backfill progress',
         timestamp: new Date(),
       } as ApiResponse<null>);
     }
@@ -208,7 +2618,7 @@ export async function apiRoutes(fastify: FastifyInstance) {
    * Health check endpoint for monitoring application status.
    * Returns basic system information and confirms API availability.
    * 
-   * Returns: Health status object with uptime and timestamp
+   * Returns: Health status object with uptime, tracked markets and timestamp
    */
   fastify.get('/api/health', async (request, reply) => {
     return reply.send({
@@ -217,11 +2627,23 @@ export async function apiRoutes(fastify: FastifyInstance) {
         status: 'healthy',
         timestamp: new Date(),
         uptime: process.uptime(),
+        markets: TRACKED_MARKETS,
+        defaultMarket: DEFAULT_MARKET,
         features: [
           'Volume data integration',
           'Volatility filtering',
           'Price spike detection',
           'Composite scoring',
+          'Pluggable scoring strategies',
+          'Price alerts',
+          'Live update stream (SSE)',
+          'High alchemy opportunities',
+          'Item set arbitrage',
+          'Processing margins',
+          'Watchlist',
+          'Item search',
+          'Multiple markets (main game, Deadman Mode, Fresh Start Worlds)',
+          'Resumable price history backfill',
           'GE tax cap (5M)',
           'Unlimited buy limit support'
         ]
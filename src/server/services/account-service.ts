@@ -0,0 +1,201 @@
+import prisma from '../../lib/database.js';
+import { AccountProfile, Market } from '../../types/api.js';
+import { GE_SLOTS } from '../../lib/calculations.js';
+import { DEFAULT_MARKET } from './market-data.js';
+
+/**
+ * Default profile used when no account is specified
+ */
+export const MEMBERS_PROFILE: AccountProfile = {
+  name: 'Members',
+  members: true,
+  geSlots: GE_SLOTS.MEMBERS,
+};
+
+/**
+ * Profile for free-to-play accounts
+ */
+export const F2P_PROFILE: AccountProfile = {
+  name: 'Free-to-play',
+  members: false,
+  geSlots: GE_SLOTS.F2P,
+};
+
+/**
+ * Account fields returned as a profile
+ */
+const ACCOUNT_SELECT = { id: true, name: true, members: true, geSlots: true, market: true };
+
+/**
+ * Account Service
+ *
+ * Manages stored account profiles. A profile decides whether members-only
+ * items may be suggested and how many GE slots a portfolio can fill. Each
+ * stored account plays on one market.
+ */
+export class AccountService {
+  /**
+   * Lists the stored accounts of a market
+   *
+   * @param market - Market to list accounts for (default: DEFAULT_MARKET)
+   * @returns Array of account profiles ordered by name
+   */
+  static async listAccounts(market: Market = DEFAULT_MARKET): Promise<AccountProfile[]> {
+    try {
+      const records = await prisma.account.findMany({
+        where: { market },
+        select: ACCOUNT_SELECT,
+        orderBy: { name: 'asc' },
+      });
+      return records.map(record => this.toProfile(record));
+    } catch (error) {
+      console.error('Failed to list accounts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a stored account by ID
+   *
+   * @param id - Account ID
+   * @returns The account profile, or null if it does not exist
+   */
+  static async getAccount(id: number): Promise<AccountProfile | null> {
+    try {
+      const record = await prisma.account.findUnique({ where: { id }, select: ACCOUNT_SELECT });
+      return record ? this.toProfile(record) : null;
+    } catch (error) {
+      console.error(`Failed to get account ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a new account profile
+   *
+   * @param input - Name, membership, optional slot count and market
+   * @returns The created account profile, or an error message if the name
+   *          is already taken or the slot count exceeds the account type's
+   */
+  static async createAccount(input: {
+    name: string;
+    members: boolean;
+    geSlots?: number;
+    market?: Market;
+  }): Promise<AccountProfile | string> {
+    try {
+      if (input.geSlots !== undefined && input.geSlots > this.defaultSlots(input.members)) {
+        return this.slotLimitMessage(input.members);
+      }
+      if (await prisma.account.findUnique({ where: { name: input.name } })) {
+        return `An account named "${input.name}" already exists`;
+      }
+
+      const record = await prisma.account.create({
+        data: {
+          name: input.name,
+          members: input.members,
+          geSlots: input.geSlots ?? this.defaultSlots(input.members),
+          market: input.market ?? DEFAULT_MARKET,
+        },
+        select: ACCOUNT_SELECT,
+      });
+      return this.toProfile(record);
+    } catch (error) {
+      console.error('Failed to create account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates an existing account profile
+   *
+   * Switching an account to free-to-play reduces its slot count to the
+   * free-to-play maximum unless a new count is given.
+   *
+   * @param id - Account ID
+   * @param input - Fields to change
+   * @returns The updated account profile, null if it does not exist, or an
+   *          error message if the name is taken or the slot count too high
+   */
+  static async updateAccount(
+    id: number,
+    input: { name?: string; members?: boolean; geSlots?: number }
+  ): Promise<AccountProfile | null | string> {
+    try {
+      const existing = await prisma.account.findUnique({ where: { id } });
+      if (!existing) return null;
+
+      const members = input.members ?? existing.members;
+      const maxSlots = this.defaultSlots(members);
+      if (input.geSlots !== undefined && input.geSlots > maxSlots) {
+        return this.slotLimitMessage(members);
+      }
+      if (input.name !== undefined && input.name !== existing.name &&
+          await prisma.account.findUnique({ where: { name: input.name } })) {
+        return `An account named "${input.name}" already exists`;
+      }
+
+      const record = await prisma.account.update({
+        where: { id },
+        data: { ...input, geSlots: input.geSlots ?? Math.min(existing.geSlots, maxSlots) },
+        select: ACCOUNT_SELECT,
+      });
+      return this.toProfile(record);
+    } catch (error) {
+      console.error(`Failed to update account ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an account profile
+   *
+   * @param id - Account ID
+   * @returns Whether an account was deleted
+   */
+  static async deleteAccount(id: number): Promise<boolean> {
+    try {
+      const { count } = await prisma.account.deleteMany({ where: { id } });
+      return count > 0;
+    } catch (error) {
+      console.error(`Failed to delete account ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Default and maximum GE slot count for an account type
+   *
+   * @param members - Whether the account has membership
+   * @returns 8 slots for members, 3 for free-to-play
+   */
+  static defaultSlots(members: boolean): number {
+    return members ? GE_SLOTS.MEMBERS : GE_SLOTS.F2P;
+  }
+
+  /**
+   * Error message for a slot count above an account type's maximum
+   *
+   * @param members - Whether the account has membership
+   * @returns Message naming the allowed range
+   */
+  static slotLimitMessage(members: boolean): string {
+    return `geSlots must be between 1 and ${this.defaultSlots(members)} for ${
+      members ? 'members' : 'free-to-play'
+    } accounts`;
+  }
+
+  /**
+   * Converts a database record into the API profile shape
+   */
+  private static toProfile(record: {
+    id: number;
+    name: string;
+    members: boolean;
+    geSlots: number;
+    market: string;
+  }): AccountProfile {
+    return { ...record, market: record.market as Market };
+  }
+}
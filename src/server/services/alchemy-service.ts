@@ -0,0 +1,110 @@
+import prisma from '../../lib/database.js';
+import { AccountProfile, AlchOpportunity, Market } from '../../types/api.js';
+import { calculateBuyLimitUsage, calculatePriceAge, DEFAULT_PRICE_AGE_LIMITS } from '../../lib/calculations.js';
+import { evaluateAlch, NATURE_RUNE_ID } from '../../lib/alchemy.js';
+import { DEFAULT_MARKET } from './market-data.js';
+import { PriceService } from './price-service.js';
+import { TradeService } from './trade-service.js';
+
+/**
+ * Alchemy Service
+ *
+ * Finds high-alchemy arbitrage opportunities: items whose High Level
+ * Alchemy value exceeds their current buy price plus the live price of a
+ * nature rune. Opportunities respect the account's remaining buy limits
+ * and the number of casts possible per hour.
+ */
+export class AlchemyService {
+  /**
+   * Lists profitable high-alchemy opportunities
+   *
+   * Nature runes are priced at their latest instant-buy price (high), since
+   * that is what restocking them costs. Items without recent trades at the
+   * low price are skipped, as their buy price is unlikely to be available.
+   *
+   * @param budget - Available budget in GP
+   * @param account - Account profile; free-to-play skips members items (optional)
+   * @param market - Market to read prices from (default: DEFAULT_MARKET)
+   * @returns Opportunities sorted by GP/hour, best first
+   */
+  static async getAlchOpportunities(
+    budget: number,
+    account?: AccountProfile,
+    market: Market = DEFAULT_MARKET
+  ): Promise<AlchOpportunity[]> {
+    try {
+      const natureRune = await prisma.price.findFirst({
+        where: { itemId: NATURE_RUNE_ID, market },
+        orderBy: { timestamp: 'desc' },
+      });
+      const natureRunePrice = natureRune?.high || natureRune?.low;
+      if (!natureRunePrice) {
+        console.warn('No nature rune price stored yet, skipping alch opportunities');
+        return [];
+      }
+
+      const now = new Date();
+      const { volumes } = await PriceService.getVolumeSnapshot('24h', market);
+      const recentBuys = await TradeService.getRecentBuys(account?.id ?? null, now, market);
+
+      const items = await prisma.item.findMany({
+        where: {
+          highalch: { gt: 0 },
+          ...(account && !account.members ? { members: false } : {}),
+        },
+        include: {
+          prices: { where: { market }, orderBy: { timestamp: 'desc' }, take: 1 },
+        },
+      });
+
+      const opportunities: AlchOpportunity[] = [];
+      for (const item of items) {
+        const latest = item.prices[0];
+        const volume = volumes[item.id] || 0;
+        if (!latest?.low || !item.highalch || volume === 0) continue;
+
+        const { lowMinutes } = calculatePriceAge(latest.highTime, latest.lowTime, now);
+        if (lowMinutes !== null && lowMinutes > DEFAULT_PRICE_AGE_LIMITS.maxLowAgeMinutes) continue;
+
+        const buyLimitUsage = item.buyLimit > 0
+          ? calculateBuyLimitUsage(recentBuys.get(item.id) || [], item.buyLimit, now)
+          : null;
+
+        const evaluation = evaluateAlch(
+          budget,
+          latest.low,
+          item.highalch,
+          natureRunePrice,
+          item.buyLimit,
+          buyLimitUsage?.remaining
+        );
+        if (!evaluation) continue;
+
+        opportunities.push({
+          id: item.id,
+          name: item.name,
+          icon: item.icon || undefined,
+          buyPrice: latest.low,
+          highalch: item.highalch,
+          natureRunePrice,
+          profitPerCast: evaluation.profitPerCast,
+          roi: evaluation.roi,
+          quantity: evaluation.quantity,
+          totalCost: evaluation.quantity * (latest.low + natureRunePrice),
+          totalProfit: evaluation.quantity * evaluation.profitPerCast,
+          buyLimit: item.buyLimit,
+          remainingBuyLimit: buyLimitUsage?.remaining,
+          castHours: evaluation.castHours,
+          gpPerHour: evaluation.gpPerHour,
+          volume,
+          lastUpdated: latest.timestamp,
+        });
+      }
+
+      return opportunities.sort((a, b) => b.gpPerHour - a.gpPerHour);
+    } catch (error) {
+      console.error('Failed to get alch opportunities:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,391 @@
+import prisma from '../../lib/database.js';
+import { AlertEvent, AlertRule, AlertType, Market } from '../../types/api.js';
+import { THRESHOLD_ALERT_TYPES, evaluateAlertRule } from '../../lib/alerts.js';
+import { DEFAULT_MARKET } from './market-data.js';
+import { PriceService } from './price-service.js';
+import { getNotifier } from './notifiers.js';
+import { LiveUpdateService } from './live-update-service.js';
+
+/**
+ * Input shape for creating or updating an alert rule
+ */
+export interface AlertRuleInput {
+  itemId: number;
+  type: AlertType;
+  threshold?: number;
+  channel?: string;
+  webhookUrl?: string;
+  enabled?: boolean;
+  market?: Market;
+}
+
+/**
+ * Number of recent prices used for spike detection
+ */
+const RECENT_PRICE_COUNT = 10;
+
+/**
+ * Alert rule record as loaded from the database with its item name
+ */
+type AlertRuleRecord = {
+  id: number;
+  itemId: number;
+  type: string;
+  threshold: number | null;
+  channel: string;
+  webhookUrl: string | null;
+  enabled: boolean;
+  active: boolean;
+  market: string;
+  lastTriggeredAt: Date | null;
+  createdAt: Date;
+  item: { name: string };
+};
+
+/**
+ * Alert Service
+ *
+ * Stores user-defined alert rules and evaluates them after each price
+ * sync. A rule fires once when its condition becomes true: the event is
+ * stored for the in-app feed and handed to the rule's notifier. The rule
+ * re-arms when the condition stops holding, so a price that stays above a
+ * threshold does not fire on every sync. Each rule watches one market.
+ */
+export class AlertService {
+  /**
+   * Lists the alert rules of a market
+   *
+   * @param market - Market to list rules for (default: DEFAULT_MARKET)
+   * @returns Array of alert rules, newest first
+   */
+  static async listRules(market: Market = DEFAULT_MARKET): Promise<AlertRule[]> {
+    try {
+      const records = await prisma.alertRule.findMany({
+        where: { market },
+        include: { item: { select: { name: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+      return records.map(record => this.toRule(record));
+    } catch (error) {
+      console.error('Failed to list alert rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates an alert rule
+   *
+   * @param input - Item, condition type, threshold and delivery channel
+   * @returns The created rule, or null if the item does not exist
+   */
+  static async createRule(input: AlertRuleInput): Promise<AlertRule | null> {
+    try {
+      const item = await prisma.item.findUnique({ where: { id: input.itemId } });
+      if (!item) return null;
+
+      const record = await prisma.alertRule.create({
+        data: {
+          itemId: input.itemId,
+          type: input.type,
+          threshold: input.threshold,
+          channel: input.channel,
+          webhookUrl: input.webhookUrl,
+          enabled: input.enabled,
+          market: input.market ?? DEFAULT_MARKET,
+        },
+        include: { item: { select: { name: true } } },
+      });
+      return this.toRule(record);
+    } catch (error) {
+      console.error('Failed to create alert rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates an alert rule
+   *
+   * Changing the condition re-arms the rule so it can fire again. The
+   * changed fields are checked together with the stored ones, so a rule
+   * cannot be switched to a threshold type without a threshold.
+   *
+   * @param id - Rule ID
+   * @param input - Fields to change
+   * @returns The updated rule, null if it does not exist, or an error
+   *          message if the resulting rule is invalid
+   */
+  static async updateRule(id: number, input: Partial<AlertRuleInput>): Promise<AlertRule | null | string> {
+    try {
+      const existing = await prisma.alertRule.findUnique({ where: { id } });
+      if (!existing) return null;
+
+      const type = input.type ?? (existing.type as AlertType);
+      const threshold = input.threshold ?? existing.threshold;
+      if (THRESHOLD_ALERT_TYPES.includes(type) && threshold === null) {
+        return `Alert type "${type}" requires a threshold`;
+      }
+
+      const conditionChanged =
+        (input.type !== undefined && input.type !== existing.type) ||
+        (input.threshold !== undefined && input.threshold !== existing.threshold);
+
+      const record = await prisma.alertRule.update({
+        where: { id },
+        data: {
+          type: input.type,
+          threshold: input.threshold,
+          channel: input.channel,
+          webhookUrl: input.webhookUrl,
+          enabled: input.enabled,
+          ...(conditionChanged ? { active: false } : {}),
+        },
+        include: { item: { select: { name: true } } },
+      });
+      return this.toRule(record);
+    } catch (error) {
+      console.error(`Failed to update alert rule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an alert rule and its events
+   *
+   * @param id - Rule ID
+   * @returns Whether a rule was deleted
+   */
+  static async deleteRule(id: number): Promise<boolean> {
+    try {
+      const { count } = await prisma.alertRule.deleteMany({ where: { id } });
+      return count > 0;
+    } catch (error) {
+      console.error(`Failed to delete alert rule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists fired alert events for the in-app feed
+   *
+   * Events belong to the market of the rule that fired them.
+   *
+   * @param limit - Maximum number of events to return (default: 50)
+   * @param unreadOnly - Only return events that have not been read
+   * @param market - Market whose events to list (default: DEFAULT_MARKET)
+   * @returns Array of alert events, newest first
+   */
+  static async listEvents(
+    limit: number = 50,
+    unreadOnly: boolean = false,
+    market: Market = DEFAULT_MARKET
+  ): Promise<AlertEvent[]> {
+    try {
+      const records = await prisma.alertEvent.findMany({
+        where: { rule: { market }, ...(unreadOnly ? { read: false } : {}) },
+        include: { item: { select: { name: true } }, rule: { select: { type: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      return records.map(record => ({
+        id: record.id,
+        ruleId: record.ruleId,
+        itemId: record.itemId,
+        itemName: record.item.name,
+        type: record.rule.type as AlertType,
+        message: record.message,
+        value: record.value ?? undefined,
+        delivered: record.delivered,
+        read: record.read,
+        createdAt: record.createdAt,
+      }));
+    } catch (error) {
+      console.error('Failed to list alert events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks feed events as read
+   *
+   * @param ids - Event IDs to mark (all unread events when omitted)
+   * @param market - Only mark events of this market (default: DEFAULT_MARKET)
+   * @returns Number of events updated
+   */
+  static async markEventsRead(ids?: number[], market: Market = DEFAULT_MARKET): Promise<number> {
+    try {
+      const { count } = await prisma.alertEvent.updateMany({
+        where: { read: false, rule: { market }, ...(ids ? { id: { in: ids } } : {}) },
+        data: { read: true },
+      });
+      return count;
+    } catch (error) {
+      console.error('Failed to mark alert events read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluates enabled rules against the latest stored prices of their markets
+   *
+   * Called after every price sync. Each rule is evaluated on the prices and
+   * volumes of its own market. Failures are logged and swallowed so a
+   * broken rule or notifier never fails the sync itself.
+   *
+   * @param market - Only evaluate the rules of this market (default: all markets)
+   * @returns Events fired during this evaluation
+   */
+  static async evaluateRules(market?: Market): Promise<AlertEvent[]> {
+    const fired: AlertEvent[] = [];
+
+    try {
+      const records = await prisma.alertRule.findMany({
+        where: { enabled: true, ...(market ? { market } : {}) },
+        include: { item: { select: { name: true } } },
+      });
+
+      const markets = [...new Set(records.map(r => r.market as Market))];
+      for (const ruleMarket of markets) {
+        fired.push(...await this.evaluateMarketRules(
+          ruleMarket,
+          records.filter(r => r.market === ruleMarket)
+        ));
+      }
+
+      if (fired.length > 0) {
+        console.log(`Fired ${fired.length} price alerts`);
+      }
+    } catch (error) {
+      console.error('Failed to evaluate alert rules:', error);
+    }
+
+    return fired;
+  }
+
+  /**
+   * Evaluates the enabled rules of one market against its latest prices
+   */
+  private static async evaluateMarketRules(
+    market: Market,
+    records: AlertRuleRecord[]
+  ): Promise<AlertEvent[]> {
+    const fired: AlertEvent[] = [];
+
+    const itemIds = [...new Set(records.map(r => r.itemId))];
+    const items = await prisma.item.findMany({
+      where: { id: { in: itemIds } },
+      include: {
+        prices: { where: { market }, orderBy: { timestamp: 'desc' }, take: RECENT_PRICE_COUNT },
+      },
+    });
+    const itemsById = new Map(items.map(item => [item.id, item]));
+
+    // Volume comparisons need the live 24h volume and the one captured a day earlier
+    let volumes: Record<number, number> = {};
+    let previousVolumes: Record<number, number> = {};
+    if (records.some(r => r.type === 'volume_drop')) {
+      volumes = (await PriceService.getVolumeSnapshot('24h', market)).volumes;
+      previousVolumes = (await PriceService.getHistoricalVolumeData(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        market
+      )).volumes;
+    }
+
+    for (const record of records) {
+      const item = itemsById.get(record.itemId);
+      const latest = item?.prices[0];
+      if (!item || !latest?.high || !latest?.low) continue;
+
+      const evaluation = evaluateAlertRule(
+        { type: record.type as AlertType, threshold: record.threshold },
+        {
+          itemName: item.name,
+          high: latest.high,
+          low: latest.low,
+          recentHighs: item.prices.map(p => p.high || 0).filter(p => p > 0),
+          recentLows: item.prices.map(p => p.low || 0).filter(p => p > 0),
+          volume: volumes[item.id],
+          previousVolume: previousVolumes[item.id],
+        }
+      );
+
+      if (evaluation.triggered && !record.active) {
+        const event = await this.fire(record, evaluation.message, evaluation.value);
+        fired.push(event);
+      } else if (!evaluation.triggered && record.active) {
+        await prisma.alertRule.update({ where: { id: record.id }, data: { active: false } });
+      }
+    }
+
+    return fired;
+  }
+
+  /**
+   * Stores a fired event, marks the rule active and delivers the event
+   */
+  private static async fire(
+    record: AlertRuleRecord,
+    message: string,
+    value?: number
+  ): Promise<AlertEvent> {
+    const now = new Date();
+    const [stored] = await prisma.$transaction([
+      prisma.alertEvent.create({
+        data: { ruleId: record.id, itemId: record.itemId, message, value },
+      }),
+      prisma.alertRule.update({
+        where: { id: record.id },
+        data: { active: true, lastTriggeredAt: now },
+      }),
+    ]);
+
+    const rule = this.toRule({ ...record, active: true, lastTriggeredAt: now });
+    const event: AlertEvent = {
+      id: stored.id,
+      ruleId: record.id,
+      itemId: record.itemId,
+      itemName: record.item.name,
+      type: rule.type,
+      message,
+      value,
+      delivered: false,
+      read: false,
+      createdAt: stored.createdAt,
+    };
+
+    const notifier = getNotifier(record.channel);
+    try {
+      if (!notifier) {
+        throw new Error(`No notifier registered for channel "${record.channel}"`);
+      }
+      await notifier.deliver(event, rule);
+      event.delivered = true;
+      await prisma.alertEvent.update({ where: { id: stored.id }, data: { delivered: true } });
+    } catch (error) {
+      console.error(`Failed to deliver alert ${stored.id} via ${record.channel}:`, error);
+    }
+
+    LiveUpdateService.publish({ type: 'alert', data: event });
+
+    return event;
+  }
+
+  /**
+   * Converts a database record into the API rule shape
+   */
+  private static toRule(record: AlertRuleRecord): AlertRule {
+    return {
+      id: record.id,
+      itemId: record.itemId,
+      itemName: record.item.name,
+      type: record.type as AlertType,
+      threshold: record.threshold ?? undefined,
+      channel: record.channel,
+      webhookUrl: record.webhookUrl || undefined,
+      enabled: record.enabled,
+      active: record.active,
+      market: record.market as Market,
+      lastTriggeredAt: record.lastTriggeredAt || undefined,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,292 @@
+import prisma from '../../lib/database.js';
+import { BackfillProgress, BackfillStatus, Market, OSRS1hPriceEntry } from '../../types/api.js';
+import { DEFAULT_MARKET, TimeseriesStep, getMarketDataProvider } from './market-data.js';
+import { INGESTION_BATCH_SIZE, PriceService, chunk } from './price-service.js';
+import { WikiApiError } from './wiki-client.js';
+
+/**
+ * /timeseries resolutions backfilled for every item
+ */
+export const BACKFILL_RESOLUTIONS: TimeseriesStep[] = ['5m', '1h', '6h', '24h'];
+
+/**
+ * PriceHistory resolution that the points of each step are stored as
+ * 5m points are raw samples and go to the Price table instead.
+ */
+const HISTORY_RESOLUTIONS: Record<Exclude<TimeseriesStep, '5m'>, string> = {
+  '1h': '1h',
+  '6h': '6h',
+  '24h': '1d',
+};
+
+/**
+ * Attempts made for a task that keeps failing with retryable errors
+ * (after the Wiki client's own retries) before it is marked failed
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Result of a backfill run
+ */
+export interface BackfillRunResult {
+  processed: number;  // Tasks attempted
+  completed: number;  // Tasks stored and marked done
+  failed: number;     // Tasks marked failed
+  remaining: number;  // Pending tasks left for later runs
+}
+
+/**
+ * Task fields needed to fetch and store one item's history
+ */
+type BackfillTaskRecord = {
+  id: number;
+  itemId: number;
+  market: string;
+  resolution: string;
+  attempts: number;
+};
+
+/**
+ * Backfill Service
+ *
+ * Fills the price tables with the /timeseries history of every item at
+ * 5m, 1h, 6h and 24h resolution. Each item and resolution is a
+ * BackfillTask row, so progress survives restarts: every run continues
+ * with the pending tasks, most traded items first. 5m points are stored
+ * as raw Price rows; the other steps as 1h, 6h and 1d PriceHistory rows.
+ * Points that are already stored are skipped, so a task can safely be
+ * repeated.
+ */
+export class BackfillService {
+  /**
+   * Number of tasks processed per run, from BACKFILL_BATCH_SIZE (default: 200)
+   */
+  static getBatchSize(): number {
+    const value = Number(process.env.BACKFILL_BATCH_SIZE);
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : 200;
+  }
+
+  /**
+   * Queues a task for every item and resolution that has none yet
+   *
+   * Items are queued by descending 24h volume, so popular items get their
+   * history first. Items added by a later item sync are queued after the
+   * existing tasks.
+   *
+   * @param market - Market to queue tasks for (default: DEFAULT_MARKET)
+   * @returns Number of tasks queued
+   */
+  static async enqueue(market: Market = DEFAULT_MARKET): Promise<number> {
+    try {
+      const items = await prisma.item.findMany({ select: { id: true }, orderBy: { id: 'asc' } });
+      const queued = await prisma.backfillTask.findMany({
+        where: { market },
+        select: { itemId: true, resolution: true },
+      });
+      const queuedKeys = new Set(queued.map(task => `${task.itemId}:${task.resolution}`));
+
+      const { volumes } = await PriceService.getVolumeSnapshot('24h', market);
+      const rows = items
+        .map(item => item.id)
+        .sort((a, b) => (volumes[b] || 0) - (volumes[a] || 0))
+        .flatMap(itemId =>
+          BACKFILL_RESOLUTIONS
+            .filter(resolution => !queuedKeys.has(`${itemId}:${resolution}`))
+            .map(resolution => ({ itemId, market, resolution }))
+        );
+
+      await prisma.$transaction(
+        chunk(rows, INGESTION_BATCH_SIZE).map(batch => prisma.backfillTask.createMany({ data: batch }))
+      );
+
+      if (rows.length > 0) {
+        console.log(`Queued ${rows.length} ${market} backfill tasks`);
+      }
+      return rows.length;
+    } catch (error) {
+      console.error(`Failed to queue ${market} backfill tasks:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Fetches and stores the history of the next pending tasks
+   *
+   * A failing task never stops the rest of the batch. Its attempt and
+   * error are recorded, and it stays pending (behind the tasks that have
+   * not been tried yet) until it has been attempted MAX_ATTEMPTS times.
+   * Permanent Wiki API errors (for example an unknown item) mark it
+   * failed right away.
+   *
+   * @param market - Market to backfill (default: DEFAULT_MARKET)
+   * @param limit - Maximum number of tasks to process (default: getBatchSize())
+   * @returns Number of tasks processed, completed, failed and remaining
+   */
+  static async run(
+    market: Market = DEFAULT_MARKET,
+    limit: number = this.getBatchSize()
+  ): Promise<BackfillRunResult> {
+    const result: BackfillRunResult = { processed: 0, completed: 0, failed: 0, remaining: 0 };
+
+    try {
+      const tasks = await prisma.backfillTask.findMany({
+        where: { market, status: 'pending' },
+        orderBy: [{ attempts: 'asc' }, { id: 'asc' }],
+        take: limit,
+      });
+
+      for (const task of tasks) {
+        result.processed++;
+
+        try {
+          // Requests are paced by the Wiki client's rate limiter
+          const entries: OSRS1hPriceEntry[] = await getMarketDataProvider(market).fetchTimeseries(
+            task.itemId,
+            task.resolution as TimeseriesStep
+          );
+          if (!Array.isArray(entries)) {
+            throw new Error(`Unexpected /timeseries response for item ${task.itemId}`);
+          }
+
+          await this.store(task, entries);
+          result.completed++;
+        } catch (error) {
+          // One item failing should not stop the rest of the queue
+          const attempts = task.attempts + 1;
+          const permanent = error instanceof WikiApiError && !error.retryable;
+          const status: BackfillStatus = permanent || attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+          await prisma.backfillTask.update({
+            where: { id: task.id },
+            data: {
+              attempts,
+              status,
+              lastError: error instanceof Error ? error.message : String(error),
+            },
+          });
+          if (status === 'failed') result.failed++;
+        }
+      }
+
+      result.remaining = await prisma.backfillTask.count({ where: { market, status: 'pending' } });
+      if (result.processed > 0) {
+        console.log(
+          `Backfill ${market}: ${result.completed} of ${result.processed} tasks completed, ` +
+          `${result.failed} failed, ${result.remaining} remaining`
+        );
+      }
+    } catch (error) {
+      console.error(`Backfill run for ${market} failed:`, error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reports the queue progress of a market per resolution
+   *
+   * @param market - Market to report (default: DEFAULT_MARKET)
+   * @returns Task counts by status, in total and per resolution
+   */
+  static async getProgress(market: Market = DEFAULT_MARKET): Promise<BackfillProgress> {
+    const groups = await prisma.backfillTask.groupBy({
+      by: ['resolution', 'status'],
+      where: { market },
+      _count: { _all: true },
+    });
+
+    const count = (status: BackfillStatus, resolution?: string) =>
+      groups
+        .filter(group => group.status === status && (!resolution || group.resolution === resolution))
+        .reduce((sum, group) => sum + group._count._all, 0);
+
+    const pending = count('pending');
+    const done = count('done');
+    const failed = count('failed');
+    return {
+      market,
+      total: pending + done + failed,
+      pending,
+      done,
+      failed,
+      resolutions: BACKFILL_RESOLUTIONS.map(resolution => ({
+        resolution,
+        pending: count('pending', resolution),
+        done: count('done', resolution),
+        failed: count('failed', resolution),
+      })),
+    };
+  }
+
+  /**
+   * Stores a task's points that are not stored yet and marks it done
+   *
+   * The rows and the task update are written in one transaction, so an
+   * interrupted run leaves the task pending without partial data.
+   */
+  private static async store(task: BackfillTaskRecord, entries: OSRS1hPriceEntry[]): Promise<void> {
+    const { itemId, market } = task;
+    const markDone = prisma.backfillTask.update({
+      where: { id: task.id },
+      data: { status: 'done', attempts: task.attempts + 1, lastError: null, completedAt: new Date() },
+    });
+    const timestamps = entries.map(entry => entry.timestamp * 1000);
+    const range = { gte: new Date(Math.min(...timestamps)), lte: new Date(Math.max(...timestamps)) };
+
+    if (task.resolution === '5m') {
+      const existing = entries.length > 0
+        ? await prisma.price.findMany({
+            where: { itemId, market, timestamp: range },
+            select: { timestamp: true },
+          })
+        : [];
+      const stored = new Set(existing.map(price => price.timestamp.getTime()));
+
+      // Intervals without trades on either side carry no price
+      const rows = entries
+        .filter(entry => entry.avgHighPrice != null || entry.avgLowPrice != null)
+        .filter(entry => !stored.has(entry.timestamp * 1000))
+        .map(entry => ({
+          itemId,
+          high: entry.avgHighPrice ?? null,
+          low: entry.avgLowPrice ?? null,
+          volume: (entry.highPriceVolume || 0) + (entry.lowPriceVolume || 0),
+          market,
+          timestamp: new Date(entry.timestamp * 1000),
+        }));
+
+      await prisma.$transaction([
+        ...chunk(rows, INGESTION_BATCH_SIZE).map(batch => prisma.price.createMany({ data: batch })),
+        markDone,
+      ]);
+      return;
+    }
+
+    const resolution = HISTORY_RESOLUTIONS[task.resolution as keyof typeof HISTORY_RESOLUTIONS];
+    const existing = entries.length > 0
+      ? await prisma.priceHistory.findMany({
+          where: { itemId, market, resolution, date: range },
+          select: { date: true },
+        })
+      : [];
+    const stored = new Set(existing.map(history => history.date.getTime()));
+
+    // Buckets without trades on a side have no average price and cannot be stored
+    const rows = entries
+      .filter(entry => entry.avgHighPrice != null && entry.avgLowPrice != null)
+      .filter(entry => !stored.has(entry.timestamp * 1000))
+      .map(entry => ({
+        itemId,
+        resolution,
+        avgHigh: entry.avgHighPrice!,
+        avgLow: entry.avgLowPrice!,
+        volume: (entry.highPriceVolume || 0) + (entry.lowPriceVolume || 0),
+        market,
+        date: new Date(entry.timestamp * 1000),
+      }));
+
+    await prisma.$transaction([
+      ...chunk(rows, INGESTION_BATCH_SIZE).map(batch => prisma.priceHistory.createMany({ data: batch })),
+      markDone,
+    ]);
+  }
+}
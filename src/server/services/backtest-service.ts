@@ -0,0 +1,178 @@
+import prisma from '../../lib/database.js';
+import { PriceService, OpportunityFilters } from './price-service.js';
+import { DEFAULT_MARKET } from './market-data.js';
+import { BacktestPoint, BacktestResult, BacktestTrade, Market } from '../../types/api.js';
+import { evaluateFlipOutcome } from '../../lib/calculations.js';
+
+/**
+ * Maximum number of simulated runs in a single backtest
+ * Each run rebuilds the full opportunity list, so this keeps requests bounded
+ */
+export const MAX_BACKTEST_RUNS = 168;
+
+/**
+ * A simulated run has no stored data to evaluate opportunities with
+ */
+export class BacktestDataError extends Error {
+  constructor(message: string, readonly runAt: Date) {
+    super(message);
+    this.name = 'BacktestDataError';
+  }
+}
+
+/**
+ * Options for a backtest
+ */
+export interface BacktestOptions {
+  from: Date;                  // First simulated "now"
+  to?: Date;                   // Last simulated "now" (default: same as from)
+  stepHours?: number;          // Hours between runs (default: 24)
+  horizonHours?: number;       // Hours of fills to simulate after each run (default: 24)
+  budget: number;              // Budget for each run in GP
+  filters?: Omit<OpportunityFilters, 'asOf'>;
+}
+
+/**
+ * Backtest Service
+ *
+ * Replays the opportunity scoring pipeline against historical Price and
+ * PriceHistory data. For every simulated "now", the regular
+ * getFlipOpportunities/getPortfolioSuggestion path runs with a fixed
+ * `asOf` time, so the same volume, anomaly, profitability and scoring
+ * filters apply. Each suggested flip is then filled against the prices
+ * recorded over the following horizon to produce a cumulative P&L curve.
+ *
+ * Runs are independent: each starts with the full budget, and positions
+ * from one run do not reduce the budget of the next.
+ */
+export class BacktestService {
+  /**
+   * Runs a backtest over one or more past points in time
+   *
+   * @param options - Time range, step, horizon, budget and filters
+   * @returns Simulated trades, cumulative P&L curve and summary metrics
+   * @throws BacktestDataError if no 24h volume history covers a run
+   * @throws Error if the time range is invalid or the backtest fails
+   */
+  static async run(options: BacktestOptions): Promise<BacktestResult> {
+    const { from, budget, filters = {} } = options;
+    const market = filters.market ?? DEFAULT_MARKET;
+    const to = options.to || from;
+    const stepHours = options.stepHours ?? 24;
+    const horizonHours = options.horizonHours ?? 24;
+
+    if (to.getTime() < from.getTime()) {
+      throw new Error('Backtest end must not be before its start');
+    }
+
+    const stepMs = stepHours * 60 * 60 * 1000;
+    const horizonMs = horizonHours * 60 * 60 * 1000;
+    const runCount = Math.floor((to.getTime() - from.getTime()) / stepMs) + 1;
+    if (runCount > MAX_BACKTEST_RUNS) {
+      throw new Error(`Backtest would need ${runCount} runs (max ${MAX_BACKTEST_RUNS})`);
+    }
+
+    try {
+      const trades: BacktestTrade[] = [];
+
+      for (let run = 0; run < runCount; run++) {
+        const runAt = new Date(from.getTime() + run * stepMs);
+        const horizonEnd = new Date(runAt.getTime() + horizonMs);
+
+        // Without volumes every item fails the liquidity filter, which
+        // would look like a run without opportunities
+        const { capturedAt } = await PriceService.getHistoricalVolumeData(runAt, market);
+        if (!capturedAt) {
+          throw new BacktestDataError(`No volume data for this window (${runAt.toISOString()})`, runAt);
+        }
+
+        const portfolio = await PriceService.getPortfolioSuggestion(budget, {
+          ...filters,
+          asOf: runAt,
+        });
+
+        for (const opp of portfolio.opportunities) {
+          const laterPrices = await this.getPricesBetween(opp.id, market, runAt, horizonEnd);
+          const outcome = evaluateFlipOutcome(
+            {
+              buyPrice: opp.currentLow,
+              sellPrice: opp.currentHigh,
+              quantity: opp.quantity,
+              profitAfterTax: opp.profitAfterTax,
+            },
+            laterPrices
+          );
+
+          trades.push({
+            runAt,
+            closedAt: outcome.sellFilledAt || horizonEnd,
+            itemId: opp.id,
+            itemName: opp.name,
+            buyPrice: opp.currentLow,
+            sellPrice: opp.currentHigh,
+            quantity: opp.quantity,
+            predictedProfit: opp.profitAfterTax,
+            ...outcome,
+          });
+        }
+      }
+
+      trades.sort((a, b) => a.closedAt.getTime() - b.closedAt.getTime());
+
+      let cumulativeProfit = 0;
+      const equityCurve: BacktestPoint[] = trades.map(trade => {
+        cumulativeProfit += trade.actualProfitAfterTax;
+        return {
+          timestamp: trade.closedAt,
+          profit: trade.actualProfitAfterTax,
+          cumulativeProfit,
+        };
+      });
+
+      const hits = trades.filter(t => t.hit).length;
+
+      return {
+        from,
+        to,
+        stepHours,
+        horizonHours,
+        budget,
+        runs: runCount,
+        trades,
+        equityCurve,
+        totalPredictedProfit: trades.reduce((sum, t) => sum + t.predictedProfit, 0),
+        totalActualProfit: cumulativeProfit,
+        hitRate: trades.length > 0 ? (hits / trades.length) * 100 : 0,
+      };
+    } catch (error) {
+      console.error('Backtest failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads raw and aggregated price observations for an item in a time window
+   *
+   * Raw Price rows are preferred; PriceHistory rows fill in the window when
+   * raw data has not been recorded for that period.
+   */
+  private static async getPricesBetween(
+    itemId: number,
+    market: Market,
+    start: Date,
+    end: Date
+  ): Promise<{ timestamp: Date; high: number | null; low: number | null }[]> {
+    const prices = await prisma.price.findMany({
+      where: { itemId, market, timestamp: { gt: start, lte: end } },
+      select: { timestamp: true, high: true, low: true },
+      orderBy: { timestamp: 'asc' },
+    });
+    if (prices.length > 0) return prices;
+
+    const history = await prisma.priceHistory.findMany({
+      where: { itemId, market, resolution: '1h', date: { gt: start, lte: end } },
+      orderBy: { date: 'asc' },
+    });
+    return history.map(h => ({ timestamp: h.date, high: h.avgHigh, low: h.avgLow }));
+  }
+}
@@ -0,0 +1,166 @@
+import prisma from '../../lib/database.js';
+import { ItemSearchResult, ItemSummary, Market } from '../../types/api.js';
+import { scoreItemName } from '../../lib/search.js';
+import { DEFAULT_MARKET } from './market-data.js';
+
+/**
+ * Filters for item search
+ */
+export interface ItemSearchFilters {
+  query?: string;         // Fuzzy name search; omitted lists all items by name
+  members?: boolean;      // Only members (true) or free-to-play (false) items
+  minPrice?: number;      // Minimum latest buy price (low, falling back to high)
+  maxPrice?: number;      // Maximum latest buy price
+  minBuyLimit?: number;   // Minimum GE buy limit (unlimited items have a limit of 0)
+  maxBuyLimit?: number;   // Maximum GE buy limit
+  page?: number;          // 1-based page number (default: 1)
+  pageSize?: number;      // Items per page (default: DEFAULT_PAGE_SIZE)
+  market?: Market;        // Market to read prices from (default: DEFAULT_MARKET)
+}
+
+/**
+ * Default number of items per search page
+ */
+export const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Maximum number of items per search page
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Item Service
+ *
+ * Item browser queries: fuzzy name search over all items with membership,
+ * price and buy limit filters. Name matching happens in memory since SQLite
+ * has no fuzzy text search; the item table is small enough for that.
+ */
+export class ItemService {
+  /**
+   * Searches items by name with filters and pagination
+   *
+   * With a query, items are ordered by match quality and then name;
+   * without one, by name. Items without a price are excluded when a price
+   * range is given.
+   *
+   * @param filters - Query, filters and page
+   * @returns One page of matching items and the total match count
+   */
+  static async searchItems({
+    query,
+    members,
+    minPrice,
+    maxPrice,
+    minBuyLimit,
+    maxBuyLimit,
+    page = 1,
+    pageSize = DEFAULT_PAGE_SIZE,
+    market = DEFAULT_MARKET,
+  }: ItemSearchFilters = {}): Promise<ItemSearchResult> {
+    try {
+      const items = await prisma.item.findMany({
+        where: {
+          ...(members !== undefined ? { members } : {}),
+          ...(minBuyLimit !== undefined || maxBuyLimit !== undefined
+            ? { buyLimit: { gte: minBuyLimit, lte: maxBuyLimit } }
+            : {}),
+        },
+        select: { id: true, name: true },
+      });
+
+      const trimmed = query?.trim();
+      const matches = trimmed
+        ? items
+            .map(item => ({ ...item, score: scoreItemName(trimmed, item.name) }))
+            .filter(item => item.score > 0)
+            .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+        : items.sort((a, b) => a.name.localeCompare(b.name));
+
+      const hasPriceRange = minPrice !== undefined || maxPrice !== undefined;
+      const latestPrices = hasPriceRange
+        ? await this.loadLatestPrices(matches.map(item => item.id), market)
+        : new Map<number, number>();
+      const filtered = hasPriceRange
+        ? matches.filter(item => {
+            const price = latestPrices.get(item.id);
+            return price !== undefined &&
+              (minPrice === undefined || price >= minPrice) &&
+              (maxPrice === undefined || price <= maxPrice);
+          })
+        : matches;
+
+      const pageIds = filtered.slice((page - 1) * pageSize, page * pageSize).map(item => item.id);
+      const records = await prisma.item.findMany({
+        where: { id: { in: pageIds } },
+        include: { prices: { where: { market }, orderBy: { timestamp: 'desc' }, take: 1 } },
+      });
+      const byId = new Map(records.map(record => [record.id, record]));
+
+      return {
+        items: pageIds
+          .map(id => byId.get(id))
+          .filter((record): record is NonNullable<typeof record> => !!record)
+          .map(record => this.toSummary(record)),
+        total: filtered.length,
+        page,
+        pageSize,
+      };
+    } catch (error) {
+      console.error('Failed to search items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the latest buy price of each item
+   *
+   * @param itemIds - Items to load prices for
+   * @param market - Market to read prices from
+   * @returns Latest low price (falling back to high) by item ID
+   */
+  private static async loadLatestPrices(itemIds: number[], market: Market): Promise<Map<number, number>> {
+    const records = await prisma.item.findMany({
+      where: { id: { in: itemIds } },
+      select: {
+        id: true,
+        prices: { where: { market }, orderBy: { timestamp: 'desc' }, take: 1, select: { high: true, low: true } },
+      },
+    });
+
+    const prices = new Map<number, number>();
+    for (const record of records) {
+      const price = record.prices[0]?.low || record.prices[0]?.high;
+      if (price) prices.set(record.id, price);
+    }
+    return prices;
+  }
+
+  /**
+   * Converts an item record with its latest price to a summary
+   *
+   * @param record - Item record with at most one price
+   * @returns Item summary
+   */
+  private static toSummary(record: {
+    id: number;
+    name: string;
+    icon: string | null;
+    members: boolean;
+    buyLimit: number;
+    highalch: number | null;
+    prices: { high: number | null; low: number | null; timestamp: Date }[];
+  }): ItemSummary {
+    const latest = record.prices[0];
+    return {
+      id: record.id,
+      name: record.name,
+      icon: record.icon || undefined,
+      members: record.members,
+      buyLimit: record.buyLimit,
+      highalch: record.highalch ?? undefined,
+      high: latest?.high ?? undefined,
+      low: latest?.low ?? undefined,
+      lastUpdated: latest?.timestamp,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { FlipOpportunity, LiveUpdateEvent, Market, OpportunityUpdate } from '../../types/api.js';
+import { diffOpportunities } from '../../lib/calculations.js';
+import { DEFAULT_MARKET } from './market-data.js';
+import { PriceService } from './price-service.js';
+
+/**
+ * Reference budget used to compute opportunity changes after a sync
+ * Matches the default budget of /api/opportunities
+ */
+const LIVE_UPDATE_BUDGET = 100000000;
+
+/**
+ * Live Update Service
+ *
+ * In-process event bus behind the /api/stream Server-Sent Events endpoint.
+ * The price sync job publishes a `sync` event per market after every cycle
+ * with the opportunities that changed since the previous cycle, and fired alerts
+ * are published as `alert` events. The previous cycle is shared by all
+ * clients of a market, so a client that connects later starts from the
+ * snapshot returned by getSnapshot and then applies the `sync` changes.
+ * Clients use these events to refetch their own budget- and
+ * filter-specific views.
+ */
+export class LiveUpdateService {
+  /**
+   * Emitter that fans events out to connected stream clients
+   */
+  private static emitter = new EventEmitter().setMaxListeners(0);
+
+  /**
+   * Opportunities computed after the previous sync of each market, used for
+   * diffing and as the snapshot sent to new clients
+   */
+  private static lastOpportunities = new Map<Market, { syncedAt: Date; opportunities: FlipOpportunity[] }>();
+
+  /**
+   * Subscribes to live update events
+   *
+   * @param listener - Called for every published event
+   * @returns Function that removes the subscription
+   */
+  static subscribe(listener: (event: LiveUpdateEvent) => void): () => void {
+    this.emitter.on('update', listener);
+    return () => {
+      this.emitter.off('update', listener);
+    };
+  }
+
+  /**
+   * Publishes an event to all subscribers
+   *
+   * @param event - Event to publish
+   */
+  static publish(event: LiveUpdateEvent): void {
+    this.emitter.emit('update', event);
+  }
+
+  /**
+   * Number of connected subscribers
+   */
+  static subscriberCount(): number {
+    return this.emitter.listenerCount('update');
+  }
+
+  /**
+   * Returns the opportunities that the next `sync` event is diffed against
+   *
+   * Sent to a client when it subscribes, so that it has a complete set to
+   * apply later changes to. When no cycle has been analyzed for the market
+   * since the last client disconnected, the opportunities are computed now
+   * and become the base of the next diff.
+   *
+   * @param market - Market to return the snapshot for (default: DEFAULT_MARKET)
+   * @returns Every current opportunity as changed, with nothing removed
+   */
+  static async getSnapshot(market: Market = DEFAULT_MARKET): Promise<OpportunityUpdate> {
+    let last = this.lastOpportunities.get(market);
+    if (!last) {
+      const opportunities = await PriceService.getFlipOpportunities(LIVE_UPDATE_BUDGET, { market });
+      last = { syncedAt: new Date(), opportunities };
+      this.lastOpportunities.set(market, last);
+    }
+    return { market, syncedAt: last.syncedAt, changed: last.opportunities, removed: [] };
+  }
+
+  /**
+   * Publishes the end of a price sync cycle with changed opportunities
+   *
+   * Failures are logged and swallowed so live updates never fail a sync.
+   * Changes are relative to the previous cycle of the market, or to the
+   * snapshot sent to the first client that connected since then.
+   *
+   * @param market - Market that was synced (default: DEFAULT_MARKET)
+   */
+  static async publishSyncCompleted(market: Market = DEFAULT_MARKET): Promise<void> {
+    // Skip the analysis when nobody is listening; the next client starts fresh
+    if (this.subscriberCount() === 0) {
+      this.lastOpportunities.clear();
+      return;
+    }
+
+    try {
+      const opportunities = await PriceService.getFlipOpportunities(LIVE_UPDATE_BUDGET, { market });
+      const previous = this.lastOpportunities.get(market)?.opportunities || [];
+      const { changed, removed } = diffOpportunities(previous, opportunities);
+      const syncedAt = new Date();
+      this.lastOpportunities.set(market, { syncedAt, opportunities });
+
+      this.publish({
+        type: 'sync',
+        data: { market, syncedAt, changed, removed },
+      });
+    } catch (error) {
+      console.error('Failed to publish live update:', error);
+    }
+  }
+}
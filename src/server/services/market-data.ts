@@ -0,0 +1,124 @@
+import {
+  Market,
+  OSRSItem,
+  OSRSLatestPrices,
+  OSRSVolumeData,
+  OSRS1hPriceEntry,
+  VolumeWindow,
+} from '../../types/api.js';
+import { WikiMarketDataProvider } from './wiki-provider.js';
+
+/**
+ * Market Data
+ *
+ * Sources of Grand Exchange data. The sync jobs read item metadata, prices,
+ * volumes and price history through a MarketDataProvider instead of a
+ * specific API, so the tracker can run against other game modes or feeds.
+ */
+
+/**
+ * Interval between the data points of a price history
+ */
+export type TimeseriesStep = '5m' | '1h' | '6h' | '24h';
+
+/**
+ * Source of market data for one market
+ */
+export interface MarketDataProvider {
+  readonly market: Market;
+
+  /**
+   * Fetches metadata of all tradeable items
+   */
+  fetchItemMapping(): Promise<OSRSItem[]>;
+
+  /**
+   * Fetches the latest high and low prices of all items
+   */
+  fetchLatestPrices(): Promise<OSRSLatestPrices>;
+
+  /**
+   * Fetches average prices and trade volumes of all items over a window
+   *
+   * @param window - Aggregation window
+   */
+  fetchVolumes(window: VolumeWindow): Promise<OSRSVolumeData>;
+
+  /**
+   * Fetches the price history of one item
+   *
+   * @param itemId - Item to fetch history for
+   * @param timestep - Interval between data points
+   */
+  fetchTimeseries(itemId: number, timestep: TimeseriesStep): Promise<OSRS1hPriceEntry[]>;
+}
+
+/**
+ * Supported markets
+ */
+export const MARKETS: Market[] = ['osrs', 'dmm', 'fsw'];
+
+/**
+ * Resolves a market from an environment or request value
+ *
+ * @param value - Market name (optional)
+ * @returns The market (default: osrs)
+ * @throws Error if the value names an unknown market
+ */
+export function resolveMarket(value?: string): Market {
+  if (!value) return 'osrs';
+  if (!MARKETS.includes(value as Market)) {
+    throw new Error(`Market must be one of: ${MARKETS.join(', ')}`);
+  }
+  return value as Market;
+}
+
+/**
+ * Market used when a request names none, from MARKET (default: osrs)
+ * Item metadata is also synced from this market.
+ */
+export const DEFAULT_MARKET = resolveMarket(process.env.MARKET);
+
+/**
+ * Markets synced by the background jobs
+ *
+ * Read from MARKETS as a comma-separated list (e.g. "osrs,dmm"); the
+ * default market is always tracked.
+ */
+export const TRACKED_MARKETS: Market[] = Array.from(new Set([
+  DEFAULT_MARKET,
+  ...(process.env.MARKETS || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(value => resolveMarket(value)),
+]));
+
+/**
+ * Providers by market; markets without a registered provider use the Wiki API
+ */
+const providers = new Map<Market, MarketDataProvider>();
+
+/**
+ * Returns the data provider for a market
+ *
+ * @param market - Market to get the provider for (default: DEFAULT_MARKET)
+ * @returns The registered provider, or a Wiki API provider for the market
+ */
+export function getMarketDataProvider(market: Market = DEFAULT_MARKET): MarketDataProvider {
+  let provider = providers.get(market);
+  if (!provider) {
+    provider = new WikiMarketDataProvider(market);
+    providers.set(market, provider);
+  }
+  return provider;
+}
+
+/**
+ * Registers the data provider for its market, replacing the current one
+ *
+ * @param provider - Provider to use for `provider.market`
+ */
+export function setMarketDataProvider(provider: MarketDataProvider): void {
+  providers.set(provider.market, provider);
+}
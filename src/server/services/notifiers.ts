@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { AlertEvent, AlertRule } from '../../types/api.js';
+
+/**
+ * Delivers fired alert events to a destination
+ *
+ * Every event is stored in the database before it is delivered, so the
+ * in-app feed always has a copy. A notifier throws when delivery fails.
+ */
+export interface AlertNotifier {
+  name: string;
+  deliver(event: AlertEvent, rule: AlertRule): Promise<void>;
+}
+
+/**
+ * Timeout for webhook requests in milliseconds
+ */
+const WEBHOOK_TIMEOUT = 10000;
+
+/**
+ * In-app feed notifier
+ *
+ * Stored alert events already make up the feed served by /api/alerts/events,
+ * so delivery only needs to succeed.
+ */
+export class FeedNotifier implements AlertNotifier {
+  name = 'feed';
+
+  async deliver(): Promise<void> {
+    // Nothing to do: the stored event is the feed entry
+  }
+}
+
+/**
+ * Webhook notifier
+ *
+ * POSTs the event and its rule as JSON to the rule's webhook URL.
+ */
+export class WebhookNotifier implements AlertNotifier {
+  name = 'webhook';
+
+  async deliver(event: AlertEvent, rule: AlertRule): Promise<void> {
+    if (!rule.webhookUrl) {
+      throw new Error(`Alert rule ${rule.id} has no webhook URL`);
+    }
+
+    await axios.post(
+      rule.webhookUrl,
+      { event, rule },
+      { timeout: WEBHOOK_TIMEOUT, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Registry of notifiers by channel name
+ * The built-in channels are registered below; others can be added at runtime
+ */
+const notifiers = new Map<string, AlertNotifier>();
+
+/**
+ * Registers a notifier, replacing any existing one with the same name
+ *
+ * @param notifier - Notifier to register
+ */
+export function registerNotifier(notifier: AlertNotifier): void {
+  notifiers.set(notifier.name, notifier);
+}
+
+/**
+ * Looks up a registered notifier by channel name
+ *
+ * @param name - Channel name
+ * @returns The notifier, or undefined if none is registered
+ */
+export function getNotifier(name: string): AlertNotifier | undefined {
+  return notifiers.get(name);
+}
+
+/**
+ * Lists the names of all registered notifier channels
+ */
+export function listNotifierChannels(): string[] {
+  return [...notifiers.keys()];
+}
+
+registerNotifier(new FeedNotifier());
+registerNotifier(new WebhookNotifier());
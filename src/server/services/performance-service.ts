@@ -0,0 +1,208 @@
+import { createHash } from 'crypto';
+import prisma from '../../lib/database.js';
+import {
+  Market,
+  PortfolioSuggestion,
+  SuggestionPerformanceEntry,
+  SuggestionPerformanceReport,
+} from '../../types/api.js';
+import { evaluateFlipOutcome } from '../../lib/calculations.js';
+import { bucketStart } from '../../lib/downsampling.js';
+import { DEFAULT_MARKET } from './market-data.js';
+import { OpportunityFilters } from './price-service.js';
+
+/**
+ * Maximum number of evaluated entries returned in a report
+ */
+const MAX_REPORT_ENTRIES = 100;
+
+/**
+ * Interval of the scheduled price sync
+ * Suggestions only change when prices do, so an identical suggestion is
+ * stored at most once per interval.
+ */
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Performance Service
+ *
+ * Persists every generated portfolio suggestion and evaluates those
+ * predictions against the prices that were recorded afterwards. This
+ * closes the loop on the composite score: instead of trusting predicted
+ * profitAfterTax, we can measure how often suggested flips actually fill
+ * and how far the realized profit was from the prediction.
+ */
+export class PerformanceService {
+  /**
+   * Persists a generated portfolio suggestion and its selected opportunities
+   *
+   * Repeated requests for the same suggestion are stored once: the
+   * suggestion is skipped if one with the same market, budget, filters and
+   * selected items was already stored in the current sync interval.
+   * Failures are logged and swallowed so that recording never prevents a
+   * suggestion from being returned to the user.
+   *
+   * @param portfolio - The generated portfolio suggestion
+   * @param filters - Filters the suggestion was generated with, including its market
+   * @returns Whether a new snapshot was stored
+   */
+  static async recordSuggestion(
+    portfolio: PortfolioSuggestion,
+    filters: OpportunityFilters = {}
+  ): Promise<boolean> {
+    try {
+      const market = filters.market ?? DEFAULT_MARKET;
+      const signature = createHash('sha1')
+        .update(JSON.stringify({
+          budget: portfolio.totalBudget,
+          filters: { ...filters, market },
+          items: portfolio.opportunities.map(opp => [opp.id, opp.currentLow, opp.currentHigh, opp.quantity]),
+        }))
+        .digest('hex');
+
+      const duplicate = await prisma.portfolioSnapshot.findFirst({
+        where: {
+          market,
+          signature,
+          createdAt: { gte: bucketStart(portfolio.updatedAt, SYNC_INTERVAL_MS) },
+        },
+        select: { id: true },
+      });
+      if (duplicate) return false;
+
+      await prisma.portfolioSnapshot.create({
+        data: {
+          totalBudget: portfolio.totalBudget,
+          totalCost: portfolio.totalCost,
+          totalProfitAfterTax: portfolio.totalProfitAfterTax,
+          totalROI: portfolio.totalROI,
+          itemCount: portfolio.itemCount,
+          market,
+          signature,
+          createdAt: portfolio.updatedAt,
+          entries: {
+            create: portfolio.opportunities.map((opp, index) => ({
+              itemId: opp.id,
+              rank: index + 1,
+              buyPrice: opp.currentLow,
+              sellPrice: opp.currentHigh,
+              margin: opp.margin,
+              quantity: opp.quantity,
+              profitAfterTax: opp.profitAfterTax,
+              compositeScore: opp.compositeScore,
+            })),
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to record portfolio suggestion:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Builds a realized vs. predicted report for persisted suggestions
+   *
+   * Only suggestions whose full horizon has elapsed are evaluated, so that
+   * recent suggestions are not counted as misses before the market has had
+   * time to fill them.
+   *
+   * @param days - How many days of suggestions to include (default: 7)
+   * @param horizonHours - How long after each suggestion to observe prices (default: 6)
+   * @param market - Market whose suggestions and prices are evaluated (default: DEFAULT_MARKET)
+   * @returns Hit rates, average errors and the most recent evaluated entries
+   */
+  static async getReport(
+    days: number = 7,
+    horizonHours: number = 6,
+    market: Market = DEFAULT_MARKET
+  ): Promise<SuggestionPerformanceReport> {
+    try {
+      const horizonMs = horizonHours * 60 * 60 * 1000;
+      const to = new Date(Date.now() - horizonMs);
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+      const snapshots = await prisma.portfolioSnapshot.findMany({
+        where: { market, createdAt: { gte: from, lte: to } },
+        include: { entries: { include: { item: { select: { name: true } } } } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      // Load later prices once per item for the whole evaluated window
+      const itemIds = [...new Set(snapshots.flatMap(s => s.entries.map(e => e.itemId)))];
+      const prices = await prisma.price.findMany({
+        where: {
+          itemId: { in: itemIds },
+          market,
+          timestamp: { gt: from, lte: new Date(to.getTime() + horizonMs) },
+        },
+        select: { itemId: true, high: true, low: true, timestamp: true },
+        orderBy: { timestamp: 'asc' },
+      });
+      const pricesByItem = new Map<number, typeof prices>();
+      for (const price of prices) {
+        const list = pricesByItem.get(price.itemId) || [];
+        list.push(price);
+        pricesByItem.set(price.itemId, list);
+      }
+
+      const entries: SuggestionPerformanceEntry[] = [];
+      let suggestionCount = 0;
+
+      for (const snapshot of snapshots) {
+        const start = snapshot.createdAt.getTime();
+        const end = start + horizonMs;
+
+        for (const entry of snapshot.entries) {
+          suggestionCount++;
+          const laterPrices = (pricesByItem.get(entry.itemId) || []).filter(
+            p => p.timestamp.getTime() > start && p.timestamp.getTime() <= end
+          );
+          if (laterPrices.length === 0) continue;
+
+          entries.push({
+            snapshotId: snapshot.id,
+            itemId: entry.itemId,
+            itemName: entry.item.name,
+            suggestedAt: snapshot.createdAt,
+            buyPrice: entry.buyPrice,
+            sellPrice: entry.sellPrice,
+            margin: entry.margin,
+            quantity: entry.quantity,
+            profitAfterTax: entry.profitAfterTax,
+            compositeScore: entry.compositeScore ?? undefined,
+            ...evaluateFlipOutcome(entry, laterPrices),
+          });
+        }
+      }
+
+      const evaluatedCount = entries.length;
+      const bought = entries.filter(e => e.buyFilled);
+      const average = (values: number[]) =>
+        values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+      const percent = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+      return {
+        from,
+        to,
+        horizonHours,
+        snapshotCount: snapshots.length,
+        suggestionCount,
+        evaluatedCount,
+        buyFillRate: percent(bought.length, evaluatedCount),
+        sellFillRate: percent(bought.filter(e => e.sellFilled).length, bought.length),
+        hitRate: percent(entries.filter(e => e.hit).length, evaluatedCount),
+        avgMarginError: average(entries.map(e => e.marginError)),
+        avgProfitError: average(entries.map(e => e.profitError)),
+        avgAbsProfitError: average(entries.map(e => Math.abs(e.profitError))),
+        predictedProfit: entries.reduce((sum, e) => sum + e.profitAfterTax, 0),
+        actualProfit: entries.reduce((sum, e) => sum + e.actualProfitAfterTax, 0),
+        entries: entries.slice(0, MAX_REPORT_ENTRIES),
+      };
+    } catch (error) {
+      console.error('Failed to build suggestion performance report:', error);
+      throw error;
+    }
+  }
+}
@@ -1,20 +1,147 @@
 import prisma from '../../lib/database.js';
-import { OSRSApiService } from './osrs-api.js';
-import { FlipOpportunity, PortfolioSuggestion, OSRSItem } from '../../types/api.js';
+import { DEFAULT_MARKET, getMarketDataProvider } from './market-data.js';
+import { TradeService } from './trade-service.js';
+import {
+  FlipOpportunity,
+  ItemHistory,
+  Market,
+  PortfolioSuggestion,
+  PortfolioOptimizer,
+  AccountProfile,
+  OSRSItem,
+  OSRSVolumeData,
+  PriceAgeLimits,
+  PriceResolution,
+  ScoringWeights,
+  VolumeFreshness,
+  VolumeSides,
+  VolumeWindow,
+} from '../../types/api.js';
 import {
   calculateMargin,
   calculateMarginPercent,
   calculateROI,
   calculateProfitAfterTax,
   calculateOptimalQuantity,
+  calculateBuyLimitUsage,
   calculateVolatility,
+  calculateVolumeImbalance,
+  calculateGpPerHour,
+  calculatePriceAge,
+  estimateFillTime,
   detectPriceAnomalies,
   sortOpportunitiesByScore,
   filterProfitableOpportunities,
   getRiskLevel,
   hasSufficientVolume,
   VOLATILITY_THRESHOLDS,
+  GE_SLOTS,
 } from '../../lib/calculations.js';
+import { selectGreedyPortfolio, selectOptimalPortfolio } from '../../lib/optimizer.js';
+import {
+  downsamplePrices,
+  PriceAggregate,
+  HOUR_MS,
+  DAY_MS,
+  RAW_VOLUME_INTERVAL_MS,
+} from '../../lib/downsampling.js';
+import { RetentionService } from './retention-service.js';
+
+/**
+ * Options accepted by the opportunity and portfolio queries
+ */
+export interface OpportunityFilters {
+  minVolume?: number;        // Minimum 24h volume (trades)
+  maxVolatility?: number;    // Maximum volatility percentage
+  includeSpikes?: boolean;   // Keep items with detected price spikes/crashes
+  includeHighRisk?: boolean; // Keep items above 25% volatility
+  includeStale?: boolean;    // Keep items whose last high/low trade is older than the limits
+  priceAgeLimits?: PriceAgeLimits; // Maximum age per side (default: DEFAULT_PRICE_AGE_LIMITS)
+  asOf?: Date;               // Evaluate against data recorded up to this time (backtesting)
+  scoringWeights?: ScoringWeights; // Composite score weights (default: balanced strategy)
+  optimizer?: PortfolioOptimizer;  // Portfolio selection method (default: knapsack)
+  account?: AccountProfile;        // Membership and GE slots (default: members, 8 slots)
+  market?: Market;                 // Market to analyze (default: DEFAULT_MARKET)
+}
+
+/**
+ * Maximum number of rows written by a single batched statement
+ * Keeps statements below SQLite's bound parameter limit
+ */
+export const INGESTION_BATCH_SIZE = 500;
+
+/**
+ * Volume windows stored by syncVolumes
+ */
+const VOLUME_WINDOWS: VolumeWindow[] = ['5m', '1h', '24h'];
+
+/**
+ * Age after which a stored volume snapshot is reported as stale
+ * Volumes are synced every 5 minutes, so this allows a few missed cycles
+ */
+export const VOLUME_STALE_AFTER_MINUTES = 15;
+
+/**
+ * Minimum time between two stored 24h volume history captures
+ * Volumes are synced every 5 minutes; keeping one capture per interval
+ * bounds the VolumeHistory table while still allowing comparisons with
+ * the volumes of a day ago.
+ */
+export const VOLUME_HISTORY_INTERVAL_MINUTES = 60;
+
+/**
+ * Maximum age of the history capture used for a past point in time
+ * Allows one missed capture before the volumes count as unknown.
+ */
+const VOLUME_HISTORY_MAX_AGE_MINUTES = 2 * VOLUME_HISTORY_INTERVAL_MINUTES;
+
+/**
+ * Builds the freshness indicator for a volume snapshot capture time
+ *
+ * @param capturedAt - When the snapshot was captured (null if none is stored)
+ * @returns Capture time and whether it is older than VOLUME_STALE_AFTER_MINUTES
+ */
+function toVolumeFreshness(capturedAt: Date | null): VolumeFreshness {
+  return {
+    volumeUpdatedAt: capturedAt,
+    volumeStale:
+      !capturedAt || Date.now() - capturedAt.getTime() > VOLUME_STALE_AFTER_MINUTES * 60 * 1000,
+  };
+}
+
+/**
+ * Splits an array into consecutive batches
+ *
+ * @param values - Values to split
+ * @param size - Maximum batch size
+ * @returns Array of batches
+ */
+export function chunk<T>(values: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    batches.push(values.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Maps an item from the OSRS item mapping to its database columns
+ *
+ * @param item - Item from the /mapping endpoint
+ * @returns Item row data
+ */
+function toItemData(item: OSRSItem) {
+  return {
+    id: item.id,
+    name: item.name,
+    buyLimit: item.limit || 0, // 0 = unlimited buy limit
+    icon: item.icon ?? null,
+    examine: item.examine ?? null,
+    members: item.members || false,
+    lowalch: item.lowalch ?? null,
+    highalch: item.highalch ?? null,
+  };
+}
 
 /**
  * Price Service
@@ -31,46 +158,68 @@ import {
  */
 export class PriceService {
   /**
-   * Synchronizes item metadata from the OSRS API
+   * Synchronizes item metadata from the market data provider
    * 
    * This method fetches the complete item mapping and updates the local database
    * with the latest item information including names, buy limits (0 = unlimited),
-   * icons, and other metadata. It uses upsert operations to handle both new items and updates.
+   * icons, and other metadata. Existing items are loaded once so that new items
+   * are inserted with batched createMany calls, and only items whose metadata
+   * actually changed are updated, in batched transactions.
    * 
    * @throws Error if synchronization fails
    */
   static async syncItems(): Promise<void> {
     try {
-      console.log('Syncing items from OSRS API...');
-      const items = await OSRSApiService.fetchItemMapping();
-      
-      // Process each item with upsert to handle both new and existing items
+      const provider = getMarketDataProvider();
+      console.log(`Syncing items from ${provider.market} market data...`);
+      const items = await provider.fetchItemMapping();
+
+      const existing = await prisma.item.findMany({
+        select: {
+          id: true,
+          name: true,
+          buyLimit: true,
+          icon: true,
+          examine: true,
+          members: true,
+          lowalch: true,
+          highalch: true,
+        },
+      });
+      const existingById = new Map(existing.map(item => [item.id, item]));
+
+      const created: ReturnType<typeof toItemData>[] = [];
+      const changed: ReturnType<typeof toItemData>[] = [];
       for (const item of items) {
-        await prisma.item.upsert({
-          where: { id: item.id },
-          update: {
-            name: item.name,
-            buyLimit: item.limit || 0, // 0 = unlimited buy limit
-            icon: item.icon,
-            examine: item.examine,
-            members: item.members || false,
-            lowalch: item.lowalch,
-            highalch: item.highalch,
-          },
-          create: {
-            id: item.id,
-            name: item.name,
-            buyLimit: item.limit || 0, // 0 = unlimited buy limit
-            icon: item.icon,
-            examine: item.examine,
-            members: item.members || false,
-            lowalch: item.lowalch,
-            highalch: item.highalch,
-          },
-        });
+        const data = toItemData(item);
+        const current = existingById.get(item.id);
+        if (!current) {
+          created.push(data);
+        } else if (
+          current.name !== data.name ||
+          current.buyLimit !== data.buyLimit ||
+          current.icon !== data.icon ||
+          current.examine !== data.examine ||
+          current.members !== data.members ||
+          current.lowalch !== data.lowalch ||
+          current.highalch !== data.highalch
+        ) {
+          changed.push(data);
+        }
       }
-      
-      console.log(`Synced ${items.length} items successfully`);
+
+      for (const batch of chunk(created, INGESTION_BATCH_SIZE)) {
+        await prisma.item.createMany({ data: batch });
+      }
+      for (const batch of chunk(changed, INGESTION_BATCH_SIZE)) {
+        await prisma.$transaction(
+          batch.map(({ id, ...data }) => prisma.item.update({ where: { id }, data }))
+        );
+      }
+
+      console.log(
+        `Synced ${items.length} items successfully (${created.length} new, ${changed.length} updated)`
+      );
     } catch (error) {
       console.error('Failed to sync items:', error);
       throw error;
@@ -78,100 +227,90 @@ export class PriceService {
   }
 
   /**
-   * Synchronizes current price data from the OSRS API
+   * Synchronizes current price data from the market data provider
    * 
    * This method fetches the latest market prices and stores them in the database
    * for historical tracking and analysis. It only stores prices for items that
    * have valid high or low price data.
    * 
+   * Known item IDs are preloaded once instead of being looked up per item.
+   * Items missing from the database are created from the item mapping (running
+   * a full item sync if the mapping does not know them yet), and all price rows
+   * are inserted with batched createMany calls inside a transaction. Each row
+   * records the item's volume from the stored /5m snapshot, if it is fresh,
+   * so the retention job can roll volumes up with prices.
+   * 
+   * @param market - Market to sync (default: DEFAULT_MARKET)
    * @throws Error if synchronization fails
    */
-  static async syncPrices(): Promise<void> {
+  static async syncPrices(market: Market = DEFAULT_MARKET): Promise<void> {
     try {
-      console.log('Syncing prices from OSRS API...');
-      const prices = await OSRSApiService.fetchLatestPrices();
+      const provider = getMarketDataProvider(market);
+      console.log(`Syncing prices from ${provider.market} market data...`);
+      const prices = await provider.fetchLatestPrices();
       // Load item mapping once to handle newly introduced items
-      let itemMapping = await OSRSApiService.fetchItemMapping();
-      let mappingById: Record<number, OSRSItem> = {};
-      for (const item of itemMapping) {
-        mappingById[item.id] = item;
-      }
-      let mappingRefetched = false;
-      
-      // Process each item's price data
-      for (const [itemIdStr, priceData] of Object.entries(prices)) {
-        const itemId = parseInt(itemIdStr);
-        
-        // Skip items without valid price data
-        if (!priceData.high && !priceData.low) continue;
-        
-        // Ensure item exists before inserting price (avoid foreign key violation)
-        const existingItem = await prisma.item.findUnique({
-          where: { id: itemId },
-        });
+      let itemMapping = await provider.fetchItemMapping();
+      let mappingById = new Map(itemMapping.map(item => [item.id, item]));
 
-        // If item doesn't exist, attempt to create it from the mapping
-        if (!existingItem) {
-          let mapped = mappingById[itemId];
-          if (!mapped && !mappingRefetched) {
-            console.warn(
-              `Unknown item ${itemId} encountered during price sync. Attempting item sync...`
-            );
-            await PriceService.syncItems();
-            itemMapping = await OSRSApiService.fetchItemMapping();
-            mappingById = {};
-            for (const item of itemMapping) {
-              mappingById[item.id] = item;
-            }
-            mappingRefetched = true;
-            mapped = mappingById[itemId];
-          }
-
-          if (mapped) {
-            await prisma.item.upsert({
-              where: { id: mapped.id },
-              update: {
-                name: mapped.name,
-                buyLimit: mapped.limit || 0,
-                icon: mapped.icon,
-                examine: mapped.examine,
-                members: mapped.members || false,
-                lowalch: mapped.lowalch,
-                highalch: mapped.highalch,
-              },
-              create: {
-                id: mapped.id,
-                name: mapped.name,
-                buyLimit: mapped.limit || 0,
-                icon: mapped.icon,
-                examine: mapped.examine,
-                members: mapped.members || false,
-                lowalch: mapped.lowalch,
-                highalch: mapped.highalch,
-              },
-            });
-          } else {
-            console.error(
-              `Item ID ${itemId} still missing after sync. Skipping price insert.`
-            );
-            continue;
-          }
+      const knownIds = new Set(
+        (await prisma.item.findMany({ select: { id: true } })).map(item => item.id)
+      );
+
+      // Skip items without valid price data
+      const entries = Object.entries(prices)
+        .map(([itemIdStr, priceData]) => ({ itemId: parseInt(itemIdStr), priceData }))
+        .filter(({ priceData }) => priceData.high || priceData.low);
+
+      // Ensure items exist before inserting prices (avoid foreign key violations)
+      const missingIds = entries.map(e => e.itemId).filter(id => !knownIds.has(id));
+      if (missingIds.some(id => !mappingById.has(id))) {
+        console.warn(
+          `${missingIds.filter(id => !mappingById.has(id)).length} unknown items encountered during price sync. Attempting item sync...`
+        );
+        await PriceService.syncItems();
+        itemMapping = await provider.fetchItemMapping();
+        mappingById = new Map(itemMapping.map(item => [item.id, item]));
+        for (const item of await prisma.item.findMany({ select: { id: true } })) {
+          knownIds.add(item.id);
         }
+      }
 
-        // Create new price record with timestamp
-        await prisma.price.create({
-          data: {
-            itemId,
-            high: priceData.high || null,
-            low: priceData.low || null,
-            highTime: priceData.highTime ? new Date(priceData.highTime * 1000) : null,
-            lowTime: priceData.lowTime ? new Date(priceData.lowTime * 1000) : null,
-          },
-        });
+      const newItems = missingIds
+        .filter(id => !knownIds.has(id) && mappingById.has(id))
+        .map(id => toItemData(mappingById.get(id)!));
+      for (const batch of chunk(newItems, INGESTION_BATCH_SIZE)) {
+        await prisma.item.createMany({ data: batch });
+      }
+      for (const item of newItems) {
+        knownIds.add(item.id);
+      }
+
+      // Record the latest 5-minute volume with each price while it is fresh
+      const { volumes: recentVolumes, volumeStale } = await this.getVolumeSnapshot('5m', market);
 
+      const priceRows = [];
+      for (const { itemId, priceData } of entries) {
+        if (!knownIds.has(itemId)) {
+          console.error(`Item ID ${itemId} still missing after sync. Skipping price insert.`);
+          continue;
+        }
+        priceRows.push({
+          itemId,
+          high: priceData.high || null,
+          low: priceData.low || null,
+          highTime: priceData.highTime ? new Date(priceData.highTime * 1000) : null,
+          lowTime: priceData.lowTime ? new Date(priceData.lowTime * 1000) : null,
+          volume: volumeStale ? null : recentVolumes[itemId] ?? 0,
+          market,
+        });
       }
-      
-      console.log(`Synced prices for ${Object.keys(prices).length} items`);
+
+      // All rows of one sync are written together or not at all
+      await prisma.$transaction(
+        chunk(priceRows, INGESTION_BATCH_SIZE).map(batch => prisma.price.createMany({ data: batch }))
+      );
+
+      console.log(`Synced ${market} prices for ${priceRows.length} of ${Object.keys(prices).length} items`);
     } catch (error) {
       console.error('Failed to sync prices:', error);
       throw error;
@@ -179,17 +318,19 @@ export class PriceService {
   }
 
   /**
-   * Fetches and caches volume data from OSRS API
+   * Fetches and caches volume data from the market data provider
    * 
    * This method retrieves 24-hour trading volume data for liquidity analysis.
-   * Volume data is used to filter out illiquid items and improve opportunity scoring.
+   * It calls the live API and is used by the sync jobs; opportunity queries
+   * read the stored snapshots from getVolumeSnapshot instead.
    * 
+   * @param market - Market to fetch volumes for (default: DEFAULT_MARKET)
    * @returns Object mapping item IDs to their 24h trading volumes
    */
-  static async fetchVolumeData(): Promise<Record<number, number>> {
+  static async fetchVolumeData(market: Market = DEFAULT_MARKET): Promise<Record<number, number>> {
   try {
-    console.log('Fetching volume data from OSRS API...');
-    const volumeData = await OSRSApiService.fetch24hVolumes();
+    console.log(`Fetching ${market} volume data from market data provider...`);
+    const volumeData = await getMarketDataProvider(market).fetchVolumes('24h');
 
     if (process.env.NODE_ENV !== 'production') {
       console.log('Raw volume data keys:', Object.keys(volumeData));
@@ -217,112 +358,211 @@ export class PriceService {
 }
 
   /**
-   * Synchronizes historical prices using the 1h endpoint
-   *
-   * Pulls recent hourly price data for the most traded items to
-   * bootstrap the PriceHistory table. This runs once on startup
-   * or whenever new items without history are detected.
+   * Stores the latest /5m, /1h and /24h volume data as VolumeSnapshot rows
+   * 
+   * Each window is fetched and replaced independently inside a transaction,
+   * so a failed request leaves that window's previous snapshot in place
+   * (and reported as stale) instead of wiping it.
+   * 
+   * @param market - Market to sync (default: DEFAULT_MARKET)
+   * @returns Windows that were updated successfully
    */
-  static async syncHistoricalPrices(): Promise<void> {
-    try {
-      const historyDone = process.env.HISTORICAL_SYNC_DONE === 'true';
-
-      // Determine which items don't have any history records yet
-      const items = await prisma.item.findMany({ select: { id: true } });
-      const historyItems = await prisma.priceHistory.findMany({
-        distinct: ['itemId'],
-        select: { itemId: true },
-      });
-      const historySet = new Set(historyItems.map(h => h.itemId));
-      const missingHistory = items.filter(i => !historySet.has(i.id));
+  static async syncVolumes(market: Market = DEFAULT_MARKET): Promise<VolumeWindow[]> {
+    const provider = getMarketDataProvider(market);
+    const fetchers: Record<VolumeWindow, () => Promise<OSRSVolumeData>> = {
+      '5m': () => provider.fetchVolumes('5m'),
+      '1h': () => provider.fetchVolumes('1h'),
+      '24h': () => provider.fetchVolumes('24h'),
+    };
+    const updated: VolumeWindow[] = [];
+
+    const knownIds = new Set(
+      (await prisma.item.findMany({ select: { id: true } })).map(item => item.id)
+    );
 
-      if (historyDone && missingHistory.length === 0) {
-        console.log('Historical sync already performed, skipping');
-        return;
+    for (const window of VOLUME_WINDOWS) {
+      try {
+        const volumeData = await fetchers[window]();
+        const capturedAt = new Date();
+        const rows = Object.entries(volumeData)
+          .map(([itemIdStr, volumes]) => ({
+            itemId: parseInt(itemIdStr),
+            window,
+            highPriceVolume: volumes.highPriceVolume || 0,
+            lowPriceVolume: volumes.lowPriceVolume || 0,
+            avgHighPrice: volumes.avgHighPrice ?? null,
+            avgLowPrice: volumes.avgLowPrice ?? null,
+            market,
+            capturedAt,
+          }))
+          .filter(row => knownIds.has(row.itemId));
+
+        // The 24h window is also kept as timestamped history for comparisons with the past
+        const historyRows = window === '24h' && await this.isVolumeHistoryDue(market, capturedAt)
+          ? rows
+              .filter(row => row.highPriceVolume + row.lowPriceVolume > 0)
+              .map(({ itemId, highPriceVolume, lowPriceVolume }) => ({
+                itemId,
+                highPriceVolume,
+                lowPriceVolume,
+                market,
+                capturedAt,
+              }))
+          : [];
+
+        await prisma.$transaction([
+          prisma.volumeSnapshot.deleteMany({ where: { window, market } }),
+          ...chunk(rows, INGESTION_BATCH_SIZE).map(batch =>
+            prisma.volumeSnapshot.createMany({ data: batch })
+          ),
+          ...chunk(historyRows, INGESTION_BATCH_SIZE).map(batch =>
+            prisma.volumeHistory.createMany({ data: batch })
+          ),
+        ]);
+        updated.push(window);
+      } catch (error) {
+        console.error(`Failed to sync ${market} ${window} volume snapshot:`, error);
       }
+    }
 
-      console.log('Syncing historical prices...');
+    console.log(`Synced ${market} volume snapshots for windows: ${updated.join(', ') || 'none'}`);
+    return updated;
+  }
 
-      const volumeData = await this.fetchVolumeData();
-      const topIds = Object.entries(volumeData)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 100)
-        .map(([id]) => parseInt(id));
+  /**
+   * Checks whether a new 24h volume history capture should be stored
+   *
+   * @param market - Market being synced
+   * @param now - Time of the current capture
+   * @returns True if the latest capture is at least VOLUME_HISTORY_INTERVAL_MINUTES old
+   */
+  private static async isVolumeHistoryDue(market: Market, now: Date): Promise<boolean> {
+    const latest = await prisma.volumeHistory.findFirst({
+      where: { market },
+      orderBy: { capturedAt: 'desc' },
+      select: { capturedAt: true },
+    });
+    return !latest ||
+      now.getTime() - latest.capturedAt.getTime() >= VOLUME_HISTORY_INTERVAL_MINUTES * 60 * 1000;
+  }
 
-      const targetIds = historyDone
-        ? topIds.filter(id => missingHistory.some(m => m.id === id))
-        : topIds;
+  /**
+   * Reads stored volumes for a window
+   * 
+   * @param window - Volume window to read (default: 24h)
+   * @param market - Market to read (default: DEFAULT_MARKET)
+   * @returns Object mapping item IDs to total volume and to volume per side,
+   *          and when the snapshot was captured
+   */
+  static async getVolumeSnapshot(
+    window: VolumeWindow = '24h',
+    market: Market = DEFAULT_MARKET
+  ): Promise<
+    { volumes: Record<number, number>; sides: Record<number, VolumeSides> } & VolumeFreshness
+  > {
+    const rows = await prisma.volumeSnapshot.findMany({
+      where: { window, market },
+      select: { itemId: true, highPriceVolume: true, lowPriceVolume: true, capturedAt: true },
+    });
 
-      for (const itemId of targetIds) {
-        const records = await OSRSApiService.fetch1hHistory(itemId);
-        const data = records.map(r => ({
-          itemId,
-          avgHigh: r.avgHighPrice ?? null,
-          avgLow: r.avgLowPrice ?? null,
-          volume: (r.highPriceVolume || 0) + (r.lowPriceVolume || 0),
-          date: new Date(r.timestamp * 1000),
-        }));
-
-        if (data.length > 0) {
-          await prisma.priceHistory.createMany({ data });
-        }
+    const volumes: Record<number, number> = {};
+    const sides: Record<number, VolumeSides> = {};
+    let capturedAt: Date | null = null;
+    for (const row of rows) {
+      const total = row.highPriceVolume + row.lowPriceVolume;
+      if (total > 0) {
+        volumes[row.itemId] = total;
+        sides[row.itemId] = { buyVolume: row.highPriceVolume, sellVolume: row.lowPriceVolume };
       }
+      if (!capturedAt || row.capturedAt < capturedAt) capturedAt = row.capturedAt;
+    }
 
-      process.env.HISTORICAL_SYNC_DONE = 'true';
-      console.log('Historical price sync complete');
-    } catch (error) {
-      console.error('Failed to sync historical prices:', error);
+    return { volumes, sides, ...toVolumeFreshness(capturedAt) };
+  }
+
+  /**
+   * Reports how fresh the stored 24h volume snapshot is
+   * 
+   * @param market - Market to check (default: DEFAULT_MARKET)
+   * @returns Capture time of the snapshot and whether it is stale
+   */
+  static async getVolumeFreshness(market: Market = DEFAULT_MARKET): Promise<VolumeFreshness> {
+    const { _min } = await prisma.volumeSnapshot.aggregate({
+      where: { window: '24h', market },
+      _min: { capturedAt: true },
+    });
+    return toVolumeFreshness(_min.capturedAt);
+  }
+
+  /**
+   * Loads the 24h volumes used for an opportunity analysis
+   * 
+   * Past points in time use the 24h volume history captured closest before
+   * them. Live analyses read the stored snapshot; if none has been stored
+   * yet (fresh install) the volumes are synced once first.
+   */
+  private static async loadVolumes(
+    market: Market,
+    asOf?: Date
+  ): Promise<
+    { volumes: Record<number, number>; sides: Record<number, VolumeSides> } & VolumeFreshness
+  > {
+    if (asOf) {
+      const { volumes, sides, capturedAt } = await this.getHistoricalVolumeData(asOf, market);
+      return { volumes, sides, volumeUpdatedAt: capturedAt, volumeStale: !capturedAt };
     }
+
+    const snapshot = await this.getVolumeSnapshot('24h', market);
+    if (snapshot.volumeUpdatedAt) return snapshot;
+
+    await this.syncVolumes(market);
+    return this.getVolumeSnapshot('24h', market);
   }
 
   /**
-   * Preloads recent price history for popular items into the Price table
+   * Reads the 24-hour trading volumes as they were at a past point in time
    *
-   * Fetches the last 24 hours of hourly data for the top traded items
-   * using the /timeseries endpoint. This provides enough historical data
-   * for volatility calculations immediately after startup.
+   * Uses the latest VolumeHistory capture at or before the given time,
+   * provided it is at most VOLUME_HISTORY_MAX_AGE_MINUTES older. Used
+   * instead of the live snapshot when evaluating opportunities for
+   * backtesting and when comparing volumes with the previous day.
+   *
+   * @param asOf - Point in time to read volumes for
+   * @param market - Market to read volumes for (default: DEFAULT_MARKET)
+   * @returns Total volume and volume per side by item ID, and when they were
+   *          captured (null and empty maps if no capture covers the time)
    */
-  static async preloadRecentPrices(): Promise<void> {
-    try {
-      if (process.env.PRICE_PRELOAD_DONE === 'true') {
-        console.log('Recent price preload already performed, skipping');
-        return;
-      }
-
-      console.log('Preloading recent price history...');
-      const volumeData = await this.fetchVolumeData();
-      const topIds = Object.entries(volumeData)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 20)
-        .map(([id]) => parseInt(id));
+  static async getHistoricalVolumeData(
+    asOf: Date,
+    market: Market = DEFAULT_MARKET
+  ): Promise<{ volumes: Record<number, number>; sides: Record<number, VolumeSides>; capturedAt: Date | null }> {
+    const latest = await prisma.volumeHistory.findFirst({
+      where: {
+        market,
+        capturedAt: {
+          gte: new Date(asOf.getTime() - VOLUME_HISTORY_MAX_AGE_MINUTES * 60 * 1000),
+          lte: asOf,
+        },
+      },
+      orderBy: { capturedAt: 'desc' },
+      select: { capturedAt: true },
+    });
+    if (!latest) return { volumes: {}, sides: {}, capturedAt: null };
 
-      for (const itemId of topIds) {
-        const records = (await OSRSApiService.fetchTimeseries(
-          itemId,
-          '1h'
-        )) as any[];
-        for (const r of records) {
-          await prisma.price.create({
-            data: {
-              itemId,
-              high: r.avgHighPrice ?? null,
-              low: r.avgLowPrice ?? null,
-              timestamp: new Date(r.timestamp * 1000),
-            },
-          });
-        }
-        // small delay to respect API rate limits
-        await new Promise(res => setTimeout(res, 200));
-      }
+    const rows = await prisma.volumeHistory.findMany({
+      where: { market, capturedAt: latest.capturedAt },
+      select: { itemId: true, highPriceVolume: true, lowPriceVolume: true },
+    });
 
-      process.env.PRICE_PRELOAD_DONE = 'true';
-      console.log('Recent price history preload complete');
-    } catch (error) {
-      console.error('Failed to preload recent prices:', error);
+    const volumes: Record<number, number> = {};
+    const sides: Record<number, VolumeSides> = {};
+    for (const row of rows) {
+      volumes[row.itemId] = row.highPriceVolume + row.lowPriceVolume;
+      sides[row.itemId] = { buyVolume: row.highPriceVolume, sellVolume: row.lowPriceVolume };
     }
+    return { volumes, sides, capturedAt: latest.capturedAt };
   }
 
-
   /**
    * Generates trading opportunities with enhanced filtering and scoring
    * 
@@ -331,6 +571,7 @@ export class PriceService {
    * price spike detection, and composite scoring for better recommendations.
    * 
    * @param budget - Available trading budget in GP
+   * @param filters - Liquidity/risk filters; `asOf` evaluates a past point in time
    * @returns Array of profitable trading opportunities, sorted by composite score
    * @throws Error if analysis fails
    */
@@ -341,21 +582,43 @@ export class PriceService {
       maxVolatility = VOLATILITY_THRESHOLDS.EXTREME,
       includeSpikes = false,
       includeHighRisk = false,
-    }: { minVolume?: number; maxVolatility?: number; includeSpikes?: boolean; includeHighRisk?: boolean } = {}
+      includeStale = false,
+      priceAgeLimits,
+      asOf,
+      scoringWeights,
+      account,
+      market = DEFAULT_MARKET,
+    }: OpportunityFilters = {}
   ): Promise<FlipOpportunity[]> {
   try {
-    const volumeData = await this.fetchVolumeData();
+    // When evaluating a past point in time, only use data recorded up to then
+    const {
+      volumes: volumeData,
+      sides: volumeSides,
+      volumeUpdatedAt,
+      volumeStale,
+    } = await this.loadVolumes(market, asOf);
+    const priceWhere = asOf ? { market, timestamp: { lte: asOf } } : { market };
+
+    // Fill times use the last hour's volume per side; past points in time
+    // fall back to the 24h volumes spread evenly over the day
+    const hourlySides = asOf ? {} : (await this.getVolumeSnapshot('1h', market)).sides;
+
+    // Buy limits are shared per account over a rolling 4-hour window
+    const now = asOf || new Date();
+    const recentBuys = await TradeService.getRecentBuys(account?.id ?? null, now, market);
 
     const items = await prisma.item.findMany({
       include: {
         prices: {
+          where: priceWhere,
           orderBy: { timestamp: 'desc' },
           take: 20,
         },
       },
       where: {
         prices: {
-          some: {},
+          some: priceWhere,
         },
       },
     });
@@ -365,10 +628,13 @@ export class PriceService {
     for (const item of items) {
       if (item.prices.length === 0) continue;
 
+      // Free-to-play accounts cannot trade members-only items
+      if (account && !account.members && item.members) continue;
+
       let priceRecords = [...item.prices];
       if (priceRecords.length < 10) {
         const extra = await prisma.priceHistory.findMany({
-          where: { itemId: item.id },
+          where: { itemId: item.id, market, resolution: '1h', ...(asOf ? { date: { lte: asOf } } : {}) },
           orderBy: { date: 'desc' },
           take: 10 - priceRecords.length,
         });
@@ -401,8 +667,12 @@ export class PriceService {
         .map(p => p.low || 0)
         .filter(p => p > 0);
 
+      // One-sided markets are riskier and get smaller positions
+      const sides = volumeSides[item.id];
+      const volumeImbalance = sides ? calculateVolumeImbalance(sides.buyVolume, sides.sellVolume) : 0;
+
       const volatility = calculateVolatility(recentHighs);
-      const riskLevel = getRiskLevel(volatility);
+      const riskLevel = getRiskLevel(volatility, volumeImbalance);
 
       if (!includeHighRisk && volatility > 25) continue;
       if (volatility > VOLATILITY_THRESHOLDS.EXTREME) continue;
@@ -415,11 +685,18 @@ export class PriceService {
       );
       if (!includeSpikes && !priceAnalysis.isStable) continue;
 
+      // Only the part of the buy limit not used by recorded buys is available
+      const buyLimitUsage = item.buyLimit > 0
+        ? calculateBuyLimitUsage(recentBuys.get(item.id) || [], item.buyLimit, now)
+        : null;
+      if (buyLimitUsage && buyLimitUsage.remaining === 0) continue;
+
       const quantity = calculateOptimalQuantity(
         budget,
         avgPrice,
-        item.buyLimit,
-        volume
+        buyLimitUsage ? buyLimitUsage.remaining : item.buyLimit,
+        volume,
+        volumeImbalance
       );
 
       if (quantity === 0) continue;
@@ -429,6 +706,24 @@ export class PriceService {
       const profitAfterTax = calculateProfitAfterTax(margin, latestPrice.high, quantity);
       const roi = calculateROI(profitAfterTax, totalCost);
 
+      // Age of the last trade on each side of the latest raw price
+      const priceAge = calculatePriceAge(
+        item.prices[0].highTime,
+        item.prices[0].lowTime,
+        now,
+        priceAgeLimits
+      );
+
+      const fillTime = estimateFillTime(
+        quantity,
+        hourlySides[item.id] || {
+          buyVolume: (sides ? sides.buyVolume : volume / 2) / 24,
+          sellVolume: (sides ? sides.sellVolume : volume / 2) / 24,
+        },
+        priceAge.highMinutes !== null ? priceAge.highMinutes / 60 : null,
+        priceAge.lowMinutes !== null ? priceAge.lowMinutes / 60 : null
+      );
+
       opportunities.push({
         id: item.id,
         name: item.name,
@@ -445,10 +740,22 @@ export class PriceService {
         profitAfterTax,
         buyLimit: item.buyLimit,
         volume,
+        buyVolume: sides?.buyVolume,
+        sellVolume: sides?.sellVolume,
+        volumeImbalance: sides ? volumeImbalance : undefined,
         volatility,
         riskLevel,
         isStable: priceAnalysis.isStable,
         lastUpdated: latestPrice.timestamp,
+        remainingBuyLimit: buyLimitUsage?.remaining,
+        buyLimitResetsAt: buyLimitUsage?.resetsAt,
+        volumeUpdatedAt: volumeUpdatedAt || undefined,
+        volumeStale,
+        estimatedBuyHours: fillTime?.buyHours,
+        estimatedSellHours: fillTime?.sellHours,
+        estimatedFillHours: fillTime?.totalHours,
+        gpPerHour: fillTime ? calculateGpPerHour(profitAfterTax, fillTime.totalHours) : undefined,
+        priceAge,
       });
     }
 
@@ -458,15 +765,11 @@ export class PriceService {
       1000,
       5,
       minVolume,
-      maxVolatility
+      maxVolatility,
+      !includeStale
     );
 
-    if (budget > 100000000) {
-      // For very large budgets, prioritize high ROI opportunities
-      return profitableOpportunities.sort((a, b) => b.roi - a.roi);
-    }
-
-    return sortOpportunitiesByScore(profitableOpportunities);
+    return sortOpportunitiesByScore(profitableOpportunities, scoringWeights);
   } catch (error) {
     console.error('Failed to get flip opportunities:', error);
     throw error;
@@ -478,74 +781,30 @@ export class PriceService {
    * Generates an optimized portfolio recommendation with improved allocation
    * 
    * This method creates a comprehensive trading portfolio by selecting the best
-   * opportunities that fit within the user's budget. It now uses composite scoring,
-   * limits to 8 items (GE slot limit), and removes artificial budget caps per item.
+   * opportunities that fit within the user's budget. By default a knapsack optimizer
+   * maximizes expected after-tax profit under the budget, the account's GE slots, buy limits
+   * and volume caps; the original greedy score-order selection remains available.
    * 
    * @param budget - Available trading budget in GP
+   * @param filters - Options passed through to getFlipOpportunities
    * @returns Complete portfolio suggestion with metrics and selected opportunities
    * @throws Error if portfolio generation fails
    */
   static async getPortfolioSuggestion(
     budget: number,
-    filters: { minVolume?: number; maxVolatility?: number; includeSpikes?: boolean; includeHighRisk?: boolean } = {}
+    filters: OpportunityFilters = {}
   ): Promise<PortfolioSuggestion> {
     try {
       // Get all available trading opportunities (already scored and filtered)
       const opportunities = await this.getFlipOpportunities(budget, filters);
       
-      let remainingBudget = budget;
-      const selectedOpportunities: FlipOpportunity[] = [];
-      const maxItems = 8; // GE slot limit
-      
-      // Enhanced selection algorithm: pick best opportunities up to slot limit
-      for (const opportunity of opportunities) {
-        if (remainingBudget <= 0 || selectedOpportunities.length >= maxItems) break;
-        
-        // For unlimited buy limit items, calculate quantity based on remaining budget
-        // and volume constraints rather than artificial caps
-        let adjustedQuantity: number;
-        
-          if (opportunity.buyLimit === 0) {
-            // Unlimited buy limit - use budget and volume constraints
-            // Relax the volume cap when we still have a large amount of GP
-            const volumeMultiplier = remainingBudget > budget * 0.5 ? 0.2 : 0.1;
-            adjustedQuantity = Math.min(
-              Math.floor(remainingBudget / opportunity.currentLow),
-              Math.floor(opportunity.volume * volumeMultiplier)
-            );
-        } else {
-          // Normal buy limit - respect the limit
-          adjustedQuantity = Math.min(
-            opportunity.quantity,
-            Math.floor(remainingBudget / opportunity.currentLow)
-          );
-        }
-        
-        // Only include if we can afford at least one item
-        if (adjustedQuantity > 0) {
-          // Recalculate metrics for adjusted quantity
-          const adjustedOpportunity = {
-            ...opportunity,
-            quantity: adjustedQuantity,
-            totalCost: adjustedQuantity * opportunity.currentLow,
-            totalProfit: adjustedQuantity * opportunity.margin,
-            profitAfterTax: calculateProfitAfterTax(
-              opportunity.margin,
-              opportunity.currentHigh,
-              adjustedQuantity
-            ),
-          };
-          
-          // Recalculate ROI for adjusted investment
-          adjustedOpportunity.roi = calculateROI(
-            adjustedOpportunity.profitAfterTax,
-            adjustedOpportunity.totalCost
-          );
-          
-          selectedOpportunities.push(adjustedOpportunity);
-          remainingBudget -= adjustedOpportunity.totalCost;
-        }
-      }
+      const maxItems = filters.account?.geSlots ?? GE_SLOTS.MEMBERS; // GE slot limit
+      const optimizer = filters.optimizer || 'knapsack';
+
+      // Pick opportunities and quantities under the budget and slot limit
+      const selectedOpportunities = optimizer === 'greedy'
+        ? selectGreedyPortfolio(opportunities, budget, maxItems)
+        : selectOptimalPortfolio(opportunities, budget, maxItems);
       
       // Calculate portfolio-wide metrics
       const totalCost = selectedOpportunities.reduce((sum, opp) => sum + opp.totalCost, 0);
@@ -563,7 +822,12 @@ export class PriceService {
         opportunities: selectedOpportunities,
         itemCount: selectedOpportunities.length,
         budgetUtilization,
-        updatedAt: new Date(),
+        optimizer,
+        geSlots: maxItems,
+        updatedAt: filters.asOf || new Date(),
+        ...(filters.asOf
+          ? { volumeUpdatedAt: filters.asOf, volumeStale: false }
+          : await this.getVolumeFreshness(filters.market)),
       };
     } catch (error) {
       console.error('Failed to get portfolio suggestion:', error);
@@ -577,18 +841,22 @@ export class PriceService {
    * This method retrieves recent price history for detailed analysis and charting.
    * Used by the frontend for displaying item-specific price trends.
    * 
+   * The resolution follows the requested range and the retention settings:
+   * raw prices while the range is within PRICE_RETENTION_HOURS, hourly
+   * aggregates up to HOURLY_RETENTION_DAYS, and daily aggregates beyond.
+   * Finer data that has not been rolled up yet is downsampled on the fly,
+   * and stored aggregates take precedence for the same bucket.
+   * 
    * @param itemId - The item ID to fetch history for
    * @param days - Number of days of history to retrieve (default: 7)
-   * @returns Historical price data for the item
+   * @param market - Market to read prices from (default: DEFAULT_MARKET)
+   * @returns Historical price data for the item, newest first
    */
   static async getItemHistory(
     itemId: number,
-    days: number = 7
-  ): Promise<{
-    itemId: number;
-    itemName: string;
-    prices: { timestamp: Date; high?: number | null; low?: number | null }[];
-  }> {
+    days: number = 7,
+    market: Market = DEFAULT_MARKET
+  ): Promise<ItemHistory> {
     try {
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - days);
@@ -598,6 +866,7 @@ export class PriceService {
         include: {
           prices: {
             where: {
+              market,
               timestamp: {
                 gte: startDate,
               },
@@ -611,14 +880,78 @@ export class PriceService {
         throw new Error(`Item with ID ${itemId} not found`);
       }
 
+      let resolution: PriceResolution = '1d';
+      if (days * 24 <= RetentionService.getRawRetentionHours()) {
+        resolution = 'raw';
+      } else if (days <= RetentionService.getHourlyRetentionDays()) {
+        resolution = '1h';
+      }
+
+      if (resolution === 'raw') {
+        return {
+          itemId: item.id,
+          itemName: item.name,
+          resolution,
+          prices: item.prices.map(price => ({
+            timestamp: price.timestamp,
+            high: price.high ?? undefined,
+            low: price.low ?? undefined,
+            volume: price.volume ?? undefined,
+          })),
+        };
+      }
+
+      const history = await prisma.priceHistory.findMany({
+        where: { itemId, market, date: { gte: startDate } },
+      });
+      const toPoint = (h: (typeof history)[number]) => ({
+        ...h,
+        timestamp: h.date,
+        high: h.avgHigh,
+        low: h.avgLow,
+      });
+      const mergeStored = (stored: PriceAggregate[], computed: PriceAggregate[]) => {
+        const storedDates = new Set(stored.map(a => a.date.getTime()));
+        return stored.concat(computed.filter(a => !storedDates.has(a.date.getTime())));
+      };
+
+      // Hourly series: stored hourly rows plus raw prices not rolled up yet
+      const storedHourly = downsamplePrices(
+        history.filter(h => h.resolution === '1h').map(toPoint),
+        HOUR_MS
+      );
+      let aggregates = mergeStored(
+        storedHourly,
+        downsamplePrices(item.prices, HOUR_MS, RAW_VOLUME_INTERVAL_MS)
+      );
+
+      if (resolution === '1d') {
+        const storedDaily = downsamplePrices(
+          history.filter(h => h.resolution === '1d').map(toPoint),
+          DAY_MS
+        );
+        aggregates = mergeStored(storedDaily, downsamplePrices(
+          aggregates.map(a => ({ ...a, timestamp: a.date, high: a.avgHigh, low: a.avgLow })),
+          DAY_MS
+        ));
+      }
+
       return {
         itemId: item.id,
         itemName: item.name,
-        prices: item.prices.map(price => ({
-          timestamp: price.timestamp,
-          high: price.high,
-          low: price.low,
-        })),
+        resolution,
+        prices: aggregates
+          .sort((a, b) => b.date.getTime() - a.date.getTime())
+          .map(a => ({
+            timestamp: a.date,
+            high: a.avgHigh,
+            low: a.avgLow,
+            minHigh: a.minHigh,
+            maxHigh: a.maxHigh,
+            minLow: a.minLow,
+            maxLow: a.maxLow,
+            volume: a.volume,
+          })),
       };
     } catch (error) {
       console.error(`Failed to get item history for ${itemId}:`, error);
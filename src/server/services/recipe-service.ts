@@ -0,0 +1,362 @@
+import { readFile } from 'fs/promises';
+import prisma from '../../lib/database.js';
+import {
+  Market,
+  ProcessingMargin,
+  ProcessingRecipe,
+  PricedRecipeItem,
+  RecipeKind,
+  SetArbitrage,
+} from '../../types/api.js';
+import { compareRecipeEvaluations, evaluateRecipe } from '../../lib/processing.js';
+import { calculateSetArbitrage } from '../../lib/sets.js';
+import { DEFAULT_MARKET } from './market-data.js';
+
+/**
+ * Input shape for creating a processing recipe, also used by the built-in
+ * recipes JSON file
+ */
+export interface RecipeInput {
+  name: string;
+  kind?: RecipeKind;  // Default: processing; only used by the built-in recipes file
+  secondsPerAction?: number;
+  inputs: { itemId: number; quantity?: number }[];
+  outputs: { itemId: number; quantity?: number }[];
+}
+
+/**
+ * Default location of the built-in processing recipes
+ */
+const RECIPES_FILE = new URL('../data/processing-recipes.json', import.meta.url);
+
+/**
+ * Includes each recipe item with its latest price in a market
+ *
+ * @param market - Market to read prices from
+ */
+const recipeInclude = (market: Market) => ({
+  items: {
+    include: {
+      item: {
+        include: { prices: { where: { market }, orderBy: { timestamp: 'desc' as const }, take: 1 } },
+      },
+    },
+  },
+});
+
+/**
+ * Recipe record as loaded from the database with its items
+ */
+type RecipeRecord = {
+  id: number;
+  name: string;
+  kind: string;
+  secondsPerAction: number | null;
+  builtIn: boolean;
+  items: {
+    itemId: number;
+    role: string;
+    quantity: number;
+    item: {
+      name: string;
+      buyLimit: number;
+      prices: { high: number | null; low: number | null; timestamp: Date }[];
+    };
+  }[];
+};
+
+/**
+ * Recipe Service
+ *
+ * Stores processing recipes (input items converted into output items) and
+ * evaluates them against the latest prices. GE item sets are stored as
+ * recipes of kind "set" (components in, set out) and evaluated in both
+ * directions. Built-in recipes and sets are loaded from
+ * src/server/data/processing-recipes.json; custom processing recipes are
+ * added through the API.
+ */
+export class RecipeService {
+  /**
+   * Loads the built-in recipes from the JSON file into the database
+   *
+   * Existing built-in recipes are updated in place. Recipes that reference
+   * items not present in the database (for example before the first item
+   * sync), and sets without exactly one output, are skipped with a warning.
+   *
+   * @param file - Path or URL of the JSON file (default: src/server/data/processing-recipes.json)
+   * @returns Number of recipes loaded
+   */
+  static async loadBuiltInRecipes(file: string | URL = RECIPES_FILE): Promise<number> {
+    try {
+      const { recipes } = JSON.parse(await readFile(file, 'utf-8')) as { recipes: RecipeInput[] };
+
+      let loaded = 0;
+      for (const recipe of recipes) {
+        const missing = await this.findMissingItems(recipe);
+        if (missing.length > 0) {
+          console.warn(`Skipping recipe "${recipe.name}": unknown items ${missing.join(', ')}`);
+          continue;
+        }
+        if (recipe.kind === 'set' && recipe.outputs.length !== 1) {
+          console.warn(`Skipping item set "${recipe.name}": a set must have exactly one output`);
+          continue;
+        }
+
+        const items = this.toItemRows(recipe);
+        await prisma.processingRecipe.upsert({
+          where: { name: recipe.name },
+          create: {
+            name: recipe.name,
+            kind: recipe.kind,
+            secondsPerAction: recipe.secondsPerAction,
+            builtIn: true,
+            items: { create: items },
+          },
+          update: {
+            kind: recipe.kind ?? 'processing',
+            secondsPerAction: recipe.secondsPerAction ?? null,
+            builtIn: true,
+            items: { deleteMany: {}, create: items },
+          },
+        });
+        loaded++;
+      }
+
+      console.log(`Loaded ${loaded} of ${recipes.length} built-in processing recipes`);
+      return loaded;
+    } catch (error) {
+      console.error('Failed to load processing recipes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists all recipes, including item sets, without prices
+   *
+   * @returns Array of recipes, ordered by name
+   */
+  static async listRecipes(): Promise<ProcessingRecipe[]> {
+    try {
+      const records = await prisma.processingRecipe.findMany({
+        include: recipeInclude(DEFAULT_MARKET),
+        orderBy: { name: 'asc' },
+      });
+      return records.map(record => this.toRecipe(record));
+    } catch (error) {
+      console.error('Failed to list processing recipes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a custom processing recipe
+   *
+   * @param input - Name, optional action time, inputs and outputs
+   * @returns The created recipe, or an error message if an item is unknown
+   *          or the name is already taken
+   */
+  static async createRecipe(input: RecipeInput): Promise<ProcessingRecipe | string> {
+    try {
+      const missing = await this.findMissingItems(input);
+      if (missing.length > 0) {
+        return `Unknown item IDs: ${missing.join(', ')}`;
+      }
+      if (await prisma.processingRecipe.findUnique({ where: { name: input.name } })) {
+        return `A recipe named "${input.name}" already exists`;
+      }
+
+      const record = await prisma.processingRecipe.create({
+        data: {
+          name: input.name,
+          secondsPerAction: input.secondsPerAction,
+          items: { create: this.toItemRows(input) },
+        },
+        include: recipeInclude(DEFAULT_MARKET),
+      });
+      return this.toRecipe(record);
+    } catch (error) {
+      console.error('Failed to create processing recipe:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a custom recipe
+   *
+   * Built-in recipes are reloaded on every server start, so only custom
+   * recipes can be deleted.
+   *
+   * @param id - Recipe ID
+   * @returns Whether a custom recipe was deleted
+   */
+  static async deleteRecipe(id: number): Promise<boolean> {
+    try {
+      const { count } = await prisma.processingRecipe.deleteMany({ where: { id, builtIn: false } });
+      return count > 0;
+    } catch (error) {
+      console.error(`Failed to delete processing recipe ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluates all processing recipes at current prices
+   *
+   * Recipes are skipped when any input has no low price or any output has
+   * no high price. Item sets are evaluated by getSetArbitrage instead.
+   *
+   * @param market - Market to read prices from (default: DEFAULT_MARKET)
+   * @returns Margins ranked by profit/hour, then by profit per action
+   */
+  static async getProcessingMargins(market: Market = DEFAULT_MARKET): Promise<ProcessingMargin[]> {
+    try {
+      const records = await prisma.processingRecipe.findMany({
+        where: { kind: 'processing' },
+        include: recipeInclude(market),
+      });
+
+      const margins: ProcessingMargin[] = [];
+      for (const record of records) {
+        const priced = record.items.map(row => {
+          const latest = row.item.prices[0];
+          const price = row.role === 'input' ? latest?.low : latest?.high;
+          return { row, latest, price };
+        });
+        if (priced.some(({ price }) => !price)) continue;
+
+        const toPriced = (role: string): PricedRecipeItem[] =>
+          priced
+            .filter(({ row }) => row.role === role)
+            .map(({ row, price }) => ({
+              itemId: row.itemId,
+              name: row.item.name,
+              quantity: row.quantity,
+              price: price!,
+              buyLimit: row.item.buyLimit,
+            }));
+        const inputs = toPriced('input');
+        const outputs = toPriced('output');
+        const evaluation = evaluateRecipe(inputs, outputs, record.secondsPerAction);
+
+        margins.push({
+          ...this.toRecipe(record),
+          inputs,
+          outputs,
+          ...evaluation,
+          lastUpdated: new Date(Math.min(...priced.map(({ latest }) => latest!.timestamp.getTime()))),
+        });
+      }
+
+      return margins.sort(compareRecipeEvaluations);
+    } catch (error) {
+      console.error('Failed to evaluate processing recipes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Analyzes combine/split arbitrage for all item set recipes
+   *
+   * Sets are skipped when the set or any component has no current high
+   * and low price.
+   *
+   * @param market - Market to read prices from (default: DEFAULT_MARKET)
+   * @returns Arbitrage per set, most profitable first
+   */
+  static async getSetArbitrage(market: Market = DEFAULT_MARKET): Promise<SetArbitrage[]> {
+    try {
+      const records = await prisma.processingRecipe.findMany({
+        where: { kind: 'set' },
+        include: recipeInclude(market),
+      });
+
+      const results: SetArbitrage[] = [];
+      for (const record of records) {
+        const setRow = record.items.find(row => row.role === 'output');
+        const setPrice = setRow?.item.prices[0];
+        const componentPrices = record.items
+          .filter(row => row.role === 'input')
+          .map(row => ({ row, price: row.item.prices[0] }));
+        if (!setRow || !setPrice?.high || !setPrice?.low) continue;
+        if (componentPrices.some(({ price }) => !price?.high || !price?.low)) continue;
+
+        const components = componentPrices.map(({ row, price }) => ({
+          itemId: row.itemId,
+          name: row.item.name,
+          quantity: row.quantity,
+          high: price.high!,
+          low: price.low!,
+        }));
+        const arbitrage = calculateSetArbitrage(setPrice.high, setPrice.low, components);
+
+        const timestamps = [setPrice, ...componentPrices.map(({ price }) => price)].map(p => p.timestamp);
+        results.push({
+          setItemId: setRow.itemId,
+          name: record.name,
+          icon: setRow.item.icon || undefined,
+          setHigh: setPrice.high,
+          setLow: setPrice.low,
+          components,
+          ...arbitrage,
+          lastUpdated: new Date(Math.min(...timestamps.map(t => t.getTime()))),
+        });
+      }
+
+      return results.sort((a, b) => b.profit - a.profit);
+    } catch (error) {
+      console.error('Failed to analyze item sets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds recipe items that are not present in the database
+   *
+   * @param recipe - Recipe input
+   * @returns IDs of unknown items
+   */
+  private static async findMissingItems(recipe: RecipeInput): Promise<number[]> {
+    const itemIds = [...recipe.inputs, ...recipe.outputs].map(entry => entry.itemId);
+    const known = new Set(
+      (await prisma.item.findMany({ where: { id: { in: itemIds } }, select: { id: true } }))
+        .map(item => item.id)
+    );
+    return [...new Set(itemIds.filter(id => !known.has(id)))];
+  }
+
+  /**
+   * Converts recipe inputs and outputs to item rows for storage
+   *
+   * @param recipe - Recipe input
+   * @returns Rows with their role and quantity
+   */
+  private static toItemRows(recipe: RecipeInput) {
+    return [
+      ...recipe.inputs.map(entry => ({ itemId: entry.itemId, role: 'input', quantity: entry.quantity ?? 1 })),
+      ...recipe.outputs.map(entry => ({ itemId: entry.itemId, role: 'output', quantity: entry.quantity ?? 1 })),
+    ];
+  }
+
+  /**
+   * Converts a database record to the API recipe shape
+   *
+   * @param record - Recipe record with its items
+   * @returns Recipe with inputs and outputs split by role
+   */
+  private static toRecipe(record: RecipeRecord): ProcessingRecipe {
+    const toItems = (role: string) =>
+      record.items
+        .filter(row => row.role === role)
+        .map(row => ({ itemId: row.itemId, name: row.item.name, quantity: row.quantity }));
+
+    return {
+      id: record.id,
+      name: record.name,
+      kind: record.kind as RecipeKind,
+      builtIn: record.builtIn,
+      secondsPerAction: record.secondsPerAction ?? undefined,
+      inputs: toItems('input'),
+      outputs: toItems('output'),
+    };
+  }
+}
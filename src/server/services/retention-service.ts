@@ -0,0 +1,233 @@
+import prisma from '../../lib/database.js';
+import {
+  bucketStart,
+  downsamplePrices,
+  PriceAggregate,
+  HOUR_MS,
+  DAY_MS,
+  RAW_VOLUME_INTERVAL_MS,
+} from '../../lib/downsampling.js';
+import { Market } from '../../types/api.js';
+import { MARKETS } from './market-data.js';
+
+/**
+ * Maximum number of buckets rolled up per resolution in one run
+ * Limits the work done by a single run after long downtime; the remaining
+ * buckets are picked up by the following runs.
+ */
+const MAX_BUCKETS_PER_RUN = 168;
+
+/**
+ * Result of a retention run
+ */
+export interface RetentionResult {
+  hourlyCreated: number;  // 1h aggregates written from raw prices
+  rawPruned: number;      // Raw Price rows deleted
+  dailyCreated: number;   // 1d aggregates written from hourly rows
+  hourlyPruned: number;   // 1h PriceHistory rows deleted
+  volumeHistoryPruned: number; // VolumeHistory rows deleted
+  snapshotsPruned: number; // PortfolioSnapshot rows (with their entries) deleted
+}
+
+/**
+ * Reads a positive number from an environment variable
+ */
+function readPositiveNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Retention Service
+ *
+ * Keeps the price tables bounded. Raw Price rows older than
+ * PRICE_RETENTION_HOURS (default 48) are rolled up into hourly PriceHistory
+ * aggregates and deleted; hourly aggregates older than HOURLY_RETENTION_DAYS
+ * (default 30) are rolled up into daily aggregates and deleted. Aggregates
+ * keep the average, minimum and maximum high/low prices and the volume,
+ * and are built separately for each market. 24h volume history captures
+ * older than VOLUME_HISTORY_DAYS (default 30) and recorded portfolio
+ * suggestions older than SUGGESTION_RETENTION_DAYS (default 30) are deleted.
+ *
+ * Each bucket is written and pruned in a single transaction, so an
+ * interrupted run never loses data. Aggregates that already exist (for
+ * example hourly rows from the /timeseries backfill) are kept.
+ */
+export class RetentionService {
+  /**
+   * Age in hours after which raw prices are downsampled to hourly rows
+   */
+  static getRawRetentionHours(): number {
+    return readPositiveNumber('PRICE_RETENTION_HOURS', 48);
+  }
+
+  /**
+   * Age in days after which hourly rows are downsampled to daily rows
+   */
+  static getHourlyRetentionDays(): number {
+    return readPositiveNumber('HOURLY_RETENTION_DAYS', 30);
+  }
+
+  /**
+   * Age in days after which 24h volume history captures are deleted
+   */
+  static getVolumeHistoryDays(): number {
+    return readPositiveNumber('VOLUME_HISTORY_DAYS', 30);
+  }
+
+  /**
+   * Age in days after which recorded portfolio suggestions are deleted
+   */
+  static getSuggestionRetentionDays(): number {
+    return readPositiveNumber('SUGGESTION_RETENTION_DAYS', 30);
+  }
+
+  /**
+   * Downsamples and prunes data older than the configured retention ages
+   *
+   * @param now - Reference time (default: current time)
+   * @returns Number of aggregates created and rows pruned
+   */
+  static async run(now: Date = new Date()): Promise<RetentionResult> {
+    const result: RetentionResult = {
+      hourlyCreated: 0,
+      rawPruned: 0,
+      dailyCreated: 0,
+      hourlyPruned: 0,
+      volumeHistoryPruned: 0,
+      snapshotsPruned: 0,
+    };
+
+    try {
+      const rawCutoff = bucketStart(
+        new Date(now.getTime() - this.getRawRetentionHours() * HOUR_MS),
+        HOUR_MS
+      );
+      for (let i = 0; i < MAX_BUCKETS_PER_RUN; i++) {
+        const oldest = await prisma.price.findFirst({
+          where: { timestamp: { lt: rawCutoff } },
+          orderBy: { timestamp: 'asc' },
+          select: { timestamp: true },
+        });
+        if (!oldest) break;
+
+        const { created, pruned } = await this.rollUpRawHour(bucketStart(oldest.timestamp, HOUR_MS));
+        result.hourlyCreated += created;
+        result.rawPruned += pruned;
+      }
+
+      const hourlyCutoff = bucketStart(
+        new Date(now.getTime() - this.getHourlyRetentionDays() * DAY_MS),
+        DAY_MS
+      );
+      for (let i = 0; i < MAX_BUCKETS_PER_RUN; i++) {
+        const oldest = await prisma.priceHistory.findFirst({
+          where: { resolution: '1h', date: { lt: hourlyCutoff } },
+          orderBy: { date: 'asc' },
+          select: { date: true },
+        });
+        if (!oldest) break;
+
+        const { created, pruned } = await this.rollUpHourlyDay(bucketStart(oldest.date, DAY_MS));
+        result.dailyCreated += created;
+        result.hourlyPruned += pruned;
+      }
+
+      const { count: volumeHistoryPruned } = await prisma.volumeHistory.deleteMany({
+        where: { capturedAt: { lt: new Date(now.getTime() - this.getVolumeHistoryDays() * DAY_MS) } },
+      });
+      result.volumeHistoryPruned = volumeHistoryPruned;
+
+      // Suggestion entries are deleted with their snapshot
+      const { count: snapshotsPruned } = await prisma.portfolioSnapshot.deleteMany({
+        where: { createdAt: { lt: new Date(now.getTime() - this.getSuggestionRetentionDays() * DAY_MS) } },
+      });
+      result.snapshotsPruned = snapshotsPruned;
+
+      console.log(
+        `Retention: ${result.hourlyCreated} hourly and ${result.dailyCreated} daily aggregates created, ` +
+        `${result.rawPruned} raw, ${result.hourlyPruned} hourly, ` +
+        `${result.volumeHistoryPruned} volume history and ${result.snapshotsPruned} suggestion rows pruned`
+      );
+    } catch (error) {
+      console.error('Price retention run failed:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Rolls one hour of raw prices up into hourly aggregates and deletes them
+   */
+  private static async rollUpRawHour(start: Date): Promise<{ created: number; pruned: number }> {
+    const end = new Date(start.getTime() + HOUR_MS);
+    const prices = await prisma.price.findMany({
+      where: { timestamp: { gte: start, lt: end } },
+      select: { itemId: true, market: true, timestamp: true, high: true, low: true, volume: true },
+    });
+
+    // Each market is aggregated separately
+    const rows = [];
+    for (const market of MARKETS) {
+      const aggregates = downsamplePrices(
+        prices.filter(price => price.market === market),
+        HOUR_MS,
+        RAW_VOLUME_INTERVAL_MS
+      );
+      rows.push(...await this.withoutExisting(aggregates, '1h', start, market));
+    }
+
+    const [, { count: pruned }] = await prisma.$transaction([
+      prisma.priceHistory.createMany({ data: rows }),
+      prisma.price.deleteMany({ where: { timestamp: { gte: start, lt: end } } }),
+    ]);
+    return { created: rows.length, pruned };
+  }
+
+  /**
+   * Rolls one day of hourly aggregates up into daily aggregates and deletes them
+   */
+  private static async rollUpHourlyDay(start: Date): Promise<{ created: number; pruned: number }> {
+    const end = new Date(start.getTime() + DAY_MS);
+    const where = { resolution: '1h', date: { gte: start, lt: end } };
+    const hourly = await prisma.priceHistory.findMany({ where });
+
+    const rows = [];
+    for (const market of MARKETS) {
+      const aggregates = downsamplePrices(
+        hourly
+          .filter(h => h.market === market)
+          .map(h => ({ ...h, timestamp: h.date, high: h.avgHigh, low: h.avgLow })),
+        DAY_MS
+      );
+      rows.push(...await this.withoutExisting(aggregates, '1d', start, market));
+    }
+
+    const [, { count: pruned }] = await prisma.$transaction([
+      prisma.priceHistory.createMany({ data: rows }),
+      prisma.priceHistory.deleteMany({ where }),
+    ]);
+    return { created: rows.length, pruned };
+  }
+
+  /**
+   * Drops aggregates that are already stored for the market and maps the
+   * rest to PriceHistory rows
+   */
+  private static async withoutExisting(
+    aggregates: PriceAggregate[],
+    resolution: string,
+    date: Date,
+    market: Market
+  ) {
+    const existing = await prisma.priceHistory.findMany({
+      where: { resolution, date, market },
+      select: { itemId: true },
+    });
+    const existingIds = new Set(existing.map(e => e.itemId));
+
+    return aggregates
+      .filter(aggregate => !existingIds.has(aggregate.itemId))
+      .map(aggregate => ({ ...aggregate, resolution, market }));
+  }
+}
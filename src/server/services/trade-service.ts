@@ -0,0 +1,284 @@
+import prisma from '../../lib/database.js';
+import { Market, Trade, TradeLeg, TradeSide } from '../../types/api.js';
+import { calculateRealizedProfit, BUY_LIMIT_WINDOW_HOURS } from '../../lib/calculations.js';
+import { DEFAULT_MARKET } from './market-data.js';
+
+/**
+ * Input shape for recording a new trade leg
+ */
+export interface TradeLegInput {
+  side: TradeSide;
+  price: number;
+  quantity: number;
+  timestamp?: Date;
+}
+
+/**
+ * Trade record as loaded from the database with its item and legs
+ */
+type TradeRecord = {
+  id: number;
+  itemId: number;
+  accountId: number | null;
+  note: string | null;
+  market: string;
+  createdAt: Date;
+  updatedAt: Date;
+  item: { name: string };
+  legs: { id: number; side: string; price: number; quantity: number; timestamp: Date }[];
+};
+
+/**
+ * Relations loaded alongside every trade
+ */
+const TRADE_INCLUDE = {
+  item: { select: { name: true } },
+  legs: { orderBy: { timestamp: 'asc' as const } },
+};
+
+/**
+ * Trade Service
+ *
+ * Manages the trade journal: the buys and sells that were actually made
+ * when following the tracker's suggestions. Each trade groups the fills
+ * (legs) for one item, and realized profit is derived from those legs
+ * using the same GE tax rules as the opportunity calculations. Every
+ * trade belongs to one market, since buy limits and prices are separate
+ * per game mode.
+ */
+export class TradeService {
+  /**
+   * Lists the trades recorded on a market, most recent first
+   *
+   * @param market - Market to list trades for (default: DEFAULT_MARKET)
+   * @returns Array of trades with realized profit metrics
+   */
+  static async listTrades(market: Market = DEFAULT_MARKET): Promise<Trade[]> {
+    try {
+      const records = await prisma.trade.findMany({
+        where: { market },
+        include: TRADE_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      });
+      return records.map(record => this.toTrade(record));
+    } catch (error) {
+      console.error('Failed to list trades:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a single trade by ID
+   *
+   * @param id - Trade ID
+   * @returns The trade, or null if it does not exist
+   */
+  static async getTrade(id: number): Promise<Trade | null> {
+    try {
+      const record = await prisma.trade.findUnique({
+        where: { id },
+        include: TRADE_INCLUDE,
+      });
+      return record ? this.toTrade(record) : null;
+    } catch (error) {
+      console.error(`Failed to get trade ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a new trade for an item with optional initial legs
+   *
+   * @param input - Item ID, optional account, market and note, and the fills made so far
+   * @returns The created trade, or null if the item does not exist
+   */
+  static async createTrade(input: {
+    itemId: number;
+    accountId?: number;
+    market?: Market;
+    note?: string;
+    legs?: TradeLegInput[];
+  }): Promise<Trade | null> {
+    try {
+      const item = await prisma.item.findUnique({ where: { id: input.itemId } });
+      if (!item) return null;
+
+      const record = await prisma.trade.create({
+        data: {
+          itemId: input.itemId,
+          accountId: input.accountId,
+          market: input.market ?? DEFAULT_MARKET,
+          note: input.note,
+          legs: {
+            create: (input.legs || []).map(leg => ({
+              side: leg.side,
+              price: leg.price,
+              quantity: leg.quantity,
+              timestamp: leg.timestamp,
+            })),
+          },
+        },
+        include: TRADE_INCLUDE,
+      });
+      return this.toTrade(record);
+    } catch (error) {
+      console.error('Failed to create trade:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the note attached to a trade
+   *
+   * @param id - Trade ID
+   * @param note - New note text (null clears it)
+   * @returns The updated trade, or null if it does not exist
+   */
+  static async updateTrade(id: number, note: string | null): Promise<Trade | null> {
+    try {
+      const existing = await prisma.trade.findUnique({ where: { id } });
+      if (!existing) return null;
+
+      const record = await prisma.trade.update({
+        where: { id },
+        data: { note },
+        include: TRADE_INCLUDE,
+      });
+      return this.toTrade(record);
+    } catch (error) {
+      console.error(`Failed to update trade ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a trade and all of its legs
+   *
+   * @param id - Trade ID
+   * @returns Whether a trade was deleted
+   */
+  static async deleteTrade(id: number): Promise<boolean> {
+    try {
+      const { count } = await prisma.trade.deleteMany({ where: { id } });
+      return count > 0;
+    } catch (error) {
+      console.error(`Failed to delete trade ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records an additional fill against an existing trade
+   *
+   * @param tradeId - Trade ID
+   * @param leg - Fill side, price, quantity and optional timestamp
+   * @returns The updated trade, or null if it does not exist
+   */
+  static async addLeg(tradeId: number, leg: TradeLegInput): Promise<Trade | null> {
+    try {
+      const existing = await prisma.trade.findUnique({ where: { id: tradeId } });
+      if (!existing) return null;
+
+      await prisma.tradeLeg.create({
+        data: {
+          tradeId,
+          side: leg.side,
+          price: leg.price,
+          quantity: leg.quantity,
+          timestamp: leg.timestamp,
+        },
+      });
+      return this.getTrade(tradeId);
+    } catch (error) {
+      console.error(`Failed to add leg to trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a single fill from a trade
+   *
+   * @param tradeId - Trade ID
+   * @param legId - Leg ID
+   * @returns The updated trade, or null if the trade or leg does not exist
+   */
+  static async deleteLeg(tradeId: number, legId: number): Promise<Trade | null> {
+    try {
+      const { count } = await prisma.tradeLeg.deleteMany({
+        where: { id: legId, tradeId },
+      });
+      if (count === 0) return null;
+      return this.getTrade(tradeId);
+    } catch (error) {
+      console.error(`Failed to delete leg ${legId} from trade ${tradeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads buy fills that still count against GE buy limits
+   *
+   * Trades without an account belong to the default profile, so passing
+   * null returns the buys recorded without an account. Buy limits apply
+   * per market, so only trades on the given market count.
+   *
+   * @param accountId - Account ID, or null for trades without an account
+   * @param now - End of the buy limit window (default: current time)
+   * @param market - Market whose buys count (default: DEFAULT_MARKET)
+   * @returns Buy fills within the window grouped by item ID
+   */
+  static async getRecentBuys(
+    accountId: number | null,
+    now: Date = new Date(),
+    market: Market = DEFAULT_MARKET
+  ): Promise<Map<number, { quantity: number; timestamp: Date }[]>> {
+    try {
+      const since = new Date(now.getTime() - BUY_LIMIT_WINDOW_HOURS * 60 * 60 * 1000);
+      const legs = await prisma.tradeLeg.findMany({
+        where: {
+          side: 'buy',
+          timestamp: { gt: since, lte: now },
+          trade: { accountId, market },
+        },
+        select: { quantity: true, timestamp: true, trade: { select: { itemId: true } } },
+      });
+
+      const buysByItem = new Map<number, { quantity: number; timestamp: Date }[]>();
+      for (const leg of legs) {
+        const list = buysByItem.get(leg.trade.itemId) || [];
+        list.push({ quantity: leg.quantity, timestamp: leg.timestamp });
+        buysByItem.set(leg.trade.itemId, list);
+      }
+      return buysByItem;
+    } catch (error) {
+      console.error('Failed to load recent buys:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Converts a database record into the API trade shape with profit metrics
+   */
+  private static toTrade(record: TradeRecord): Trade {
+    const legs: TradeLeg[] = record.legs.map(leg => ({
+      id: leg.id,
+      side: leg.side as TradeSide,
+      price: leg.price,
+      quantity: leg.quantity,
+      timestamp: leg.timestamp,
+    }));
+
+    return {
+      id: record.id,
+      itemId: record.itemId,
+      itemName: record.item.name,
+      accountId: record.accountId ?? undefined,
+      market: record.market as Market,
+      note: record.note || undefined,
+      legs,
+      ...calculateRealizedProfit(legs),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
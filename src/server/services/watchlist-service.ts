@@ -0,0 +1,227 @@
+import prisma from '../../lib/database.js';
+import { Market, WatchlistEntry } from '../../types/api.js';
+import { calculatePriceAge } from '../../lib/calculations.js';
+import { evaluateWatchlistPrices } from '../../lib/watchlist.js';
+import { DEFAULT_MARKET } from './market-data.js';
+import { PriceService } from './price-service.js';
+
+/**
+ * Input shape for adding or updating a watchlist entry
+ *
+ * `null` clears the note or a target on update.
+ */
+export interface WatchlistInput {
+  itemId: number;
+  note?: string | null;
+  targetBuy?: number | null;
+  targetSell?: number | null;
+}
+
+/**
+ * Includes the item and its latest price in a market with each watchlist record
+ *
+ * @param market - Market to read prices from
+ */
+const watchlistInclude = (market: Market) => ({
+  item: {
+    include: { prices: { where: { market }, orderBy: { timestamp: 'desc' as const }, take: 1 } },
+  },
+});
+
+/**
+ * Watchlist record as loaded from the database with its item and latest price
+ */
+type WatchlistRecord = {
+  id: number;
+  itemId: number;
+  market: string;
+  note: string | null;
+  targetBuy: number | null;
+  targetSell: number | null;
+  createdAt: Date;
+  item: {
+    name: string;
+    icon: string | null;
+    buyLimit: number;
+    prices: {
+      high: number | null;
+      low: number | null;
+      highTime: Date | null;
+      lowTime: Date | null;
+      timestamp: Date;
+    }[];
+  };
+};
+
+/**
+ * Watchlist Service
+ *
+ * Stores the items a user trades regularly, with a note and optional buy
+ * and sell targets, and reports their live margin. Each market has its own
+ * watchlist, since targets are prices on that market. Watched items bypass the
+ * volume, volatility and stale price filters used for opportunities.
+ */
+export class WatchlistService {
+  /**
+   * Lists the watchlist of a market with live prices
+   *
+   * @param market - Market whose watchlist to list (default: DEFAULT_MARKET)
+   * @returns Watchlist entries, ordered by item name
+   */
+  static async listEntries(market: Market = DEFAULT_MARKET): Promise<WatchlistEntry[]> {
+    try {
+      const records = await prisma.watchlist.findMany({
+        where: { market },
+        include: watchlistInclude(market),
+        orderBy: { item: { name: 'asc' } },
+      });
+      const { volumes } = await PriceService.getVolumeSnapshot('24h', market);
+      const now = new Date();
+      return records.map(record => this.toEntry(record, volumes[record.itemId] || 0, now));
+    } catch (error) {
+      console.error('Failed to list watchlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether an item is already on the watchlist of a market
+   *
+   * @param itemId - Item ID
+   * @param market - Market to check (default: DEFAULT_MARKET)
+   * @returns Whether the item is watched
+   */
+  static async isWatched(itemId: number, market: Market = DEFAULT_MARKET): Promise<boolean> {
+    try {
+      return (await prisma.watchlist.count({ where: { itemId, market } })) > 0;
+    } catch (error) {
+      console.error(`Failed to check watchlist for item ${itemId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds an item to the watchlist of a market
+   *
+   * @param input - Item, note and price targets
+   * @param market - Market the entry belongs to (default: DEFAULT_MARKET)
+   * @returns The created entry, or null if the item does not exist
+   */
+  static async addEntry(
+    input: WatchlistInput,
+    market: Market = DEFAULT_MARKET
+  ): Promise<WatchlistEntry | null> {
+    try {
+      const item = await prisma.item.findUnique({ where: { id: input.itemId } });
+      if (!item) return null;
+
+      const record = await prisma.watchlist.create({
+        data: {
+          itemId: input.itemId,
+          market,
+          note: input.note,
+          targetBuy: input.targetBuy,
+          targetSell: input.targetSell,
+        },
+        include: watchlistInclude(market),
+      });
+      return this.withLiveVolume(record, market);
+    } catch (error) {
+      console.error('Failed to add watchlist entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the note or price targets of a watchlist entry
+   *
+   * @param id - Entry ID
+   * @param input - Fields to change
+   * @param market - Market the entry belongs to (default: DEFAULT_MARKET)
+   * @returns The updated entry, or null if it does not exist on that market
+   */
+  static async updateEntry(
+    id: number,
+    input: Omit<WatchlistInput, 'itemId'>,
+    market: Market = DEFAULT_MARKET
+  ): Promise<WatchlistEntry | null> {
+    try {
+      const existing = await prisma.watchlist.findFirst({ where: { id, market } });
+      if (!existing) return null;
+
+      const record = await prisma.watchlist.update({
+        where: { id },
+        data: {
+          note: input.note,
+          targetBuy: input.targetBuy,
+          targetSell: input.targetSell,
+        },
+        include: watchlistInclude(market),
+      });
+      return this.withLiveVolume(record, market);
+    } catch (error) {
+      console.error(`Failed to update watchlist entry ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes an item from the watchlist
+   *
+   * @param id - Entry ID
+   * @returns Whether an entry was deleted
+   */
+  static async deleteEntry(id: number): Promise<boolean> {
+    try {
+      const { count } = await prisma.watchlist.deleteMany({ where: { id } });
+      return count > 0;
+    } catch (error) {
+      console.error(`Failed to delete watchlist entry ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Converts a single record to an entry, loading its 24h volume
+   *
+   * @param record - Watchlist record with its item and latest price
+   * @param market - Market to read the volume from
+   * @returns Watchlist entry with live prices
+   */
+  private static async withLiveVolume(record: WatchlistRecord, market: Market): Promise<WatchlistEntry> {
+    const { volumes } = await PriceService.getVolumeSnapshot('24h', market);
+    return this.toEntry(record, volumes[record.itemId] || 0, new Date());
+  }
+
+  /**
+   * Converts a database record to the API entry shape
+   *
+   * @param record - Watchlist record with its item and latest price
+   * @param volume - 24h trading volume of the item
+   * @param now - Reference time for price ages
+   * @returns Watchlist entry with live margin and target status
+   */
+  private static toEntry(record: WatchlistRecord, volume: number, now: Date): WatchlistEntry {
+    const latest = record.item.prices[0];
+    const status = evaluateWatchlistPrices(latest?.high, latest?.low, record.targetBuy, record.targetSell);
+
+    return {
+      id: record.id,
+      itemId: record.itemId,
+      market: record.market as Market,
+      name: record.item.name,
+      icon: record.item.icon || undefined,
+      buyLimit: record.item.buyLimit,
+      note: record.note ?? undefined,
+      targetBuy: record.targetBuy ?? undefined,
+      targetSell: record.targetSell ?? undefined,
+      high: latest?.high ?? undefined,
+      low: latest?.low ?? undefined,
+      ...status,
+      volume,
+      priceAge: latest ? calculatePriceAge(latest.highTime, latest.lowTime, now) : undefined,
+      lastUpdated: latest?.timestamp,
+      createdAt: record.createdAt,
+    };
+  }
+}
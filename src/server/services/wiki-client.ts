@@ -0,0 +1,331 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { DEFAULT_FIXTURES_DIR, WikiApiMode, readFixture, writeFixture } from './wiki-fixtures.js';
+
+/**
+ * Wiki API Client
+ *
+ * HTTP client layer for the RuneScape Wiki prices API. All requests share
+ * one token-bucket rate limiter, failed requests are retried with
+ * exponential backoff and jitter on 429, 5xx and network errors, and
+ * responses are cached by URL so repeated requests are sent as conditional
+ * requests (If-None-Match / If-Modified-Since) and a 304 reuses the cached
+ * body. Failures are thrown as WikiApiError subclasses.
+ *
+ * In replay mode responses come from recorded fixtures instead of the
+ * network, and in record mode every live response is saved as a fixture.
+ */
+
+/**
+ * Base class for Wiki API failures
+ */
+export class WikiApiError extends Error {
+  constructor(
+    message: string,
+    readonly endpoint: string,
+    readonly status?: number,
+    readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'WikiApiError';
+  }
+}
+
+/**
+ * The API answered 429 Too Many Requests
+ */
+export class WikiRateLimitError extends WikiApiError {
+  constructor(endpoint: string, readonly retryAfterMs?: number) {
+    super(`Wiki API rate limited ${endpoint}`, endpoint, 429, true);
+    this.name = 'WikiRateLimitError';
+  }
+}
+
+/**
+ * The API answered with a 5xx status
+ */
+export class WikiServerError extends WikiApiError {
+  constructor(endpoint: string, status: number) {
+    super(`Wiki API server error ${status} for ${endpoint}`, endpoint, status, true);
+    this.name = 'WikiServerError';
+  }
+}
+
+/**
+ * The request timed out or no response was received
+ */
+export class WikiNetworkError extends WikiApiError {
+  constructor(endpoint: string, reason: string) {
+    super(`Wiki API request to ${endpoint} failed: ${reason}`, endpoint, undefined, true);
+    this.name = 'WikiNetworkError';
+  }
+}
+
+/**
+ * The API rejected the request with a 4xx status other than 429;
+ * retrying will not help
+ */
+export class WikiRequestError extends WikiApiError {
+  constructor(endpoint: string, status: number) {
+    super(`Wiki API rejected ${endpoint} with status ${status}`, endpoint, status, false);
+    this.name = 'WikiRequestError';
+  }
+}
+
+/**
+ * Replay mode has no recorded response for the endpoint
+ */
+export class WikiFixtureMissingError extends WikiApiError {
+  constructor(endpoint: string, fixturesDir: string) {
+    super(`No recorded Wiki API fixture for ${endpoint} in ${fixturesDir}`, endpoint, 404, false);
+    this.name = 'WikiFixtureMissingError';
+  }
+}
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token-bucket rate limiter
+ *
+ * Holds up to `capacity` tokens, refilled continuously at `refillPerSecond`.
+ * Each request takes one token and waits when the bucket is empty, which
+ * allows short bursts while capping the sustained request rate.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+    private readonly now: () => number = Date.now,
+    private readonly wait: (ms: number) => Promise<void> = sleep
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Takes a token if one is available
+   *
+   * @returns Whether a token was taken
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Takes a token, waiting until one is available
+   */
+  async take(): Promise<void> {
+    while (!this.tryTake()) {
+      await this.wait(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+
+  /**
+   * Adds the tokens earned since the last refill
+   */
+  private refill(): void {
+    const now = this.now();
+    const elapsedSeconds = Math.max(now - this.lastRefill, 0) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Calculates the delay before a retry using exponential backoff with full jitter
+ *
+ * @param attempt - Number of the retry (0 for the first retry)
+ * @param baseDelayMs - Delay cap for the first retry
+ * @param maxDelayMs - Upper bound for any delay
+ * @param random - Random source in [0, 1) (default: Math.random)
+ * @returns Delay in milliseconds, between 0 and min(maxDelayMs, baseDelayMs * 2^attempt)
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  return Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Options for a Wiki API client
+ */
+export interface WikiClientOptions {
+  baseURL: string;
+  userAgent: string;
+  timeoutMs?: number;          // Per-request timeout (default: 30000)
+  maxRetries?: number;         // Retries after the first attempt (default: 4)
+  baseDelayMs?: number;        // Backoff delay cap for the first retry (default: 500)
+  maxDelayMs?: number;         // Upper bound for backoff delays (default: 30000)
+  rateLimit?: {
+    capacity: number;          // Burst size (default: 5)
+    refillPerSecond: number;   // Sustained requests per second (default: 2)
+  };
+  limiter?: TokenBucket;       // Limiter shared with other clients (overrides rateLimit)
+  maxCacheEntries?: number;    // Cached responses kept for conditional requests (default: 200)
+  mode?: WikiApiMode;          // live, record or replay (default: live)
+  fixturesDir?: string;        // Fixture directory for record and replay (default: DEFAULT_FIXTURES_DIR)
+}
+
+/**
+ * Cached response used for conditional requests
+ */
+interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  data: unknown;
+}
+
+/**
+ * Wiki API client with rate limiting, retries and conditional requests
+ */
+export class WikiClient {
+  private readonly http: AxiosInstance;
+  private readonly limiter: TokenBucket;
+  private readonly cache = new Map<string, CachedResponse>();
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxCacheEntries: number;
+  readonly mode: WikiApiMode;
+  readonly fixturesDir: string;
+
+  constructor(options: WikiClientOptions) {
+    this.http = axios.create({
+      baseURL: options.baseURL,
+      headers: { 'User-Agent': options.userAgent },
+      timeout: options.timeoutMs ?? 30000,
+      // Statuses are classified by the client instead of axios
+      validateStatus: () => true,
+    });
+    const { capacity, refillPerSecond } = options.rateLimit ?? { capacity: 5, refillPerSecond: 2 };
+    this.limiter = options.limiter ?? new TokenBucket(capacity, refillPerSecond);
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.maxCacheEntries = options.maxCacheEntries ?? 200;
+    this.mode = options.mode ?? 'live';
+    this.fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  }
+
+  /**
+   * Sends a GET request
+   *
+   * Retryable failures (429, 5xx, timeouts and connection errors) are
+   * retried up to `maxRetries` times. A 429 waits at least as long as its
+   * Retry-After header asks. Replay mode reads the endpoint's fixture
+   * instead, and record mode saves each successful response.
+   *
+   * @param path - Path relative to the base URL
+   * @param params - Query parameters (optional)
+   * @returns Response body, or the cached body when the server answers 304
+   * @throws WikiApiError subclass once the request fails for good
+   */
+  async get<T>(path: string, params?: Record<string, string | number>): Promise<T> {
+    const query = params
+      ? new URLSearchParams(Object.entries(params).map(([k, v]): [string, string] => [k, String(v)]))
+      : null;
+    const endpoint = query ? `${path}?${query}` : path;
+
+    if (this.mode === 'replay') {
+      const data = await readFixture(this.fixturesDir, endpoint);
+      if (data === undefined) throw new WikiFixtureMissingError(endpoint, this.fixturesDir);
+      return data as T;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.send<T>(endpoint);
+        if (this.mode === 'record') {
+          // A failed write should not fail the live request
+          await writeFixture(this.fixturesDir, endpoint, data).catch(error =>
+            console.warn(`Failed to record Wiki API fixture for ${endpoint}:`, error)
+          );
+        }
+        return data;
+      } catch (error) {
+        if (!(error instanceof WikiApiError) || !error.retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const backoff = calculateBackoffDelay(attempt, this.baseDelayMs, this.maxDelayMs);
+        const delay = error instanceof WikiRateLimitError && error.retryAfterMs
+          ? Math.max(error.retryAfterMs, backoff)
+          : backoff;
+        console.warn(`${error.message}; retry ${attempt + 1}/${this.maxRetries} in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Sends one rate-limited, conditional request
+   *
+   * @param endpoint - Path with query string
+   * @returns Response body
+   * @throws WikiApiError subclass describing the failure
+   */
+  private async send<T>(endpoint: string): Promise<T> {
+    await this.limiter.take();
+
+    const cached = this.cache.get(endpoint);
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    let response: AxiosResponse;
+    try {
+      response = await this.http.get(endpoint, { headers });
+    } catch (error) {
+      const reason = axios.isAxiosError(error) ? error.code || error.message : String(error);
+      throw new WikiNetworkError(endpoint, reason);
+    }
+
+    const { status } = response;
+    if (status === 304 && cached) {
+      // Refresh the entry's position so frequently used responses stay cached
+      this.cache.delete(endpoint);
+      this.cache.set(endpoint, cached);
+      return cached.data as T;
+    }
+    if (status === 429) {
+      const retryAfter = parseFloat(response.headers['retry-after']);
+      throw new WikiRateLimitError(endpoint, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+    }
+    if (status >= 500) throw new WikiServerError(endpoint, status);
+    if (status < 200 || status >= 300) throw new WikiRequestError(endpoint, status);
+
+    this.remember(endpoint, response);
+    return response.data as T;
+  }
+
+  /**
+   * Caches a response that carries validators for conditional requests
+   *
+   * The oldest entry is evicted once the cache is full.
+   *
+   * @param endpoint - Path with query string
+   * @param response - Successful response
+   */
+  private remember(endpoint: string, response: AxiosResponse): void {
+    const etag = response.headers['etag'];
+    const lastModified = response.headers['last-modified'];
+    this.cache.delete(endpoint);
+    if (!etag && !lastModified) return;
+
+    this.cache.set(endpoint, { etag, lastModified, data: response.data });
+    if (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { OSRSLatestPrices } from '../../types/api.js';
+
+/**
+ * Wiki API Fixtures
+ *
+ * Recorded Wiki API responses stored as JSON files, used by the Wiki
+ * client's replay mode for offline development and tests, and written by
+ * its record mode. Each file holds the raw response body of one endpoint.
+ */
+
+/**
+ * How the Wiki client obtains responses
+ *
+ * - live: request the Wiki API
+ * - record: request the Wiki API and save every response as a fixture
+ * - replay: serve responses from fixtures without network access
+ */
+export type WikiApiMode = 'live' | 'record' | 'replay';
+
+/**
+ * Supported Wiki API modes
+ */
+export const WIKI_API_MODES: WikiApiMode[] = ['live', 'record', 'replay'];
+
+/**
+ * Default fixture directory, shipped with a small recorded data set
+ */
+export const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('../data/wiki-fixtures', import.meta.url));
+
+/**
+ * Resolves the Wiki API mode from an environment value
+ *
+ * @param value - Value of WIKI_API_MODE (optional)
+ * @returns The mode (default: live)
+ * @throws Error if the value names an unknown mode
+ */
+export function resolveWikiApiMode(value?: string): WikiApiMode {
+  if (!value) return 'live';
+  if (!WIKI_API_MODES.includes(value as WikiApiMode)) {
+    throw new Error(`WIKI_API_MODE must be one of: ${WIKI_API_MODES.join(', ')}`);
+  }
+  return value as WikiApiMode;
+}
+
+/**
+ * Maps an endpoint to its fixture file name
+ *
+ * "/mapping" becomes "mapping.json" and "/timeseries?id=4151&timestep=1h"
+ * becomes "timeseries__id-4151_timestep-1h.json".
+ *
+ * @param endpoint - Path with optional query string
+ * @returns File name within the fixture directory
+ */
+export function fixtureFileName(endpoint: string): string {
+  const [path, query] = endpoint.replace(/^\/+/, '').split('?');
+  const base = path.replace(/[^a-zA-Z0-9]+/g, '-');
+  if (!query) return `${base}.json`;
+
+  const params = query.split('&').map(pair => pair.replace(/[^a-zA-Z0-9]+/g, '-'));
+  return `${base}__${params.join('_')}.json`;
+}
+
+/**
+ * Reads the recorded response for an endpoint
+ *
+ * @param dir - Fixture directory
+ * @param endpoint - Path with optional query string
+ * @returns The recorded response body, or undefined if there is none
+ */
+export async function readFixture(dir: string, endpoint: string): Promise<unknown | undefined> {
+  try {
+    return JSON.parse(await readFile(join(dir, fixtureFileName(endpoint)), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Saves a response as the fixture for an endpoint
+ *
+ * @param dir - Fixture directory (created if missing)
+ * @param endpoint - Path with optional query string
+ * @param data - Response body
+ */
+export async function writeFixture(dir: string, endpoint: string, data: unknown): Promise<void> {
+  const file = join(dir, fixtureFileName(endpoint));
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/**
+ * Moves replayed latest prices to the present
+ *
+ * Recorded trade times are absolute, so replayed prices would become
+ * stale shortly after recording. All times are shifted by the same
+ * offset so that the newest trade happened at `now`, keeping the gaps
+ * between items and sides as recorded.
+ *
+ * @param prices - Recorded /latest data
+ * @param now - Time the newest trade is moved to (default: current time)
+ * @returns Prices with shifted highTime/lowTime (in seconds)
+ */
+export function shiftLatestPrices(prices: OSRSLatestPrices, now: Date = new Date()): OSRSLatestPrices {
+  const times = Object.values(prices)
+    .flatMap(price => [price.highTime, price.lowTime])
+    .filter((time): time is number => typeof time === 'number');
+  if (times.length === 0) return prices;
+
+  const offset = Math.floor(now.getTime() / 1000) - Math.max(...times);
+  const shift = (time?: number) => (typeof time === 'number' ? time + offset : time);
+
+  return Object.fromEntries(
+    Object.entries(prices).map(([itemId, price]) => [
+      itemId,
+      { ...price, highTime: shift(price.highTime), lowTime: shift(price.lowTime) },
+    ])
+  );
+}
@@ -0,0 +1,190 @@
+import { join } from 'path';
+import {
+  Market,
+  OSRSItem,
+  OSRSLatestPrices,
+  OSRSVolumeData,
+  OSRS1hPriceEntry,
+  VolumeWindow,
+} from '../../types/api.js';
+import { MarketDataProvider, TimeseriesStep } from './market-data.js';
+import { TokenBucket, WikiClient } from './wiki-client.js';
+import { DEFAULT_FIXTURES_DIR, resolveWikiApiMode, shiftLatestPrices } from './wiki-fixtures.js';
+
+/**
+ * Wiki Market Data Provider
+ *
+ * This provider handles all interactions with the RuneScape Wiki prices API,
+ * which provides comprehensive market data for Old School RuneScape and its
+ * Deadman Mode and Fresh Start World game modes.
+ *
+ * Requests go through a WikiClient, which rate limits them, retries
+ * transient failures with backoff, and reuses cached responses when the
+ * API answers a conditional request with 304 Not Modified.
+ */
+
+/**
+ * RuneScape Wiki API base URL
+ * Each market is served under its own path, e.g. /osrs/latest or /dmm/latest
+ */
+const BASE_URL = 'https://prices.runescape.wiki/api/v1';
+
+/**
+ * User-Agent header for API requests
+ * The Wiki API requires a descriptive User-Agent to identify the application
+ * This helps them monitor usage and contact developers if needed
+ */
+const USER_AGENT = 'OSRS-GE-Tracker-BoltNew/1.0 (pandpclass@gmail.com)';
+
+/**
+ * Sustained request rate towards the Wiki API
+ * Configurable through WIKI_REQUESTS_PER_SECOND (default: 2)
+ */
+const REQUESTS_PER_SECOND = parseFloat(process.env.WIKI_REQUESTS_PER_SECOND || '') || 2;
+
+/**
+ * Rate limiter shared by the clients of all markets, since they call the same API
+ */
+const limiter = new TokenBucket(5, REQUESTS_PER_SECOND);
+
+/**
+ * Wiki API mode, from WIKI_API_MODE (default: live)
+ */
+const mode = resolveWikiApiMode(process.env.WIKI_API_MODE);
+
+/**
+ * Fixture directory, from WIKI_FIXTURES_DIR (default: src/server/data/wiki-fixtures)
+ */
+const fixturesDir = process.env.WIKI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+/**
+ * Options for a Wiki market data provider
+ */
+export interface WikiMarketDataProviderOptions {
+  baseURL?: string;      // API base URL without the market path (default: BASE_URL)
+  client?: WikiClient;   // Client to use instead of one built from the environment
+}
+
+/**
+ * Wiki Market Data Provider Class
+ *
+ * Fetches the data of one market from the RuneScape Wiki API. Each method
+ * returns typed data for use throughout the application and throws a
+ * WikiApiError subclass when the request fails after retries.
+ */
+export class WikiMarketDataProvider implements MarketDataProvider {
+  private readonly client: WikiClient;
+
+  /**
+   * Creates a provider for a market
+   *
+   * Unless a client is given, the provider's client includes the
+   * User-Agent, a 30 second timeout, the shared rate limiter and retries.
+   * WIKI_API_MODE selects live requests, record or replay; fixtures of the
+   * main game are kept in WIKI_FIXTURES_DIR and those of other markets in
+   * a subdirectory named after the market.
+   *
+   * @param market - Market to fetch data for
+   * @param options - Base URL or client overrides (optional)
+   */
+  constructor(readonly market: Market, options: WikiMarketDataProviderOptions = {}) {
+    this.client = options.client ?? new WikiClient({
+      baseURL: `${options.baseURL ?? BASE_URL}/${market}`,
+      userAgent: USER_AGENT,
+      timeoutMs: 30000,
+      limiter,
+      mode,
+      fixturesDir: market === 'osrs' ? fixturesDir : join(fixturesDir, market),
+    });
+
+    if (this.client.mode !== 'live') {
+      console.log(`Wiki API ${this.client.mode} mode for ${market} using fixtures in ${this.client.fixturesDir}`);
+    }
+  }
+
+  /**
+   * Fetches the complete item mapping from the API
+   *
+   * This endpoint provides metadata for all tradeable items including:
+   * - Item IDs and names
+   * - Buy limits (0 = unlimited)
+   * - Icons and examine text
+   * - Member status
+   * - High/low alchemy values
+   *
+   * @returns Promise resolving to array of OSRS items
+   * @throws WikiApiError if the request fails
+   */
+  async fetchItemMapping(): Promise<OSRSItem[]> {
+    try {
+      return await this.client.get<OSRSItem[]>('/mapping');
+    } catch (error) {
+      console.error(`Failed to fetch ${this.market} item mapping:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the latest price data for all items
+   *
+   * This endpoint provides current market prices including:
+   * - High (sell) and low (buy) prices
+   * - Timestamps for when prices were last updated
+   *
+   * In replay mode the recorded timestamps are moved to the present, so
+   * replayed prices are not treated as stale.
+   *
+   * @returns Promise resolving to latest price data object
+   * @throws WikiApiError if the request fails
+   */
+  async fetchLatestPrices(): Promise<OSRSLatestPrices> {
+    try {
+      const { data } = await this.client.get<{ data: OSRSLatestPrices }>('/latest');
+      return this.client.mode === 'replay' ? shiftLatestPrices(data) : data;
+    } catch (error) {
+      console.error(`Failed to fetch ${this.market} latest prices:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches average prices and trading volumes for all items
+   *
+   * The /5m, /1h and /24h endpoints provide trading volume information for
+   * liquidity analysis. Volume data helps identify which items have
+   * sufficient trading activity for reliable flipping opportunities.
+   *
+   * @param window - Aggregation window
+   * @returns Promise resolving to volume data
+   * @throws WikiApiError if the request fails
+   */
+  async fetchVolumes(window: VolumeWindow): Promise<OSRSVolumeData> {
+    try {
+      return (await this.client.get<{ data: OSRSVolumeData }>(`/${window}`)).data;
+    } catch (error) {
+      console.error(`Failed to fetch ${this.market} ${window} volume data:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches historical price data for a specific item
+   *
+   * This endpoint provides up to 365 data points of average high/low prices
+   * and volumes, used for price analysis, volatility calculations and
+   * bootstrapping the database with recent history.
+   *
+   * @param itemId - The item ID to fetch data for
+   * @param timestep - Time interval between data points
+   * @returns Promise resolving to the item's price history
+   * @throws WikiApiError if the request fails
+   */
+  async fetchTimeseries(itemId: number, timestep: TimeseriesStep): Promise<OSRS1hPriceEntry[]> {
+    try {
+      return (await this.client.get<{ data: OSRS1hPriceEntry[] }>('/timeseries', { id: itemId, timestep })).data;
+    } catch (error) {
+      console.error(`Failed to fetch ${this.market} timeseries for item ${itemId}:`, error);
+      throw error;
+    }
+  }
+}
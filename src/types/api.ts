@@ -58,11 +58,43 @@ export interface OSRSLatestPrices {
  */
 export interface OSRSVolumeData {
   [itemId: string]: {
+    avgHighPrice?: number | null; // Average high price over the window
+    avgLowPrice?: number | null;  // Average low price over the window
     highPriceVolume?: number; // Volume of high price trades
     lowPriceVolume?: number;  // Volume of low price trades
   };
 }
 
+/**
+ * Volume Window Type
+ *
+ * Aggregation windows of the Wiki /5m, /1h and /24h endpoints that are
+ * stored as volume snapshots.
+ */
+export type VolumeWindow = '5m' | '1h' | '24h';
+
+/**
+ * Volume Sides Interface
+ *
+ * Trading volume of one item split by side. Buy volume counts units
+ * instant-bought at the high price, sell volume units instant-sold at
+ * the low price.
+ */
+export interface VolumeSides {
+  buyVolume: number;  // highPriceVolume from the Wiki API
+  sellVolume: number; // lowPriceVolume from the Wiki API
+}
+
+/**
+ * Volume Freshness Interface
+ *
+ * When the stored volume snapshot used for an analysis was captured.
+ */
+export interface VolumeFreshness {
+  volumeUpdatedAt: Date | null; // Capture time of the 24h snapshot (null if none stored)
+  volumeStale: boolean;         // Whether the snapshot is older than the staleness limit
+}
+
 /**
  * Hourly historical price entry returned from the /1h endpoint
  */
@@ -74,6 +106,16 @@ export interface OSRS1hPriceEntry {
   lowPriceVolume?: number;
 }
 
+/**
+ * Market Type
+ *
+ * Game modes with their own Grand Exchange price data:
+ * - osrs: Main game
+ * - dmm: Deadman Mode
+ * - fsw: Fresh Start Worlds
+ */
+export type Market = 'osrs' | 'dmm' | 'fsw';
+
 /**
  * Flip Opportunity Interface
  * 
@@ -96,13 +138,301 @@ export interface FlipOpportunity {
   profitAfterTax: number;  // Total net profit after GE tax
   buyLimit: number;        // GE buy limit for this item (0 = unlimited)
   volume: number;          // Recent trading volume (24h)
+  buyVolume?: number;      // Units instant-bought at the high price (24h, demand a flip sells into)
+  sellVolume?: number;     // Units instant-sold at the low price (24h, supply a flip buys from)
+  volumeImbalance?: number; // -1 (only buyers) to 1 (only sellers); positive = slow exits
   volatility: number;      // Price volatility percentage
   lastUpdated: Date;       // When price data was last updated
   compositeScore?: number; // Calculated composite score for ranking
   riskLevel?: string;      // Risk assessment (Low/Medium/High/Extreme)
   isStable?: boolean;      // Whether prices are stable (no spikes/crashes)
+  remainingBuyLimit?: number; // Buy limit left in the current 4-hour window (limited items only)
+  buyLimitResetsAt?: Date;    // When recorded buys start dropping out of the window
+  volumeUpdatedAt?: Date;     // When the volume snapshot used for `volume` was captured
+  volumeStale?: boolean;      // Whether that snapshot is older than the staleness limit
+  estimatedBuyHours?: number;  // Expected hours to buy `quantity` (omitted when the item is not trading)
+  estimatedSellHours?: number; // Expected hours to sell `quantity` afterwards
+  estimatedFillHours?: number; // Buy plus sell time
+  gpPerHour?: number;          // Net profit divided by the estimated fill time
+  priceAge?: PriceAge;         // Time since the last trade on each side of the current prices
+}
+
+/**
+ * High Alchemy Opportunity Interface
+ *
+ * An item that can be bought at its low price and turned into coins with
+ * High Level Alchemy for more than it cost, including the nature rune
+ * consumed by each cast. Alching pays coins directly, so no GE tax applies.
+ */
+export interface AlchOpportunity {
+  id: number;              // Item ID
+  name: string;            // Item name
+  icon?: string;           // Item icon URL (optional)
+  buyPrice: number;        // Current buy price (low)
+  highalch: number;        // Coins returned by High Level Alchemy
+  natureRunePrice: number; // Live price of the nature rune used per cast
+  profitPerCast: number;   // highalch - buyPrice - natureRunePrice
+  roi: number;             // Profit per cast as a percentage of buy + rune cost
+  quantity: number;        // Recommended number of items to buy and alch
+  totalCost: number;       // Items plus nature runes
+  totalProfit: number;     // quantity * profitPerCast
+  buyLimit: number;        // GE buy limit for this item (0 = unlimited)
+  remainingBuyLimit?: number; // Buy limit left in the current 4-hour window (limited items only)
+  castHours: number;       // Hours needed to cast `quantity` alchs
+  gpPerHour: number;       // Profit per hour, limited by casts per hour and the buy limit
+  volume: number;          // Recent trading volume (24h)
+  lastUpdated: Date;       // When price data was last updated
+}
+
+/**
+ * Set Arbitrage Action Type
+ *
+ * - combine: buy the components, exchange them for the set and sell the set
+ * - split: buy the set, exchange it for its components and sell them
+ */
+export type SetArbitrageAction = 'combine' | 'split';
+
+/**
+ * Item Set Component Interface
+ *
+ * One piece of an item set with its current prices.
+ */
+export interface ItemSetComponent {
+  itemId: number;
+  name: string;
+  quantity: number;  // Pieces of this item in one set
+  high: number;      // Current sell price
+  low: number;       // Current buy price
+}
+
+/**
+ * Set Arbitrage Interface
+ *
+ * Profit of combining components into a set or splitting a set into its
+ * components at the Grand Exchange, after GE tax on the items sold.
+ */
+export interface SetArbitrage {
+  setItemId: number;
+  name: string;
+  icon?: string;
+  setHigh: number;           // Current sell price of the set
+  setLow: number;            // Current buy price of the set
+  components: ItemSetComponent[];
+  combineProfit: number;     // Sell the set after buying the components
+  splitProfit: number;       // Sell the components after buying the set
+  action: SetArbitrageAction; // The more profitable direction
+  profit: number;            // Profit of `action` for one set
+  roi: number;               // Profit as a percentage of the buy cost of `action`
+  lastUpdated: Date;         // Oldest latest-price timestamp among the set and its components
+}
+
+/**
+ * Recipe Kind Type
+ *
+ * - processing: inputs are converted into outputs (cleaning herbs, fletching)
+ * - set: the inputs are the components of a GE item set and the single
+ *   output is the set; it can be exchanged in both directions
+ */
+export type RecipeKind = 'processing' | 'set';
+
+/**
+ * Processing Recipe Item Interface
+ *
+ * One input or output of a processing recipe.
+ */
+export interface ProcessingRecipeItem {
+  itemId: number;
+  name: string;
+  quantity: number;  // Items consumed or produced per action
+}
+
+/**
+ * Processing Recipe Interface
+ *
+ * A conversion of input items into output items, such as cleaning herbs,
+ * making unfinished potions or fletching bows.
+ */
+export interface ProcessingRecipe {
+  id: number;
+  name: string;
+  kind: RecipeKind;
+  builtIn: boolean;               // Loaded from src/server/data/processing-recipes.json
+  secondsPerAction?: number;      // Time for one action, including banking (optional)
+  inputs: ProcessingRecipeItem[];
+  outputs: ProcessingRecipeItem[];
+}
+
+/**
+ * Priced Recipe Item Interface
+ *
+ * A recipe input priced at its buy price (low) or an output priced at its
+ * sell price (high).
+ */
+export interface PricedRecipeItem extends ProcessingRecipeItem {
+  price: number;
+  buyLimit: number;  // GE buy limit (0 = unlimited)
+}
+
+/**
+ * Processing Margin Interface
+ *
+ * Profit of one processing recipe at current prices, after GE tax on the
+ * outputs sold.
+ */
+export interface ProcessingMargin extends ProcessingRecipe {
+  inputs: PricedRecipeItem[];
+  outputs: PricedRecipeItem[];
+  inputCost: number;             // Buy cost of the inputs for one action
+  outputValue: number;           // Sell value of the outputs for one action, after GE tax
+  profit: number;                // outputValue - inputCost
+  roi: number;                   // Profit as a percentage of inputCost
+  actionsPerHour?: number;       // Limited by secondsPerAction and the inputs' buy limits
+  profitPerHour?: number;        // profit * actionsPerHour
+  lastUpdated: Date;             // Oldest latest-price timestamp among the recipe's items
+}
+
+/**
+ * Item Summary Interface
+ *
+ * An item as listed by the item browser, with its latest prices.
+ */
+export interface ItemSummary {
+  id: number;
+  name: string;
+  icon?: string;
+  members: boolean;
+  buyLimit: number;              // GE buy limit (0 = unlimited)
+  highalch?: number;
+  high?: number;                 // Latest sell price (missing before the first price sync)
+  low?: number;                  // Latest buy price
+  lastUpdated?: Date;            // When price data was last updated
+}
+
+/**
+ * Item Search Result Interface
+ *
+ * One page of items matching a search, best matches first.
+ */
+export interface ItemSearchResult {
+  items: ItemSummary[];
+  total: number;                 // Matching items across all pages
+  page: number;                  // 1-based page number
+  pageSize: number;
+}
+
+/**
+ * Watchlist Entry Interface
+ *
+ * An item pinned to the watchlist with the user's note and price targets,
+ * plus its live margin. Watched items are shown regardless of the volume,
+ * volatility and stale price filters applied to opportunities.
+ */
+export interface WatchlistEntry {
+  id: number;
+  itemId: number;
+  market: Market;                // Market the entry and its targets belong to
+  name: string;
+  icon?: string;
+  buyLimit: number;
+  note?: string;
+  targetBuy?: number;            // Buy once the low price drops to this price
+  targetSell?: number;           // Sell once the high price rises to this price
+  high?: number;                 // Current sell price (missing before the first price sync)
+  low?: number;                  // Current buy price
+  margin?: number;               // high - low
+  profitAfterTax?: number;       // Margin per item after GE tax
+  roi?: number;                  // profitAfterTax as a percentage of low
+  buyTargetReached: boolean;     // low <= targetBuy
+  sellTargetReached: boolean;    // high >= targetSell
+  volume: number;                // Recent trading volume (24h)
+  priceAge?: PriceAge;           // Minutes since the high and low prices last traded
+  lastUpdated?: Date;            // When price data was last updated
+  createdAt: Date;
+}
+
+/**
+ * Price Age Interface
+ *
+ * How long ago the latest high and low prices of an item actually traded,
+ * based on the `highTime`/`lowTime` reported by the Wiki API. A margin
+ * between prices that have not traded for hours is unlikely to be real.
+ */
+export interface PriceAge {
+  highMinutes: number | null; // Minutes since the last trade at the high price (null if unknown)
+  lowMinutes: number | null;  // Minutes since the last trade at the low price (null if unknown)
+  stale: boolean;             // Whether either side is older than its maximum age
+}
+
+/**
+ * Price Age Limits Interface
+ *
+ * Maximum age per side before a price counts as stale.
+ */
+export interface PriceAgeLimits {
+  maxHighAgeMinutes: number;
+  maxLowAgeMinutes: number;
+}
+
+/**
+ * Fill Time Estimate Interface
+ *
+ * Expected time to buy and then sell a quantity of an item, derived from
+ * per-side hourly volume and the time since the last trade on each side.
+ */
+export interface FillTimeEstimate {
+  buyHours: number;   // Hours for instant-sellers to fill the buy offer
+  sellHours: number;  // Hours for instant-buyers to fill the sell offer
+  totalHours: number; // buyHours + sellHours
+}
+
+/**
+ * Scoring Weights Interface
+ *
+ * Relative weight of each metric in the composite opportunity score.
+ * Weights are normalized so they always sum to 1.
+ */
+export interface ScoringWeights {
+  profit: number;    // Net profit after tax
+  volume: number;    // 24h trading volume (liquidity)
+  roi: number;       // Return on investment
+  stability: number; // Low price volatility
+  gpPerHour: number; // Net profit per hour of estimated fill time
+}
+
+/**
+ * Scoring Strategy Interface
+ *
+ * A named set of scoring weights that can be selected by the user.
+ */
+export interface ScoringStrategy {
+  name: string;          // Identifier used in the `strategy` query param
+  label: string;         // Display name
+  description: string;   // Short explanation for the UI
+  weights: ScoringWeights;
 }
 
+/**
+ * Account Profile Interface
+ *
+ * Describes the account a portfolio is built for. Free-to-play accounts
+ * have fewer GE slots and cannot use members-only items.
+ */
+export interface AccountProfile {
+  id?: number;       // Stored account ID (absent for ad-hoc profiles)
+  name: string;      // Display name
+  members: boolean;  // Whether the account has membership
+  geSlots: number;   // Number of Grand Exchange slots available
+  market?: Market;   // Game mode a stored account plays on
+}
+
+/**
+ * Portfolio Optimizer Type
+ *
+ * Selection method used to build a portfolio: "knapsack" maximizes expected
+ * profit under all constraints, "greedy" fills slots in score order.
+ */
+export type PortfolioOptimizer = 'knapsack' | 'greedy';
+
 /**
  * Portfolio Suggestion Interface
  * 
@@ -119,6 +449,10 @@ export interface PortfolioSuggestion {
   updatedAt: Date;             // When this portfolio was generated
   itemCount: number;           // Number of different items selected
   budgetUtilization: number;   // Percentage of budget used
+  optimizer?: PortfolioOptimizer; // Selection method used to build the portfolio
+  geSlots: number;             // GE slots available to the account
+  volumeUpdatedAt: Date | null; // When the volume data used was captured
+  volumeStale: boolean;        // Whether that volume data is stale
 }
 
 /**
@@ -130,13 +464,312 @@ export interface PortfolioSuggestion {
 export interface ItemHistory {
   itemId: number;
   itemName: string;
+  resolution: PriceResolution; // Resolution of the returned points
   prices: {
     timestamp: Date;
-    high?: number;
+    high?: number;           // Price (raw) or average price (aggregates)
     low?: number;
+    minHigh?: number;        // Aggregates only: range within the bucket
+    maxHigh?: number;
+    minLow?: number;
+    maxLow?: number;
+    volume?: number;         // Aggregates only: trades within the bucket
   }[];
 }
 
+/**
+ * Price Resolution Type
+ *
+ * Granularity of price data: raw 5-minute samples from the Price table,
+ * or hourly/daily aggregates stored in PriceHistory.
+ */
+export type PriceResolution = 'raw' | '1h' | '1d';
+
+/**
+ * Backfill Status Type
+ *
+ * State of one item's history backfill at one /timeseries resolution:
+ * "pending" tasks are still to be fetched, "done" tasks are stored and
+ * "failed" tasks gave up after repeated or permanent API errors.
+ */
+export type BackfillStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * Backfill Progress Interface
+ *
+ * Progress of the price history backfill queue of one market.
+ */
+export interface BackfillProgress {
+  market: Market;
+  total: number;                // Tasks queued (items × resolutions)
+  pending: number;
+  done: number;
+  failed: number;
+  resolutions: {
+    resolution: string;         // /timeseries step: 5m, 1h, 6h or 24h
+    pending: number;
+    done: number;
+    failed: number;
+  }[];
+}
+
+/**
+ * Trade Side Type
+ *
+ * Direction of a recorded fill: "buy" legs acquire items, "sell" legs
+ * dispose of them on the Grand Exchange.
+ */
+export type TradeSide = 'buy' | 'sell';
+
+/**
+ * Trade Leg Interface
+ *
+ * A single recorded fill within a trade (one completed GE offer).
+ */
+export interface TradeLeg {
+  id: number;
+  side: TradeSide;     // Whether this fill was a buy or a sell
+  price: number;       // Fill price per item in GP
+  quantity: number;    // Number of items filled
+  timestamp: Date;     // When the offer completed
+}
+
+/**
+ * Realized Profit Interface
+ *
+ * Aggregated outcome of the legs recorded for a trade. Profit is only
+ * realized for quantities that have both been bought and sold.
+ */
+export interface RealizedProfit {
+  boughtQuantity: number; // Total items bought across all buy legs
+  soldQuantity: number;   // Total items sold across all sell legs
+  openQuantity: number;   // Items bought but not yet sold
+  avgBuyPrice: number;    // Quantity-weighted average buy price
+  avgSellPrice: number;   // Quantity-weighted average sell price
+  totalTax: number;       // GE tax paid on all sell legs
+  realizedProfit: number; // Net profit after GE tax on matched quantity
+}
+
+/**
+ * Trade Interface
+ *
+ * A journal entry recording the actual buys and sells made for one item,
+ * along with the realized profit computed from those fills.
+ */
+export interface Trade extends RealizedProfit {
+  id: number;
+  itemId: number;
+  itemName: string;
+  accountId?: number;      // Account the trade was made on (optional)
+  market: Market;          // Game mode the trade was made on
+  note?: string;
+  legs: TradeLeg[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Buy Limit Usage Interface
+ *
+ * How much of an item's GE buy limit has been consumed by recorded buys
+ * within the rolling 4-hour window.
+ */
+export interface BuyLimitUsage {
+  used: number;            // Quantity bought within the window
+  remaining: number;       // Quantity that can still be bought
+  resetsAt?: Date;         // When the oldest buy in the window expires (if any)
+}
+
+/**
+ * Flip Outcome Interface
+ *
+ * Result of replaying a suggested flip against the prices that were
+ * observed after the suggestion was made.
+ */
+export interface FlipOutcome {
+  buyFilled: boolean;           // Whether a later low reached the suggested buy price
+  sellFilled: boolean;          // Whether a later high reached the suggested sell price after buying
+  hit: boolean;                 // Both legs filled at the suggested prices
+  buyFilledAt?: Date;           // When the buy leg would have filled
+  sellFilledAt?: Date;          // When the sell leg would have filled
+  exitPrice?: number;           // Sell price used (target or last observed high)
+  observedMargin: number;       // Average later high minus average later low
+  actualProfitAfterTax: number; // Profit actually achievable after GE tax
+  marginError: number;          // observedMargin minus predicted margin
+  profitError: number;          // actualProfitAfterTax minus predicted profitAfterTax
+}
+
+/**
+ * Suggestion Performance Entry Interface
+ *
+ * A single persisted portfolio suggestion item and its evaluated outcome.
+ */
+export interface SuggestionPerformanceEntry extends FlipOutcome {
+  snapshotId: number;
+  itemId: number;
+  itemName: string;
+  suggestedAt: Date;
+  buyPrice: number;
+  sellPrice: number;
+  margin: number;
+  quantity: number;
+  profitAfterTax: number;
+  compositeScore?: number;
+}
+
+/**
+ * Suggestion Performance Report Interface
+ *
+ * Compares persisted portfolio suggestions with what actually happened in
+ * the market over the following horizon, to judge the scoring pipeline.
+ */
+export interface SuggestionPerformanceReport {
+  from: Date;                  // Start of the evaluated period
+  to: Date;                    // End of the evaluated period
+  horizonHours: number;        // How long after each suggestion prices were observed
+  snapshotCount: number;       // Number of persisted portfolio suggestions
+  suggestionCount: number;     // Number of suggested items in those portfolios
+  evaluatedCount: number;      // Suggested items with later price data
+  buyFillRate: number;         // Percentage of evaluated items whose buy filled
+  sellFillRate: number;        // Percentage of bought items whose sell filled
+  hitRate: number;             // Percentage of evaluated items where both legs filled
+  avgMarginError: number;      // Mean (observed - predicted) margin per item
+  avgProfitError: number;      // Mean (actual - predicted) profit after tax
+  avgAbsProfitError: number;   // Mean absolute profit error
+  predictedProfit: number;     // Sum of predicted profit after tax
+  actualProfit: number;        // Sum of achievable profit after tax
+  entries: SuggestionPerformanceEntry[]; // Most recent evaluated suggestions
+}
+
+/**
+ * Backtest Trade Interface
+ *
+ * A single simulated flip from a backtest run: the portfolio item that
+ * would have been suggested at `runAt` and how it would have filled.
+ */
+export interface BacktestTrade extends FlipOutcome {
+  runAt: Date;             // Simulated "now" the suggestion was generated for
+  closedAt: Date;          // When the profit was realized (sell fill or horizon end)
+  itemId: number;
+  itemName: string;
+  buyPrice: number;
+  sellPrice: number;
+  quantity: number;
+  predictedProfit: number; // Predicted profit after tax at suggestion time
+}
+
+/**
+ * Backtest Equity Point Interface
+ *
+ * One step of the cumulative P&L curve produced by a backtest.
+ */
+export interface BacktestPoint {
+  timestamp: Date;
+  profit: number;           // Profit realized at this timestamp
+  cumulativeProfit: number; // Running total of realized profit
+}
+
+/**
+ * Backtest Result Interface
+ *
+ * Outcome of replaying the opportunity scoring pipeline against
+ * historical data at one or more past points in time.
+ */
+export interface BacktestResult {
+  from: Date;                // First simulated "now"
+  to: Date;                  // Last simulated "now"
+  stepHours: number;         // Hours between simulated runs
+  horizonHours: number;      // Hours of fills simulated after each run
+  budget: number;            // Budget used for every run
+  runs: number;              // Number of portfolio suggestions generated
+  trades: BacktestTrade[];   // Simulated flips in chronological order
+  equityCurve: BacktestPoint[]; // Cumulative realized P&L over time
+  totalPredictedProfit: number;
+  totalActualProfit: number;
+  hitRate: number;           // Percentage of trades where both legs filled
+}
+
+/**
+ * Alert Condition Types
+ *
+ * - price_above: Instant sell price rises to or above `threshold` GP
+ * - price_below: Instant buy price falls to or below `threshold` GP
+ * - margin_above: Margin exceeds `threshold` GP
+ * - roi_above: Per-item ROI after tax exceeds `threshold` percent
+ * - volume_drop: 24h volume fell by `threshold` percent from the previous 24h
+ * - spike: detectPriceAnomalies reports a price spike or crash
+ */
+export type AlertType =
+  | 'price_above'
+  | 'price_below'
+  | 'margin_above'
+  | 'roi_above'
+  | 'volume_drop'
+  | 'spike';
+
+/**
+ * Alert Rule Interface
+ *
+ * A user-defined condition on one item. Rules fire when their condition
+ * becomes true and re-arm once it is false again.
+ */
+export interface AlertRule {
+  id: number;
+  itemId: number;
+  itemName: string;
+  type: AlertType;
+  threshold?: number;       // GP or percent depending on type (unused for spike)
+  channel: string;          // Notifier used to deliver events ('feed' or 'webhook')
+  webhookUrl?: string;      // Target URL for the webhook channel
+  enabled: boolean;
+  active: boolean;          // Whether the condition currently holds
+  market: Market;           // Game mode whose prices the rule is evaluated on
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Alert Event Interface
+ *
+ * A single firing of an alert rule, shown in the in-app feed.
+ */
+export interface AlertEvent {
+  id: number;
+  ruleId: number;
+  itemId: number;
+  itemName: string;
+  type: AlertType;
+  message: string;          // Human-readable description of what happened
+  value?: number;           // Observed value that triggered the rule
+  delivered: boolean;       // Whether the notifier delivered it successfully
+  read: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Opportunity Update Interface
+ *
+ * Pushed over the live update stream after every price sync cycle.
+ */
+export interface OpportunityUpdate {
+  market: Market;                 // Market that was synced
+  syncedAt: Date;                 // When the sync cycle finished
+  changed: FlipOpportunity[];     // New opportunities or ones whose prices/volume changed
+  removed: number[];              // IDs of items that are no longer opportunities
+}
+
+/**
+ * Live Update Event
+ *
+ * Events sent by the /api/stream Server-Sent Events endpoint. `type` is
+ * used as the SSE event name and `data` as its JSON payload. `snapshot` is
+ * sent once after connecting, with every current opportunity as changed.
+ */
+export type LiveUpdateEvent =
+  | { type: 'snapshot'; data: OpportunityUpdate }
+  | { type: 'sync'; data: OpportunityUpdate }
+  | { type: 'alert'; data: AlertEvent };
+
 /**
  * API Response Wrapper Interface
  * 
@@ -0,0 +1,77 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import { PriceService } from '../src/server/services/price-service.js';
+import { AccountService, F2P_PROFILE } from '../src/server/services/account-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+import { AccountProfile } from '../src/types/api.js';
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  const time = Math.floor(Date.now() / 1000);
+  setMarketDataProvider({
+    market: 'osrs',
+    fetchItemMapping: async () => [
+      { id: 100, name: 'Free Item', limit: 100, members: false },
+      { id: 200, name: 'Members Item', limit: 100, members: true },
+    ],
+    fetchLatestPrices: async () => ({
+      '100': { high: 1100, highTime: time, low: 1000, lowTime: time },
+      '200': { high: 1100, highTime: time, low: 1000, lowTime: time },
+    }),
+    fetchVolumes: async () => ({
+      '100': { highPriceVolume: 1000, lowPriceVolume: 1000 },
+      '200': { highPriceVolume: 1000, lowPriceVolume: 1000 },
+    }),
+    fetchTimeseries: async () => [],
+  });
+  await PriceService.syncItems();
+  await PriceService.syncPrices();
+
+  // Slot counts default to the account type and are capped by it
+  const main = await AccountService.createAccount({ name: 'Main', members: true });
+  assert.strictEqual((main as AccountProfile).geSlots, 8);
+  const alt = await AccountService.createAccount({ name: 'F2P alt', members: false });
+  assert.strictEqual((alt as AccountProfile).geSlots, 3);
+  assert.strictEqual(typeof await AccountService.createAccount({ name: 'Other', members: false, geSlots: 8 }), 'string');
+
+  // Names are unique
+  const duplicate = await AccountService.createAccount({ name: 'Main', members: false });
+  assert.strictEqual(duplicate, 'An account named "Main" already exists');
+  const mainId = (main as AccountProfile).id!;
+  const altId = (alt as AccountProfile).id!;
+  assert.strictEqual(typeof await AccountService.updateAccount(altId, { name: 'Main' }), 'string');
+  assert.strictEqual((await AccountService.updateAccount(mainId, { name: 'Main' }) as AccountProfile).name, 'Main');
+
+  // Switching to free-to-play lowers the slots to the free-to-play maximum
+  const downgraded = await AccountService.updateAccount(mainId, { members: false });
+  assert.strictEqual((downgraded as AccountProfile).geSlots, 3);
+  assert.strictEqual(typeof await AccountService.updateAccount(mainId, { geSlots: 5 }), 'string');
+  assert.strictEqual(await AccountService.updateAccount(9999, { geSlots: 2 }), null);
+
+  assert.deepStrictEqual(
+    (await AccountService.listAccounts()).map(account => account.name),
+    ['F2P alt', 'Main']
+  );
+
+  // Free-to-play accounts are only offered free-to-play items
+  const membersIds = (await PriceService.getFlipOpportunities(1_000_000)).map(opp => opp.id).sort();
+  assert.deepStrictEqual(membersIds, [100, 200]);
+  const f2pIds = (await PriceService.getFlipOpportunities(1_000_000, { account: F2P_PROFILE })).map(opp => opp.id);
+  assert.deepStrictEqual(f2pIds, [100]);
+
+  const portfolio = await PriceService.getPortfolioSuggestion(1_000_000, { account: F2P_PROFILE });
+  assert.strictEqual(portfolio.geSlots, 3);
+  assert.deepStrictEqual(portfolio.opportunities.map(opp => opp.id), [100]);
+
+  assert.strictEqual(await AccountService.deleteAccount(altId), true);
+  assert.strictEqual(await AccountService.deleteAccount(altId), false);
+
+  console.log('accounts test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
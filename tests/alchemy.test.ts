@@ -0,0 +1,42 @@
+import assert from 'assert';
+import {
+  calculateAlchProfit,
+  evaluateAlch,
+  HIGH_ALCH_CASTS_PER_HOUR,
+} from '../src/lib/alchemy.js';
+
+async function run() {
+  // Profit is the alch value minus the item and nature rune cost
+  assert.strictEqual(calculateAlchProfit(1000, 1300, 100), 200);
+  assert.strictEqual(calculateAlchProfit(1000, 1050, 100), -50);
+
+  // Unprofitable alchs are rejected
+  assert.strictEqual(evaluateAlch(1_000_000, 1000, 1050, 100, 100), null);
+
+  // Quantity is capped by the remaining buy limit
+  const limited = evaluateAlch(10_000_000, 1000, 1300, 100, 100, 40)!;
+  assert.strictEqual(limited.quantity, 40);
+  assert.strictEqual(limited.profitPerCast, 200);
+  // GP/hour follows the buy limit rate (100 per 4 hours) rather than the cast rate
+  assert.strictEqual(limited.gpPerHour, 200 * 25);
+
+  // Quantity is capped by the budget, including rune costs
+  const budgeted = evaluateAlch(11_000, 1000, 1300, 100, 0)!;
+  assert.strictEqual(budgeted.quantity, 10);
+
+  // Unlimited items are capped by the casts possible in one buy limit window
+  const unlimited = evaluateAlch(10_000_000_000, 100, 400, 100, 0)!;
+  assert.strictEqual(unlimited.quantity, HIGH_ALCH_CASTS_PER_HOUR * 4);
+  assert.strictEqual(unlimited.castHours, 4);
+  assert.strictEqual(unlimited.gpPerHour, 200 * HIGH_ALCH_CASTS_PER_HOUR);
+
+  // No buy limit left means no opportunity
+  assert.strictEqual(evaluateAlch(10_000_000, 1000, 1300, 100, 100, 0), null);
+
+  console.log('alchemy test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import assert from 'assert';
+import { evaluateAlertRule, AlertMarketSnapshot } from '../src/lib/alerts.js';
+import { calculateGETax } from '../src/lib/calculations.js';
+
+async function run() {
+  const snapshot: AlertMarketSnapshot = {
+    itemName: 'Abyssal whip',
+    high: 1600000,
+    low: 1500000,
+    recentHighs: [1600000, 1590000, 1610000, 1600000],
+    recentLows: [1500000, 1490000, 1510000, 1500000],
+    volume: 400,
+    previousVolume: 1000,
+  };
+
+  // Price thresholds compare the sell price (above) and buy price (below)
+  assert.strictEqual(evaluateAlertRule({ type: 'price_above', threshold: 1600000 }, snapshot).triggered, true);
+  assert.strictEqual(evaluateAlertRule({ type: 'price_above', threshold: 1600001 }, snapshot).triggered, false);
+  assert.strictEqual(evaluateAlertRule({ type: 'price_below', threshold: 1500000 }, snapshot).triggered, true);
+
+  // Margin and after-tax ROI
+  const margin = evaluateAlertRule({ type: 'margin_above', threshold: 90000 }, snapshot);
+  assert.strictEqual(margin.triggered, true);
+  assert.strictEqual(margin.value, 100000);
+  const roi = evaluateAlertRule({ type: 'roi_above', threshold: 4 }, snapshot);
+  assert.strictEqual(roi.value, ((100000 - calculateGETax(1600000)) / 1500000) * 100);
+  assert.strictEqual(roi.triggered, true);
+
+  // Volume dropped 60% from the previous 24h
+  const drop = evaluateAlertRule({ type: 'volume_drop', threshold: 50 }, snapshot);
+  assert.strictEqual(drop.triggered, true);
+  assert.strictEqual(drop.value, 60);
+  assert.strictEqual(
+    evaluateAlertRule({ type: 'volume_drop', threshold: 50 }, { ...snapshot, previousVolume: undefined }).triggered,
+    false
+  );
+
+  // Spike uses detectPriceAnomalies against the recent average
+  assert.strictEqual(evaluateAlertRule({ type: 'spike' }, snapshot).triggered, false);
+  const spiked = { ...snapshot, high: 2500000, recentHighs: [2500000, 1590000, 1610000, 1600000] };
+  assert.strictEqual(evaluateAlertRule({ type: 'spike' }, spiked).triggered, true);
+
+  console.log('alert rules test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { BacktestDataError, BacktestService } from '../src/server/services/backtest-service.js';
+import { calculateProfitAfterTax } from '../src/lib/calculations.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  const from = new Date('2024-01-01T00:00:00Z');
+  const to = new Date(from.getTime() + 24 * HOUR_MS);
+  const at = (hours: number) => new Date(from.getTime() + hours * HOUR_MS);
+
+  await prisma.item.create({ data: { id: 100, name: 'Test Item', buyLimit: 100 } });
+
+  // Stable 1100/1000 prices before each run
+  await prisma.price.createMany({
+    data: Array.from({ length: 10 }, (_, i) => ({ itemId: 100, high: 1100, low: 1000, timestamp: at(-i * 0.5) })),
+  });
+
+  // Both legs of the first run fill an hour later
+  await prisma.price.create({ data: { itemId: 100, high: 1100, low: 1000, timestamp: at(1) } });
+
+  // After the second run only hourly history is stored, and the sell never fills
+  await prisma.priceHistory.createMany({
+    data: [
+      { itemId: 100, resolution: '1h', avgHigh: 1060, avgLow: 990, volume: 100, date: at(25) },
+      { itemId: 100, resolution: '1h', avgHigh: 1050, avgLow: 1000, volume: 100, date: at(26) },
+    ],
+  });
+
+  // A 24h volume capture shortly before each run
+  for (const capturedAt of [at(-0.25), at(23.75)]) {
+    await prisma.volumeHistory.create({
+      data: { itemId: 100, highPriceVolume: 1000, lowPriceVolume: 1000, capturedAt },
+    });
+  }
+
+  const result = await BacktestService.run({ from, to, budget: 1_000_000 });
+  assert.strictEqual(result.runs, 2);
+  assert.strictEqual(result.trades.length, 2, 'Each run should suggest the item');
+
+  const [first, second] = result.trades;
+  assert.strictEqual(first.quantity, 100, 'Quantity is capped by the buy limit');
+  assert.strictEqual(first.hit, true);
+  assert.strictEqual(first.closedAt.getTime(), at(1).getTime());
+  assert.strictEqual(first.actualProfitAfterTax, calculateProfitAfterTax(100, 1100, 100));
+
+  assert.strictEqual(second.buyFilled, true);
+  assert.strictEqual(second.sellFilled, false);
+  assert.strictEqual(second.exitPrice, 1050, 'Open positions are marked to the last high');
+  assert.strictEqual(second.actualProfitAfterTax, calculateProfitAfterTax(50, 1050, 100));
+
+  assert.deepStrictEqual(
+    result.equityCurve.map(point => point.cumulativeProfit),
+    [first.actualProfitAfterTax, first.actualProfitAfterTax + second.actualProfitAfterTax]
+  );
+  assert.strictEqual(result.totalActualProfit, 7800 + 2900);
+  assert.strictEqual(result.hitRate, 50);
+
+  // A run without volume history is an error, not an empty result
+  await assert.rejects(
+    BacktestService.run({ from: at(-48), budget: 1_000_000 }),
+    (error: unknown) => error instanceof BacktestDataError && /No volume data/.test(error.message)
+  );
+
+  console.log('backtest test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
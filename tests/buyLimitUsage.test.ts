@@ -0,0 +1,39 @@
+import assert from 'assert';
+import { calculateBuyLimitUsage } from '../src/lib/calculations.js';
+
+async function run() {
+  const hour = 60 * 60 * 1000;
+  const now = new Date(10 * hour);
+  const at = (hours: number) => new Date(hours * hour);
+
+  // Buys older than 4 hours and buys after `now` do not count
+  const usage = calculateBuyLimitUsage(
+    [
+      { quantity: 50, timestamp: at(5) },
+      { quantity: 30, timestamp: at(7) },
+      { quantity: 20, timestamp: at(9) },
+      { quantity: 100, timestamp: at(11) },
+    ],
+    70,
+    now
+  );
+  assert.strictEqual(usage.used, 50);
+  assert.strictEqual(usage.remaining, 20);
+  assert.strictEqual(usage.resetsAt?.getTime(), at(11).getTime());
+
+  // Remaining never goes below zero
+  const exhausted = calculateBuyLimitUsage([{ quantity: 200, timestamp: at(8) }], 100, now);
+  assert.strictEqual(exhausted.remaining, 0);
+
+  // No recent buys: full limit available and no reset time
+  const fresh = calculateBuyLimitUsage([], 100, now);
+  assert.strictEqual(fresh.remaining, 100);
+  assert.strictEqual(fresh.resetsAt, undefined);
+
+  console.log('buy limit usage test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+import assert from 'assert';
+import {
+  downsamplePrices,
+  HOUR_MS,
+  DAY_MS,
+  RAW_VOLUME_INTERVAL_MS,
+} from '../src/lib/downsampling.js';
+
+async function run() {
+  const hour = Date.UTC(2024, 0, 1, 10);
+  const at = (minutes: number) => new Date(hour + minutes * 60 * 1000);
+
+  // Raw 5-minute samples for one hour, plus one sample in the next hour
+  const raw = [
+    { itemId: 1, timestamp: at(0), high: 100, low: 90, volume: 10 },
+    { itemId: 1, timestamp: at(5), high: 110, low: 80, volume: 20 },
+    { itemId: 1, timestamp: at(10), high: null, low: 85, volume: null },
+    { itemId: 1, timestamp: at(65), high: 120, low: 95, volume: 5 },
+    { itemId: 2, timestamp: at(0), high: 50, low: null, volume: 1 },
+  ];
+
+  const hourly = downsamplePrices(raw, HOUR_MS, RAW_VOLUME_INTERVAL_MS);
+  assert.strictEqual(hourly.length, 2, 'Item without low prices should be dropped');
+
+  const [first, second] = hourly;
+  assert.strictEqual(first.date.getTime(), hour);
+  assert.strictEqual(first.avgHigh, 105);
+  assert.strictEqual(first.avgLow, 85);
+  assert.strictEqual(first.minHigh, 100);
+  assert.strictEqual(first.maxHigh, 110);
+  assert.strictEqual(first.minLow, 80);
+  assert.strictEqual(first.maxLow, 90);
+  // Average 5m volume of 15 scaled to 12 samples per hour
+  assert.strictEqual(first.volume, 180);
+  assert.strictEqual(second.date.getTime(), hour + HOUR_MS);
+
+  // Rolling hourly aggregates into a day keeps their ranges and sums volume
+  const daily = downsamplePrices(
+    hourly.map(a => ({ ...a, timestamp: a.date, high: a.avgHigh, low: a.avgLow })),
+    DAY_MS
+  );
+  assert.strictEqual(daily.length, 1);
+  assert.strictEqual(daily[0].date.getTime(), Date.UTC(2024, 0, 1));
+  assert.strictEqual(daily[0].minLow, 80);
+  assert.strictEqual(daily[0].maxHigh, 120);
+  assert.strictEqual(daily[0].volume, 180 + 60);
+
+  console.log('downsampling test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
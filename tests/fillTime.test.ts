@@ -0,0 +1,63 @@
+import assert from 'assert';
+import {
+  estimateFillTime,
+  calculateGpPerHour,
+  getScoringStrategy,
+  sortOpportunitiesByScore,
+  MIN_FILL_HOURS,
+} from '../src/lib/calculations.js';
+import type { FlipOpportunity } from '../src/types/api.js';
+
+async function run() {
+  // Buying fills from instant-sellers, selling from instant-buyers
+  const estimate = estimateFillTime(100, { buyVolume: 25, sellVolume: 50 });
+  assert.deepStrictEqual(estimate, { buyHours: 2, sellHours: 4, totalHours: 6 });
+
+  // A side without volume in the window falls back to the time since its last trade
+  const quiet = estimateFillTime(3, { buyVolume: 0, sellVolume: 30 }, 2, 0.5);
+  assert.strictEqual(quiet?.sellHours, 6);
+  assert.strictEqual(quiet?.buyHours, 0.1);
+
+  // No activity at all on one side cannot be estimated
+  assert.strictEqual(estimateFillTime(10, { buyVolume: 0, sellVolume: 30 }), null);
+
+  // GP/hour floors very fast fills at MIN_FILL_HOURS
+  assert.strictEqual(calculateGpPerHour(12000, 6), 2000);
+  assert.strictEqual(calculateGpPerHour(1000, 0), 1000 / MIN_FILL_HOURS);
+
+  // The GP/hour strategy prefers a quick flip over a slow, more profitable one
+  const base: FlipOpportunity = {
+    id: 1,
+    name: 'Test',
+    currentHigh: 100,
+    currentLow: 90,
+    avgPrice: 95,
+    margin: 10,
+    marginPercent: 10,
+    roi: 10,
+    quantity: 1,
+    totalCost: 90,
+    totalProfit: 10,
+    profitAfterTax: 2000,
+    buyLimit: 100,
+    volume: 2000,
+    volatility: 5,
+    lastUpdated: new Date(),
+  };
+  const slow = { ...base, id: 1, profitAfterTax: 90000, gpPerHour: 1000 };
+  const quick = { ...base, id: 2, profitAfterTax: 20000, gpPerHour: 40000 };
+
+  const weights = getScoringStrategy('gp-per-hour')!.weights;
+  assert.strictEqual(sortOpportunitiesByScore([slow, quick], weights)[0].id, 2);
+  assert.strictEqual(
+    sortOpportunitiesByScore([slow, quick], getScoringStrategy('balanced')!.weights)[0].id,
+    1
+  );
+
+  console.log('fillTime test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
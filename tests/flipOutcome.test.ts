@@ -0,0 +1,40 @@
+import assert from 'assert';
+import { evaluateFlipOutcome, calculateProfitAfterTax } from '../src/lib/calculations.js';
+
+async function run() {
+  const suggestion = { buyPrice: 1000, sellPrice: 1100, quantity: 10, profitAfterTax: 800 };
+  const at = (minutes: number) => new Date(minutes * 60 * 1000);
+
+  // Buy fills at minute 10, sell fills at minute 20
+  const hit = evaluateFlipOutcome(suggestion, [
+    { timestamp: at(20), high: 1120, low: 1010 },
+    { timestamp: at(10), high: 1090, low: 990 },
+  ]);
+  assert.strictEqual(hit.buyFilled, true);
+  assert.strictEqual(hit.sellFilled, true);
+  assert.strictEqual(hit.hit, true);
+  assert.strictEqual(hit.buyFilledAt?.getTime(), at(10).getTime());
+  assert.strictEqual(hit.actualProfitAfterTax, calculateProfitAfterTax(100, 1100, 10));
+
+  // Buy fills but the high never reaches the target: mark to last high
+  const miss = evaluateFlipOutcome(suggestion, [
+    { timestamp: at(10), high: 1050, low: 1000 },
+    { timestamp: at(20), high: 1040, low: 1005 },
+  ]);
+  assert.strictEqual(miss.hit, false);
+  assert.strictEqual(miss.exitPrice, 1040);
+  assert.strictEqual(miss.actualProfitAfterTax, calculateProfitAfterTax(40, 1040, 10));
+  assert.strictEqual(miss.profitError, miss.actualProfitAfterTax - 800);
+
+  // Buy never fills: nothing traded
+  const unfilled = evaluateFlipOutcome(suggestion, [{ timestamp: at(10), high: 1200, low: 1050 }]);
+  assert.strictEqual(unfilled.buyFilled, false);
+  assert.strictEqual(unfilled.actualProfitAfterTax, 0);
+
+  console.log('flip outcome test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
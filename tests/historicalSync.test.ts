@@ -2,28 +2,87 @@ import { execSync } from 'child_process';
 import assert from 'assert';
 import prisma from '../src/lib/database.js';
 import { PriceService } from '../src/server/services/price-service.js';
-import { OSRSApiService } from '../src/server/services/osrs-api.js';
+import { BackfillService } from '../src/server/services/backfill-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+import { WikiRequestError } from '../src/server/services/wiki-client.js';
 
 async function run() {
   process.env.DATABASE_URL = 'file:./tests/test.db';
   execSync('npx prisma db push --force-reset > /dev/null');
 
-  (OSRSApiService as unknown as Record<string, unknown>).fetchItemMapping = async () => [
-    { id: 100, name: 'Test Item', limit: 0 },
-  ];
-  (OSRSApiService as unknown as Record<string, unknown>).fetch24hVolumes = async () => ({
-    '100': { highPriceVolume: 50, lowPriceVolume: 50 },
+  setMarketDataProvider({
+    market: 'osrs',
+    fetchItemMapping: async () => [
+      { id: 100, name: 'Test Item', limit: 0 },
+      { id: 200, name: 'Unknown Item', limit: 0 },
+      { id: 300, name: 'Flaky Item', limit: 0 },
+      { id: 400, name: 'Malformed Item', limit: 0 },
+    ],
+    fetchLatestPrices: async () => ({}),
+    fetchVolumes: async () => ({}),
+    fetchTimeseries: async (itemId, timestep) => {
+      // The API has no history for item 200
+      if (itemId === 200) throw new WikiRequestError(`/timeseries?id=${itemId}&timestep=${timestep}`, 400);
+      // Errors outside the Wiki client are retried too
+      if (itemId === 300) throw new Error('socket hang up');
+      if (itemId === 400) return { data: [] } as unknown as [];
+      return [
+        { timestamp: 1000, avgHighPrice: 2000, avgLowPrice: 1900, highPriceVolume: 10, lowPriceVolume: 5 },
+        { timestamp: 2000, avgHighPrice: 2100, avgLowPrice: 1950, highPriceVolume: 8, lowPriceVolume: 7 },
+      ];
+    },
   });
-  (OSRSApiService as unknown as Record<string, unknown>).fetch1hHistory = async () => [
-    { timestamp: 1000, avgHighPrice: 2000, avgLowPrice: 1900, highPriceVolume: 10, lowPriceVolume: 5 },
-    { timestamp: 2000, avgHighPrice: 2100, avgLowPrice: 1950, highPriceVolume: 8, lowPriceVolume: 7 },
-  ];
 
   await PriceService.syncItems();
-  await PriceService.syncHistoricalPrices();
+
+  // Every item is queued once per resolution
+  assert.strictEqual(await BackfillService.enqueue(), 16);
+  assert.strictEqual(await BackfillService.enqueue(), 0);
+
+  // A limited run leaves the remaining tasks pending for the next run
+  const first = await BackfillService.run('osrs', 3);
+  assert.strictEqual(first.processed, 3);
+  assert.strictEqual(first.remaining, 13);
+
+  // Failing tasks do not abort the batch and stay pending for a retry
+  const second = await BackfillService.run('osrs');
+  assert.strictEqual(second.processed, 13);
+  assert.strictEqual(second.failed, 4, 'Permanent API errors should fail the task');
+  assert.strictEqual(second.remaining, 8);
+
+  const flaky = await prisma.backfillTask.findFirst({ where: { itemId: 300 } });
+  assert.strictEqual(flaky?.status, 'pending');
+  assert.strictEqual(flaky?.attempts, 1);
+  assert.strictEqual(flaky?.lastError, 'socket hang up');
+  const malformed = await prisma.backfillTask.findFirst({ where: { itemId: 400 } });
+  assert.match(malformed?.lastError || '', /Unexpected \/timeseries response/);
 
   const history = await prisma.priceHistory.findMany({ where: { itemId: 100 } });
-  assert(history.length === 2, 'Historical prices should be inserted');
+  assert.strictEqual(history.filter(h => h.resolution === '1h').length, 2, 'Hourly history should be inserted');
+  assert.strictEqual(history.filter(h => h.resolution === '6h').length, 2, '6-hour history should be inserted');
+  assert.strictEqual(history.filter(h => h.resolution === '1d').length, 2, 'Daily history should be inserted');
+  assert.strictEqual(await prisma.price.count({ where: { itemId: 100 } }), 2, '5m points should be raw prices');
+
+  // Retried tasks queue behind tasks that have not been tried yet
+  await prisma.backfillTask.updateMany({ where: { itemId: 100, resolution: '1h' }, data: { status: 'pending', attempts: 0 } });
+  const retried = await BackfillService.run('osrs', 1);
+  assert.strictEqual(retried.completed, 1);
+  assert.strictEqual(retried.remaining, 8);
+
+  // Tasks are marked failed after MAX_ATTEMPTS attempts
+  await BackfillService.run('osrs');
+  await BackfillService.run('osrs');
+  const progress = await BackfillService.getProgress('osrs');
+  assert.strictEqual(progress.done, 4);
+  assert.strictEqual(progress.failed, 12);
+  assert.strictEqual(progress.pending, 0);
+  assert.strictEqual((await prisma.backfillTask.findFirst({ where: { itemId: 300 } }))?.attempts, 3);
+
+  // Repeating a task does not duplicate stored points
+  await prisma.backfillTask.updateMany({ where: { itemId: 100 }, data: { status: 'pending' } });
+  await BackfillService.run('osrs');
+  assert.strictEqual(await prisma.priceHistory.count({ where: { itemId: 100 } }), 6);
+  assert.strictEqual(await prisma.price.count({ where: { itemId: 100 } }), 2);
 
   console.log('historical sync test passed');
 }
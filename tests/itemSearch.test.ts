@@ -0,0 +1,27 @@
+import assert from 'assert';
+import { normalizeSearchText, scoreItemName, SEARCH_SCORES } from '../src/lib/search.js';
+
+async function run() {
+  // Names are compared without case or punctuation
+  assert.strictEqual(normalizeSearchText("Dharok's greataxe"), 'dharoks greataxe');
+  assert.strictEqual(scoreItemName('dharoks greataxe', "Dharok's greataxe"), SEARCH_SCORES.EXACT);
+
+  // Better matches score higher
+  assert.strictEqual(scoreItemName('abyssal', 'Abyssal whip'), SEARCH_SCORES.PREFIX);
+  assert.strictEqual(scoreItemName('whip abys', 'Abyssal whip'), SEARCH_SCORES.WORD_PREFIXES);
+  assert.strictEqual(scoreItemName('ssal wh', 'Abyssal whip'), SEARCH_SCORES.SUBSTRING);
+  assert.strictEqual(scoreItemName('abysal whip', 'Abyssal whip'), SEARCH_SCORES.TYPO);
+  assert.strictEqual(scoreItemName('abwp', 'Abyssal whip'), SEARCH_SCORES.SUBSEQUENCE);
+
+  // Unrelated names and very short subsequences do not match
+  assert.strictEqual(scoreItemName('dragon', 'Abyssal whip'), 0);
+  assert.strictEqual(scoreItemName('aw', 'Abyssal whip'), 0);
+  assert.strictEqual(scoreItemName('   ', 'Abyssal whip'), 0);
+
+  console.log('itemSearch test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+import assert from 'assert';
+import { LiveUpdateService } from '../src/server/services/live-update-service.js';
+import { PriceService } from '../src/server/services/price-service.js';
+import { FlipOpportunity, LiveUpdateEvent } from '../src/types/api.js';
+
+function opportunity(id: number, currentHigh: number): FlipOpportunity {
+  return {
+    id,
+    name: `Item ${id}`,
+    currentHigh,
+    currentLow: 1000,
+    avgPrice: (currentHigh + 1000) / 2,
+    margin: currentHigh - 1000,
+    marginPercent: 10,
+    roi: 5,
+    quantity: 100,
+    totalCost: 100000,
+    totalProfit: 10000,
+    profitAfterTax: 8000,
+    buyLimit: 100,
+    volume: 5000,
+    volatility: 5,
+    lastUpdated: new Date(),
+  };
+}
+
+async function run() {
+  // Each sync returns a different set of opportunities
+  const cycles = [
+    [opportunity(1, 1100), opportunity(2, 1200)],
+    [opportunity(1, 1100), opportunity(2, 1250), opportunity(3, 1300)],
+    [opportunity(2, 1250)],
+    [opportunity(2, 1250)],
+    [opportunity(4, 1400)],
+  ];
+  let cycle = 0;
+  (PriceService as unknown as Record<string, unknown>).getFlipOpportunities = async () =>
+    cycles[cycle++];
+
+  // Without subscribers no analysis runs
+  await LiveUpdateService.publishSyncCompleted();
+  assert.strictEqual(cycle, 0);
+
+  const events: LiveUpdateEvent[] = [];
+  const unsubscribe = LiveUpdateService.subscribe(event => events.push(event));
+
+  // First cycle: everything is new
+  await LiveUpdateService.publishSyncCompleted();
+  // Second cycle: item 2 changed price and item 3 appeared
+  await LiveUpdateService.publishSyncCompleted();
+  // Third cycle: items 1 and 3 dropped out
+  await LiveUpdateService.publishSyncCompleted();
+  // Other markets are compared with their own previous sync
+  await LiveUpdateService.publishSyncCompleted('dmm');
+
+  const updates = events.map(e => (e.type === 'sync' ? e.data : null));
+  assert.deepStrictEqual(updates[0]?.changed.map(o => o.id), [1, 2]);
+  assert.deepStrictEqual(updates[1]?.changed.map(o => o.id), [2, 3]);
+  assert.deepStrictEqual(updates[1]?.removed, []);
+  assert.deepStrictEqual(updates[2]?.changed, []);
+  assert.deepStrictEqual(updates[2]?.removed, [1, 3]);
+  assert.strictEqual(updates[3]?.market, 'dmm');
+  assert.deepStrictEqual(updates[3]?.changed.map(o => o.id), [2]);
+
+  // A client connecting later gets the set the next sync is diffed against
+  const snapshot = await LiveUpdateService.getSnapshot();
+  assert.deepStrictEqual(snapshot.changed.map(o => o.id), [2]);
+  assert.deepStrictEqual(snapshot.removed, []);
+  assert.strictEqual(cycle, 4, 'A stored snapshot is not recomputed');
+
+  // Without a previous sync the snapshot is computed and becomes the diff base
+  const fresh = await LiveUpdateService.getSnapshot('fsw');
+  assert.deepStrictEqual(fresh.changed.map(o => o.id), [4]);
+  assert.strictEqual((await LiveUpdateService.getSnapshot('fsw')).syncedAt, fresh.syncedAt);
+
+  unsubscribe();
+  assert.strictEqual(LiveUpdateService.subscriberCount(), 0);
+
+  console.log('live updates test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
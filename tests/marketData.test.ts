@@ -0,0 +1,70 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  MarketDataProvider,
+  getMarketDataProvider,
+  resolveMarket,
+  setMarketDataProvider,
+} from '../src/server/services/market-data.js';
+import { WikiMarketDataProvider } from '../src/server/services/wiki-provider.js';
+
+async function run() {
+  assert.strictEqual(resolveMarket(undefined), 'osrs');
+  assert.strictEqual(resolveMarket('dmm'), 'dmm');
+  assert.throws(() => resolveMarket('rs3'));
+
+  // Each market is requested under its own path
+  const requested: string[] = [];
+  const server = http.createServer((req, res) => {
+    requested.push(req.url || '');
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    if (req.url?.endsWith('/mapping')) {
+      res.end(JSON.stringify([{ id: 4151, name: 'Abyssal whip', limit: 70 }]));
+    } else if (req.url?.includes('/timeseries')) {
+      res.end(JSON.stringify({ data: [{ timestamp: 1, avgHighPrice: 10, avgLowPrice: 9 }] }));
+    } else {
+      res.end(JSON.stringify({ data: { '4151': { high: 2000000, low: 1900000 } } }));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const dmm = new WikiMarketDataProvider('dmm', { baseURL: `http://127.0.0.1:${port}` });
+    assert.strictEqual((await dmm.fetchItemMapping())[0].name, 'Abyssal whip');
+    assert.strictEqual((await dmm.fetchLatestPrices())['4151'].high, 2000000);
+    assert(await dmm.fetchVolumes('24h'));
+    assert.strictEqual((await dmm.fetchTimeseries(4151, '1h'))[0].avgHighPrice, 10);
+    assert.deepStrictEqual(requested, [
+      '/dmm/mapping',
+      '/dmm/latest',
+      '/dmm/24h',
+      '/dmm/timeseries?id=4151&timestep=1h',
+    ]);
+  } finally {
+    server.close();
+  }
+
+  // Markets default to the Wiki API until another provider is registered
+  assert(getMarketDataProvider('fsw') instanceof WikiMarketDataProvider);
+  assert.strictEqual(getMarketDataProvider('fsw'), getMarketDataProvider('fsw'));
+
+  const feed: MarketDataProvider = {
+    market: 'fsw',
+    fetchItemMapping: async () => [],
+    fetchLatestPrices: async () => ({}),
+    fetchVolumes: async () => ({}),
+    fetchTimeseries: async () => [],
+  };
+  setMarketDataProvider(feed);
+  assert.strictEqual(getMarketDataProvider('fsw'), feed);
+  assert(getMarketDataProvider() instanceof WikiMarketDataProvider);
+
+  console.log('marketData test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { PriceService } from '../src/server/services/price-service.js';
+import { TradeService } from '../src/server/services/trade-service.js';
+import { AlertService } from '../src/server/services/alert-service.js';
+import { AccountService } from '../src/server/services/account-service.js';
+import { WatchlistService } from '../src/server/services/watchlist-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+import { Market } from '../src/types/api.js';
+
+function provider(market: Market, high: number, low: number, volume: number) {
+  const time = Math.floor(Date.now() / 1000);
+  return {
+    market,
+    fetchItemMapping: async () => [{ id: 100, name: 'Test Item', limit: 100 }],
+    fetchLatestPrices: async () => ({ '100': { high, highTime: time, low, lowTime: time } }),
+    fetchVolumes: async () => ({ '100': { highPriceVolume: volume / 2, lowPriceVolume: volume / 2 } }),
+    fetchTimeseries: async () => [],
+  };
+}
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  setMarketDataProvider(provider('osrs', 1100, 1000, 2000));
+  setMarketDataProvider(provider('dmm', 2200, 2000, 5000));
+
+  await PriceService.syncItems();
+  for (const market of ['osrs', 'dmm'] as const) {
+    await PriceService.syncPrices(market);
+    await PriceService.syncVolumes(market);
+  }
+
+  // Prices and volumes are stored per market
+  assert.strictEqual((await PriceService.getVolumeSnapshot('24h', 'osrs')).volumes[100], 2000);
+  assert.strictEqual((await PriceService.getVolumeSnapshot('24h', 'dmm')).volumes[100], 5000);
+
+  // Buying the full limit on one market leaves the other market's limit untouched
+  await TradeService.createTrade({
+    itemId: 100,
+    market: 'osrs',
+    legs: [{ side: 'buy', price: 1000, quantity: 100 }],
+  });
+  assert.strictEqual((await TradeService.getRecentBuys(null, new Date(), 'osrs')).size, 1);
+  assert.strictEqual((await TradeService.getRecentBuys(null, new Date(), 'dmm')).size, 0);
+
+  const osrs = await PriceService.getFlipOpportunities(1_000_000, { market: 'osrs' });
+  assert.strictEqual(osrs.length, 0, 'The used-up osrs buy limit should exclude the item');
+  const dmm = await PriceService.getFlipOpportunities(1_000_000, { market: 'dmm' });
+  assert.strictEqual(dmm.length, 1);
+  assert.strictEqual(dmm[0].currentHigh, 2200);
+  assert.strictEqual(dmm[0].volume, 5000);
+  assert.strictEqual(dmm[0].remainingBuyLimit, 100);
+
+  // Trades, rules and accounts are listed per market
+  assert.strictEqual((await TradeService.listTrades('osrs')).length, 1);
+  assert.strictEqual((await TradeService.listTrades('dmm')).length, 0);
+
+  await AccountService.createAccount({ name: 'DMM main', members: true, market: 'dmm' });
+  assert.deepStrictEqual((await AccountService.listAccounts('dmm')).map(a => a.name), ['DMM main']);
+  assert.strictEqual((await AccountService.listAccounts('osrs')).length, 0);
+
+  // Each rule is evaluated on the prices of its own market
+  await AlertService.createRule({ itemId: 100, type: 'price_above', threshold: 1500, market: 'osrs' });
+  await AlertService.createRule({ itemId: 100, type: 'price_above', threshold: 1500, market: 'dmm' });
+  assert.strictEqual((await AlertService.listRules('dmm')).length, 1);
+
+  const fired = await AlertService.evaluateRules();
+  assert.strictEqual(fired.length, 1, 'Only the dmm price is above the threshold');
+  const rule = await prisma.alertRule.findUnique({ where: { id: fired[0].ruleId } });
+  assert.strictEqual(rule?.market, 'dmm');
+
+  // The alert feed only shows and marks events of rules on its market
+  assert.strictEqual((await AlertService.listEvents(50, false, 'osrs')).length, 0);
+  assert.strictEqual((await AlertService.listEvents(50, false, 'dmm')).length, 1);
+  assert.strictEqual(await AlertService.markEventsRead(undefined, 'osrs'), 0);
+  assert.strictEqual(await AlertService.markEventsRead(undefined, 'dmm'), 1);
+
+  // Each market has its own watchlist and targets
+  const watched = await WatchlistService.addEntry({ itemId: 100, targetBuy: 1000 }, 'osrs');
+  await WatchlistService.addEntry({ itemId: 100, targetBuy: 2000 }, 'dmm');
+  assert.strictEqual(await WatchlistService.isWatched(100, 'fsw'), false);
+  const [dmmEntry] = await WatchlistService.listEntries('dmm');
+  assert.strictEqual(dmmEntry.market, 'dmm');
+  assert.strictEqual(dmmEntry.targetBuy, 2000);
+  assert.strictEqual(dmmEntry.buyTargetReached, true);
+  assert.strictEqual(await WatchlistService.updateEntry(watched!.id, { note: 'dip' }, 'dmm'), null);
+
+  console.log('market separation test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+import assert from 'assert';
+import { selectGreedyPortfolio, selectOptimalPortfolio } from '../src/lib/optimizer.js';
+import type { FlipOpportunity } from '../src/types/api.js';
+
+async function run() {
+  const make = (id: number, low: number, high: number, quantity: number): FlipOpportunity => ({
+    id,
+    name: `Item ${id}`,
+    currentHigh: high,
+    currentLow: low,
+    avgPrice: (high + low) / 2,
+    margin: high - low,
+    marginPercent: ((high - low) / low) * 100,
+    roi: 0,
+    quantity,
+    totalCost: quantity * low,
+    totalProfit: quantity * (high - low),
+    profitAfterTax: 0,
+    buyLimit: quantity,
+    volume: 100000,
+    volatility: 1,
+    lastUpdated: new Date(),
+  });
+
+  // Best-scored item is expensive and leaves budget for nothing else
+  const opportunities = [make(1, 600, 800, 1), make(2, 500, 650, 1), make(3, 500, 650, 1)];
+
+  const greedy = selectGreedyPortfolio(opportunities, 1000, 2);
+  const optimal = selectOptimalPortfolio(opportunities, 1000, 2);
+  const profit = (list: FlipOpportunity[]) => list.reduce((sum, o) => sum + o.profitAfterTax, 0);
+  const cost = (list: FlipOpportunity[]) => list.reduce((sum, o) => sum + o.totalCost, 0);
+
+  assert.deepStrictEqual(greedy.map(o => o.id), [1]);
+  assert.deepStrictEqual(optimal.map(o => o.id), [2, 3]);
+  assert(profit(optimal) > profit(greedy), 'Knapsack should beat greedy here');
+  assert(cost(optimal) <= 1000, 'Knapsack must respect the budget');
+
+  // Slot limit and buy limits are respected
+  const many = Array.from({ length: 12 }, (_, i) => make(i + 1, 100, 130, 10));
+  const limited = selectOptimalPortfolio(many, 1000000, 3);
+  assert.strictEqual(limited.length, 3);
+  assert(limited.every(o => o.quantity <= 10));
+
+  console.log('portfolio optimizer test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
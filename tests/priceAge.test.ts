@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { calculatePriceAge, filterProfitableOpportunities } from '../src/lib/calculations.js';
+import type { FlipOpportunity } from '../src/types/api.js';
+
+async function run() {
+  const now = new Date('2024-01-01T12:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  // Recent trades on both sides are fresh
+  const fresh = calculatePriceAge(minutesAgo(10), minutesAgo(30), now);
+  assert.deepStrictEqual(fresh, { highMinutes: 10, lowMinutes: 30, stale: false });
+
+  // A high price last traded 9 hours ago is stale
+  const oldHigh = calculatePriceAge(minutesAgo(9 * 60), minutesAgo(5), now);
+  assert.strictEqual(oldHigh.stale, true);
+
+  // Limits are configurable per side
+  const limits = { maxHighAgeMinutes: 600, maxLowAgeMinutes: 1 };
+  assert.strictEqual(calculatePriceAge(minutesAgo(9 * 60), null, now, limits).stale, false);
+  assert.strictEqual(calculatePriceAge(null, minutesAgo(5), now, limits).stale, true);
+
+  // Unknown trade times never count as stale
+  assert.deepStrictEqual(calculatePriceAge(null, undefined, now), {
+    highMinutes: null,
+    lowMinutes: null,
+    stale: false,
+  });
+
+  // Stale opportunities are excluded unless requested
+  const base: FlipOpportunity = {
+    id: 1,
+    name: 'Test',
+    currentHigh: 100,
+    currentLow: 90,
+    avgPrice: 95,
+    margin: 10,
+    marginPercent: 10,
+    roi: 10,
+    quantity: 1,
+    totalCost: 90,
+    totalProfit: 10,
+    profitAfterTax: 2000,
+    buyLimit: 100,
+    volume: 2000,
+    volatility: 5,
+    lastUpdated: now,
+  };
+  const current = { ...base, id: 1, priceAge: fresh };
+  const stale = { ...base, id: 2, priceAge: oldHigh };
+
+  const filtered = filterProfitableOpportunities([current, stale]);
+  assert.deepStrictEqual(filtered.map(o => o.id), [1]);
+
+  const withStale = filterProfitableOpportunities([current, stale], 1000, 5, 0, 30, false);
+  assert.strictEqual(withStale.length, 2);
+
+  console.log('priceAge test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
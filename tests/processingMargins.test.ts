@@ -0,0 +1,47 @@
+import assert from 'assert';
+import {
+  calculateActionsPerHour,
+  compareRecipeEvaluations,
+  evaluateRecipe,
+} from '../src/lib/processing.js';
+import { calculateGETax } from '../src/lib/calculations.js';
+
+async function run() {
+  // Profit is the taxed output value minus the input cost
+  const potion = evaluateRecipe(
+    [
+      { quantity: 1, price: 7000, buyLimit: 13000 },
+      { quantity: 1, price: 5, buyLimit: 10000 },
+    ],
+    [{ quantity: 1, price: 7500 }],
+    1.2
+  );
+  assert.strictEqual(potion.inputCost, 7005);
+  assert.strictEqual(potion.outputValue, 7500 - calculateGETax(7500));
+  assert.strictEqual(potion.profit, 7500 - calculateGETax(7500) - 7005);
+
+  // The vial's buy limit (2,500 per hour) is slower than the action time (3,000 per hour)
+  assert.strictEqual(potion.actionsPerHour, 2500);
+  assert.strictEqual(potion.profitPerHour, potion.profit * 2500);
+
+  // Quantities scale both prices and the buy limit rate
+  assert.strictEqual(calculateActionsPerHour([{ quantity: 2, price: 10, buyLimit: 8000 }], 1), 1000);
+  const double = evaluateRecipe([{ quantity: 2, price: 10 }], [{ quantity: 3, price: 100 }]);
+  assert.strictEqual(double.inputCost, 20);
+  assert.strictEqual(double.outputValue, (100 - calculateGETax(100)) * 3);
+
+  // Without an action time or buy limits the rate is unknown
+  assert.strictEqual(double.actionsPerHour, undefined);
+  assert.strictEqual(double.profitPerHour, undefined);
+
+  // Recipes with a known profit/hour rank first
+  const ranked = [double, potion].sort(compareRecipeEvaluations);
+  assert.strictEqual(ranked[0], potion);
+
+  console.log('processingMargins test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
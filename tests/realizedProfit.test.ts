@@ -0,0 +1,30 @@
+import assert from 'assert';
+import { calculateRealizedProfit, calculateGETax } from '../src/lib/calculations.js';
+
+async function run() {
+  const result = calculateRealizedProfit([
+    { side: 'buy', price: 1000, quantity: 10 },
+    { side: 'buy', price: 1100, quantity: 10 },
+    { side: 'sell', price: 1200, quantity: 15 },
+  ]);
+
+  const expectedTax = calculateGETax(1200) * 15;
+  assert.strictEqual(result.boughtQuantity, 20);
+  assert.strictEqual(result.soldQuantity, 15);
+  assert.strictEqual(result.openQuantity, 5);
+  assert.strictEqual(result.avgBuyPrice, 1050);
+  assert.strictEqual(result.totalTax, expectedTax);
+  assert.strictEqual(result.realizedProfit, 15 * 1200 - expectedTax - 15 * 1050);
+
+  // Sells without matching buys should not count as realized profit
+  const unmatched = calculateRealizedProfit([{ side: 'sell', price: 500, quantity: 3 }]);
+  assert.strictEqual(unmatched.realizedProfit, 0);
+  assert.strictEqual(unmatched.openQuantity, 0);
+
+  console.log('realized profit test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+import { execSync } from 'child_process';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { RecipeService } from '../src/server/services/recipe-service.js';
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  await prisma.item.createMany({
+    data: [
+      { id: 100, name: 'Herb', buyLimit: 1000 },
+      { id: 200, name: 'Clean herb' },
+      { id: 300, name: 'Helm' },
+      { id: 400, name: 'Body' },
+      { id: 500, name: 'Armour set' },
+    ],
+  });
+  const prices: [number, number, number][] = [[100, 110, 100], [200, 300, 290], [300, 1000, 900], [400, 2000, 1800], [500, 2600, 2500]];
+  await prisma.price.createMany({ data: prices.map(([itemId, high, low]) => ({ itemId, high, low })) });
+
+  // Processing recipes and item sets share one file, one table and one loader
+  const file = join(await mkdtemp(join(tmpdir(), 'recipes-')), 'recipes.json');
+  await writeFile(file, JSON.stringify({
+    recipes: [
+      { name: 'Clean herb', secondsPerAction: 1, inputs: [{ itemId: 100 }], outputs: [{ itemId: 200 }] },
+      { name: 'Armour set', kind: 'set', inputs: [{ itemId: 300 }, { itemId: 400 }], outputs: [{ itemId: 500 }] },
+      { name: 'Broken set', kind: 'set', inputs: [{ itemId: 300 }], outputs: [{ itemId: 400 }, { itemId: 500 }] },
+      { name: 'Unknown item', inputs: [{ itemId: 999 }], outputs: [{ itemId: 200 }] },
+    ],
+  }));
+  assert.strictEqual(await RecipeService.loadBuiltInRecipes(file), 2);
+  assert.strictEqual(await RecipeService.loadBuiltInRecipes(file), 2);
+  assert.deepStrictEqual(
+    (await RecipeService.listRecipes()).map(recipe => [recipe.name, recipe.kind]),
+    [['Armour set', 'set'], ['Clean herb', 'processing']]
+  );
+  assert.strictEqual(await prisma.processingRecipeItem.count(), 5, 'Reloading should replace the items');
+
+  // Sets are left out of the processing margins and evaluated in both directions
+  const margins = await RecipeService.getProcessingMargins();
+  assert.deepStrictEqual(margins.map(margin => margin.name), ['Clean herb']);
+
+  const [set] = await RecipeService.getSetArbitrage();
+  assert.strictEqual(set.setItemId, 500);
+  assert.deepStrictEqual(set.components.map(c => c.itemId).sort(), [300, 400]);
+  assert.strictEqual(set.combineProfit, 2600 - 52 - 2700);
+  assert.strictEqual(set.splitProfit, 1000 - 20 + 2000 - 40 - 2500);
+  assert.strictEqual(set.action, 'split');
+
+  // Built-in sets cannot be deleted through the API
+  const stored = await prisma.processingRecipe.findUniqueOrThrow({ where: { name: 'Armour set' } });
+  assert.strictEqual(await RecipeService.deleteRecipe(stored.id), false);
+
+  console.log('recipe loader test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+import assert from 'assert';
+import {
+  sortOpportunitiesByScore,
+  getScoringStrategy,
+  normalizeScoringWeights,
+  registerScoringStrategy,
+  listScoringStrategies,
+} from '../src/lib/calculations.js';
+import type { FlipOpportunity } from '../src/types/api.js';
+
+async function run() {
+  const base: FlipOpportunity = {
+    id: 1,
+    name: 'Test',
+    currentHigh: 100,
+    currentLow: 90,
+    avgPrice: 95,
+    margin: 10,
+    marginPercent: 10,
+    roi: 10,
+    quantity: 1,
+    totalCost: 90,
+    totalProfit: 10,
+    profitAfterTax: 2000,
+    buyLimit: 100,
+    volume: 2000,
+    volatility: 5,
+    lastUpdated: new Date(),
+  };
+
+  const profitable = { ...base, id: 1, profitAfterTax: 50000, roi: 5, volume: 1500 };
+  const highRoi = { ...base, id: 2, profitAfterTax: 10000, roi: 40, volume: 1500 };
+  const liquid = { ...base, id: 3, profitAfterTax: 5000, roi: 6, volume: 90000 };
+  const opportunities = [profitable, highRoi, liquid];
+
+  const top = (name: string) =>
+    sortOpportunitiesByScore(opportunities, getScoringStrategy(name)!.weights)[0].id;
+
+  assert.strictEqual(top('balanced'), 1, 'Balanced should favour profit');
+  assert.strictEqual(top('high-roi'), 2, 'High ROI should favour ROI');
+  assert.strictEqual(top('high-liquidity'), 3, 'High liquidity should favour volume');
+
+  const weights = normalizeScoringWeights({ profit: 2, roi: 2 });
+  assert.strictEqual(weights.profit, 0.5);
+  assert.strictEqual(weights.volume, 0);
+
+  registerScoringStrategy({
+    name: 'test-profit',
+    label: 'Test',
+    description: 'Profit only',
+    weights: { profit: 3, volume: 0, roi: 0, stability: 0 },
+  });
+  assert.strictEqual(getScoringStrategy('test-profit')!.weights.profit, 1);
+  assert(listScoringStrategies().some(s => s.name === 'low-risk'));
+
+  console.log('scoring strategies test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import assert from 'assert';
+import { calculateSetArbitrage } from '../src/lib/sets.js';
+import { calculateGETax } from '../src/lib/calculations.js';
+
+async function run() {
+  const pieces = [
+    { quantity: 1, high: 1_000_000, low: 980_000 },
+    { quantity: 1, high: 500_000, low: 490_000 },
+  ];
+
+  // A cheap set is worth splitting into its pieces
+  const split = calculateSetArbitrage(1_400_000, 1_350_000, pieces);
+  const piecesValue = 1_000_000 - calculateGETax(1_000_000) + 500_000 - calculateGETax(500_000);
+  assert.strictEqual(split.action, 'split');
+  assert.strictEqual(split.splitProfit, piecesValue - 1_350_000);
+  assert.strictEqual(split.profit, split.splitProfit);
+
+  // An expensive set is worth combining from its pieces
+  const combine = calculateSetArbitrage(1_600_000, 1_550_000, pieces);
+  assert.strictEqual(combine.action, 'combine');
+  assert.strictEqual(combine.combineProfit, 1_600_000 - calculateGETax(1_600_000) - 1_470_000);
+  assert(Math.abs(combine.roi - (combine.profit / 1_470_000) * 100) < 1e-9);
+
+  // Quantities multiply the component prices
+  const pair = calculateSetArbitrage(300, 200, [{ quantity: 2, high: 100, low: 90 }]);
+  assert.strictEqual(pair.combineProfit, 300 - calculateGETax(300) - 180);
+  assert.strictEqual(pair.splitProfit, (100 - calculateGETax(100)) * 2 - 200);
+
+  console.log('setArbitrage test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
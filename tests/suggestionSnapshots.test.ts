@@ -0,0 +1,60 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { PriceService } from '../src/server/services/price-service.js';
+import { PerformanceService } from '../src/server/services/performance-service.js';
+import { RetentionService } from '../src/server/services/retention-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  const time = Math.floor(Date.now() / 1000);
+  setMarketDataProvider({
+    market: 'osrs',
+    fetchItemMapping: async () => [{ id: 100, name: 'Test Item', limit: 100 }],
+    fetchLatestPrices: async () => ({ '100': { high: 1100, highTime: time, low: 1000, lowTime: time } }),
+    fetchVolumes: async () => ({ '100': { highPriceVolume: 1000, lowPriceVolume: 1000 } }),
+    fetchTimeseries: async () => [],
+  });
+  await PriceService.syncItems();
+  await PriceService.syncPrices();
+
+  const filters = { market: 'osrs' as const };
+  const portfolio = await PriceService.getPortfolioSuggestion(1_000_000, filters);
+  assert.strictEqual(portfolio.itemCount, 1);
+
+  // Repeating the same request within the sync interval stores one snapshot
+  assert.strictEqual(await PerformanceService.recordSuggestion(portfolio, filters), true);
+  assert.strictEqual(await PerformanceService.recordSuggestion(portfolio, filters), false);
+  assert.strictEqual(await prisma.portfolioSnapshot.count(), 1);
+  assert.strictEqual(await prisma.suggestionEntry.count(), 1);
+
+  // Other filters, markets and budgets are separate suggestions
+  assert.strictEqual(await PerformanceService.recordSuggestion(portfolio, { ...filters, minVolume: 100 }), true);
+  assert.strictEqual(await PerformanceService.recordSuggestion(portfolio, { market: 'dmm' }), true);
+  assert.strictEqual(
+    await PerformanceService.recordSuggestion({ ...portfolio, totalBudget: 2_000_000 }, filters),
+    true
+  );
+
+  // The same suggestion is stored again in the next sync interval
+  const later = { ...portfolio, updatedAt: new Date(portfolio.updatedAt.getTime() + 5 * 60 * 1000) };
+  assert.strictEqual(await PerformanceService.recordSuggestion(later, filters), true);
+  assert.strictEqual(await prisma.portfolioSnapshot.count(), 5);
+
+  // Old suggestions are pruned with their entries
+  const retention = await RetentionService.run(new Date(Date.now() + 31 * DAY_MS));
+  assert.strictEqual(retention.snapshotsPruned, 5);
+  assert.strictEqual(await prisma.suggestionEntry.count(), 0);
+
+  console.log('suggestion snapshots test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
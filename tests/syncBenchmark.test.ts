@@ -0,0 +1,63 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { PriceService } from '../src/server/services/price-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+
+const ITEM_COUNT = 4000;
+
+// Generous upper bound; row-by-row ingestion took far longer than this
+const MAX_SYNC_MS = 15000;
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  // Mock a 4k-item mapping and /latest payload
+  const mapping = Array.from({ length: ITEM_COUNT }, (_, i) => ({
+    id: i + 1,
+    name: `Benchmark Item ${i + 1}`,
+    limit: 100,
+    members: i % 2 === 0,
+  }));
+  const latest: Record<string, { high: number; low: number; highTime: number; lowTime: number }> = {};
+  for (const item of mapping) {
+    latest[item.id] = { high: 1100, low: 1000, highTime: 1700000000, lowTime: 1700000000 };
+  }
+  setMarketDataProvider({
+    market: 'osrs',
+    fetchItemMapping: async () => mapping,
+    fetchLatestPrices: async () => latest,
+    fetchVolumes: async () => ({}),
+    fetchTimeseries: async () => [],
+  });
+
+  const itemStart = Date.now();
+  await PriceService.syncItems();
+  const itemMs = Date.now() - itemStart;
+
+  const priceStart = Date.now();
+  await PriceService.syncPrices();
+  const priceMs = Date.now() - priceStart;
+
+  // A second item sync with unchanged metadata performs no writes
+  const resyncStart = Date.now();
+  await PriceService.syncItems();
+  const resyncMs = Date.now() - resyncStart;
+
+  console.log(
+    `Synced ${ITEM_COUNT} items in ${itemMs}ms (unchanged resync ${resyncMs}ms), prices in ${priceMs}ms`
+  );
+
+  assert.strictEqual(await prisma.item.count(), ITEM_COUNT);
+  assert.strictEqual(await prisma.price.count(), ITEM_COUNT);
+  assert(itemMs < MAX_SYNC_MS, `Item sync took ${itemMs}ms`);
+  assert(priceMs < MAX_SYNC_MS, `Price sync took ${priceMs}ms`);
+
+  console.log('sync benchmark test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
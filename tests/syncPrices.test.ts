@@ -2,7 +2,7 @@ import { execSync } from 'child_process';
 import assert from 'assert';
 import prisma from '../src/lib/database.js';
 import { PriceService } from '../src/server/services/price-service.js';
-import { OSRSApiService } from '../src/server/services/osrs-api.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
 
 async function run() {
   // Use an isolated SQLite database for testing
@@ -12,16 +12,20 @@ async function run() {
   execSync('npx prisma db push --force-reset > /dev/null');
 
   // Mock price and item mapping responses
-  (OSRSApiService as unknown as Record<string, unknown>).fetchLatestPrices = async () => ({
-    '999': { high: 1000, low: 900 },
-  });
-
   let mappingCalls = 0;
-  (OSRSApiService as unknown as Record<string, unknown>).fetchItemMapping = async () => {
-    mappingCalls += 1;
-    if (mappingCalls === 1) return [];
-    return [{ id: 999, name: 'Test Item', limit: 0 }];
-  };
+  setMarketDataProvider({
+    market: 'osrs',
+    fetchLatestPrices: async () => ({
+      '999': { high: 1000, low: 900 },
+    }),
+    fetchItemMapping: async () => {
+      mappingCalls += 1;
+      if (mappingCalls === 1) return [];
+      return [{ id: 999, name: 'Test Item', limit: 0 }];
+    },
+    fetchVolumes: async () => ({}),
+    fetchTimeseries: async () => [],
+  });
 
   await PriceService.syncPrices();
 
@@ -0,0 +1,75 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { PriceService } from '../src/server/services/price-service.js';
+import { AlertService } from '../src/server/services/alert-service.js';
+import { RetentionService } from '../src/server/services/retention-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+import { AlertRule } from '../src/types/api.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  let dailyVolume = 1000;
+  setMarketDataProvider({
+    market: 'osrs',
+    fetchItemMapping: async () => [{ id: 100, name: 'Test Item', limit: 0 }],
+    fetchLatestPrices: async () => ({ '100': { high: 1100, low: 1000 } }),
+    fetchVolumes: async window =>
+      window === '24h' ? { '100': { highPriceVolume: dailyVolume / 2, lowPriceVolume: dailyVolume / 2 } } : {},
+    fetchTimeseries: async () => [],
+  });
+
+  await PriceService.syncPrices();
+  await PriceService.syncVolumes();
+  assert.strictEqual(await prisma.volumeHistory.count(), 1, 'The 24h volumes should be captured');
+
+  // Syncs within the history interval do not add captures
+  await PriceService.syncVolumes();
+  assert.strictEqual(await prisma.volumeHistory.count(), 1);
+
+  // Pretend the capture was taken a day ago, then the volume drops by 60%
+  await prisma.volumeHistory.updateMany({ data: { capturedAt: new Date(Date.now() - DAY_MS) } });
+  dailyVolume = 400;
+  await PriceService.syncVolumes();
+  assert.strictEqual(await prisma.volumeHistory.count(), 2, 'A new capture should be stored after the interval');
+
+  const previous = await PriceService.getHistoricalVolumeData(new Date(Date.now() - DAY_MS + 60 * 1000));
+  assert.strictEqual(previous.volumes[100], 1000);
+  assert.deepStrictEqual(previous.sides[100], { buyVolume: 500, sellVolume: 500 });
+
+  // Without a capture close enough before the time, the volumes are unknown
+  const unknown = await PriceService.getHistoricalVolumeData(new Date(Date.now() - 2 * DAY_MS));
+  assert.strictEqual(unknown.capturedAt, null);
+  assert.deepStrictEqual(unknown.volumes, {});
+
+  // The volume drop rule compares the live volume with the capture of a day earlier
+  const rule = await AlertService.createRule({ itemId: 100, type: 'volume_drop', threshold: 50 });
+  assert(rule);
+  const fired = await AlertService.evaluateRules();
+  assert.strictEqual(fired.length, 1, 'The volume drop alert should fire');
+  assert.strictEqual(fired[0].value, 60);
+
+  // A rule cannot be switched to a threshold type without a threshold
+  const spike = await AlertService.createRule({ itemId: 100, type: 'spike' });
+  const spikeId = spike!.id;
+  assert.strictEqual(await AlertService.updateRule(spikeId, { type: 'price_above' }), 'Alert type "price_above" requires a threshold');
+  const updated = await AlertService.updateRule(spikeId, { type: 'price_above', threshold: 5000 });
+  assert.strictEqual((updated as AlertRule).threshold, 5000);
+  assert.strictEqual(((await AlertService.updateRule(spikeId, { enabled: false })) as AlertRule).threshold, 5000);
+
+  // Captures older than the retention age are pruned
+  const retention = await RetentionService.run(new Date(Date.now() + 29.5 * DAY_MS));
+  assert.strictEqual(retention.volumeHistoryPruned, 1);
+  assert.strictEqual(await prisma.volumeHistory.count(), 1);
+
+  console.log('volume alerts test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import assert from 'assert';
+import {
+  calculateVolumeImbalance,
+  calculateOptimalQuantity,
+  getRiskLevel,
+} from '../src/lib/calculations.js';
+
+async function run() {
+  // Balanced, buyer-heavy and seller-heavy markets
+  assert.strictEqual(calculateVolumeImbalance(500, 500), 0);
+  assert.strictEqual(calculateVolumeImbalance(900, 100), -0.8);
+  assert.strictEqual(calculateVolumeImbalance(100, 900), 0.8);
+  assert.strictEqual(calculateVolumeImbalance(0, 0), 0, 'No volume should count as balanced');
+
+  // Seller-heavy markets cap quantity below the 10% volume limit
+  const balanced = calculateOptimalQuantity(1_000_000_000, 100, 0, 10000);
+  const oneSided = calculateOptimalQuantity(1_000_000_000, 100, 0, 10000, 0.75);
+  const buyerHeavy = calculateOptimalQuantity(1_000_000_000, 100, 0, 10000, -0.8);
+  assert.strictEqual(balanced, 1000);
+  assert.strictEqual(oneSided, 250);
+  assert.strictEqual(buyerHeavy, 1000, 'Excess buyers should not raise the limit');
+
+  // One-sided volume raises the risk level by one step
+  assert.strictEqual(getRiskLevel(2), 'Low');
+  assert.strictEqual(getRiskLevel(2, 0.4), 'Low');
+  assert.strictEqual(getRiskLevel(2, 0.5), 'Medium');
+  assert.strictEqual(getRiskLevel(40, 0.9), 'Extreme');
+
+  console.log('volumeImbalance test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
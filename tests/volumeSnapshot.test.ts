@@ -0,0 +1,85 @@
+import { execSync } from 'child_process';
+import assert from 'assert';
+import prisma from '../src/lib/database.js';
+import { PriceService, VOLUME_STALE_AFTER_MINUTES } from '../src/server/services/price-service.js';
+import { setMarketDataProvider } from '../src/server/services/market-data.js';
+import { Market, VolumeWindow } from '../src/types/api.js';
+
+const WINDOW_VOLUMES: Record<VolumeWindow, number> = { '5m': 20, '1h': 200, '24h': 2000 };
+
+async function run() {
+  process.env.DATABASE_URL = 'file:./tests/test.db';
+  execSync('npx prisma db push --force-reset > /dev/null');
+
+  const volumeCalls: string[] = [];
+  let failingWindow: VolumeWindow | null = null;
+  const provider = (market: Market, scale: number) => {
+    const time = Math.floor(Date.now() / 1000);
+    return {
+      market,
+      fetchItemMapping: async () => [{ id: 100, name: 'Test Item', limit: 100 }],
+      fetchLatestPrices: async () => ({ '100': { high: 1100, highTime: time, low: 1000, lowTime: time } }),
+      fetchVolumes: async (window: VolumeWindow) => {
+        volumeCalls.push(`${market}:${window}`);
+        if (market === 'osrs' && window === failingWindow) throw new Error('timeout');
+        const volume = WINDOW_VOLUMES[window] * scale;
+        return {
+          '100': { highPriceVolume: volume / 2, lowPriceVolume: volume / 2 },
+          // Items missing from the mapping are not stored
+          '999': { highPriceVolume: 5, lowPriceVolume: 5 },
+        };
+      },
+      fetchTimeseries: async () => [],
+    };
+  };
+  setMarketDataProvider(provider('osrs', 1));
+  setMarketDataProvider(provider('dmm', 3));
+
+  await PriceService.syncItems();
+  await PriceService.syncPrices('osrs');
+
+  // The first analysis on a fresh install syncs the volumes once
+  const [first] = await PriceService.getFlipOpportunities(1_000_000);
+  assert.deepStrictEqual(volumeCalls, ['osrs:5m', 'osrs:1h', 'osrs:24h']);
+  assert.strictEqual(first.volume, 2000);
+  assert.strictEqual(first.volumeStale, false);
+  await PriceService.getFlipOpportunities(1_000_000);
+  assert.strictEqual(volumeCalls.length, 3, 'Stored snapshots should be reused');
+
+  // Every window is stored per market
+  assert.deepStrictEqual(await PriceService.syncVolumes('dmm'), ['5m', '1h', '24h']);
+  for (const window of ['5m', '1h', '24h'] as VolumeWindow[]) {
+    assert.strictEqual((await PriceService.getVolumeSnapshot(window, 'osrs')).volumes[100], WINDOW_VOLUMES[window]);
+    assert.strictEqual((await PriceService.getVolumeSnapshot(window, 'dmm')).volumes[100], WINDOW_VOLUMES[window] * 3);
+  }
+  assert.deepStrictEqual((await PriceService.getVolumeSnapshot('1h', 'dmm')).sides[100], { buyVolume: 300, sellVolume: 300 });
+  assert.strictEqual(await prisma.volumeSnapshot.count({ where: { itemId: 999 } }), 0);
+
+  // Re-syncing replaces the stored rows
+  await PriceService.syncVolumes('osrs');
+  assert.strictEqual(await prisma.volumeSnapshot.count({ where: { market: 'osrs' } }), 3);
+
+  // Snapshots turn stale once older than the limit
+  const expired = new Date(Date.now() - (VOLUME_STALE_AFTER_MINUTES + 1) * 60 * 1000);
+  await prisma.volumeSnapshot.updateMany({ where: { market: 'osrs' }, data: { capturedAt: expired } });
+  assert.strictEqual((await PriceService.getVolumeSnapshot('24h', 'osrs')).volumeStale, true);
+  assert.strictEqual((await PriceService.getVolumeFreshness('osrs')).volumeStale, true);
+  assert.strictEqual((await PriceService.getVolumeFreshness('dmm')).volumeStale, false);
+  const [stale] = await PriceService.getFlipOpportunities(1_000_000, { includeStale: true });
+  assert.strictEqual(stale.volumeStale, true);
+  assert.strictEqual(stale.volumeUpdatedAt?.getTime(), expired.getTime());
+
+  // A failing window keeps its previous snapshot while the others refresh
+  failingWindow = '5m';
+  assert.deepStrictEqual(await PriceService.syncVolumes('osrs'), ['1h', '24h']);
+  assert.strictEqual((await PriceService.getVolumeSnapshot('5m', 'osrs')).volumeStale, true);
+  assert.strictEqual((await PriceService.getVolumeSnapshot('5m', 'osrs')).volumes[100], 20);
+  assert.strictEqual((await PriceService.getVolumeSnapshot('24h', 'osrs')).volumeStale, false);
+
+  console.log('volume snapshot test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
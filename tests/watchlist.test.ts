@@ -0,0 +1,35 @@
+import assert from 'assert';
+import { evaluateWatchlistPrices } from '../src/lib/watchlist.js';
+import { calculateGETax } from '../src/lib/calculations.js';
+
+async function run() {
+  // Margin and ROI are reported after GE tax
+  const status = evaluateWatchlistPrices(1100, 1000, 950, 1200);
+  assert.strictEqual(status.margin, 100);
+  assert.strictEqual(status.profitAfterTax, 100 - calculateGETax(1100));
+  assert.strictEqual(status.roi, ((100 - calculateGETax(1100)) / 1000) * 100);
+  assert.strictEqual(status.buyTargetReached, false);
+  assert.strictEqual(status.sellTargetReached, false);
+
+  // Negative margins are still reported for watched items
+  const losing = evaluateWatchlistPrices(1000, 1000);
+  assert.strictEqual(losing.profitAfterTax, -calculateGETax(1000));
+
+  // Targets are reached when the matching price crosses them
+  const reached = evaluateWatchlistPrices(1250, 900, 950, 1200);
+  assert.strictEqual(reached.buyTargetReached, true);
+  assert.strictEqual(reached.sellTargetReached, true);
+
+  // Missing prices leave the margin unknown and targets unreached
+  const unpriced = evaluateWatchlistPrices(null, 900, 950, 1200);
+  assert.strictEqual(unpriced.margin, undefined);
+  assert.strictEqual(unpriced.buyTargetReached, true);
+  assert.strictEqual(unpriced.sellTargetReached, false);
+
+  console.log('watchlist test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
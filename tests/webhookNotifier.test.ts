@@ -0,0 +1,75 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getNotifier } from '../src/server/services/notifiers.js';
+import { AlertEvent, AlertRule } from '../src/types/api.js';
+
+async function run() {
+  // Local stub that records webhook deliveries
+  const received: { event: AlertEvent; rule: AlertRule }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push(JSON.parse(body));
+      res.writeHead(req.url === '/fail' ? 500 : 204);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const rule: AlertRule = {
+    id: 1,
+    itemId: 4151,
+    itemName: 'Abyssal whip',
+    type: 'price_below',
+    threshold: 1500000,
+    channel: 'webhook',
+    webhookUrl: `http://127.0.0.1:${port}/alerts`,
+    enabled: true,
+    active: true,
+    createdAt: new Date(),
+  };
+  const event: AlertEvent = {
+    id: 7,
+    ruleId: 1,
+    itemId: 4151,
+    itemName: 'Abyssal whip',
+    type: 'price_below',
+    message: 'Abyssal whip buy price is 1,490,000 GP',
+    value: 1490000,
+    delivered: false,
+    read: false,
+    createdAt: new Date(),
+  };
+
+  try {
+    const webhook = getNotifier('webhook');
+    assert.ok(webhook);
+
+    await webhook.deliver(event, rule);
+    assert.strictEqual(received.length, 1);
+    assert.strictEqual(received[0].event.id, 7);
+    assert.strictEqual(received[0].event.message, event.message);
+    assert.strictEqual(received[0].rule.type, 'price_below');
+
+    // Failed deliveries reject so the event stays undelivered
+    await assert.rejects(
+      webhook.deliver(event, { ...rule, webhookUrl: `http://127.0.0.1:${port}/fail` })
+    );
+    await assert.rejects(webhook.deliver(event, { ...rule, webhookUrl: undefined }));
+
+    // The feed channel always succeeds without a destination
+    await getNotifier('feed')!.deliver(event, rule);
+  } finally {
+    server.close();
+  }
+
+  console.log('webhook notifier test passed');
+}
+
+run().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
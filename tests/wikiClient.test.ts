@@ -0,0 +1,91 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  WikiClient,
+  TokenBucket,
+  calculateBackoffDelay,
+  WikiRequestError,
+  WikiServerError,
+} from '../src/server/services/wiki-client.js';
+
+async function run() {
+  // Token bucket allows a burst, then refills over time
+  let now = 0;
+  const bucket = new TokenBucket(2, 1, () => now);
+  assert.strictEqual(bucket.tryTake(), true);
+  assert.strictEqual(bucket.tryTake(), true);
+  assert.strictEqual(bucket.tryTake(), false);
+  now = 1000;
+  assert.strictEqual(bucket.tryTake(), true);
+  assert.strictEqual(bucket.tryTake(), false);
+
+  // Backoff doubles per attempt, is capped, and is jittered below the cap
+  assert.strictEqual(calculateBackoffDelay(0, 100, 1000, () => 0.999), 99);
+  assert.strictEqual(calculateBackoffDelay(3, 100, 1000, () => 0.5), 400);
+  assert.strictEqual(calculateBackoffDelay(10, 100, 1000, () => 0.5), 500);
+
+  // Local stub of the Wiki API
+  const hits: Record<string, number> = {};
+  const server = http.createServer((req, res) => {
+    const url = req.url || '';
+    hits[url] = (hits[url] || 0) + 1;
+    if (url === '/flaky' && hits[url] < 3) {
+      res.writeHead(503);
+      res.end();
+    } else if (url === '/missing') {
+      res.writeHead(404);
+      res.end();
+    } else if (url === '/down') {
+      res.writeHead(500);
+      res.end();
+    } else if (req.headers['if-none-match'] === '"v1"') {
+      res.writeHead(304);
+      res.end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v1"' });
+      res.end(JSON.stringify({ data: { url } }));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const client = new WikiClient({
+    baseURL: `http://127.0.0.1:${port}`,
+    userAgent: 'test',
+    maxRetries: 3,
+    baseDelayMs: 1,
+    rateLimit: { capacity: 100, refillPerSecond: 100 },
+  });
+
+  try {
+    // 5xx responses are retried until they succeed
+    assert.deepStrictEqual(await client.get('/flaky'), { data: { url: '/flaky' } });
+    assert.strictEqual(hits['/flaky'], 3);
+
+    // A 304 reuses the cached body
+    assert.deepStrictEqual(await client.get('/latest'), { data: { url: '/latest' } });
+    assert.deepStrictEqual(await client.get('/latest'), { data: { url: '/latest' } });
+    assert.strictEqual(hits['/latest'], 2);
+
+    // Query parameters are encoded into the path
+    assert.deepStrictEqual(await client.get('/1h', { id: 4151 }), { data: { url: '/1h?id=4151' } });
+
+    // Client errors are not retried
+    await assert.rejects(client.get('/missing'), WikiRequestError);
+    assert.strictEqual(hits['/missing'], 1);
+
+    // Persistent server errors give up after the configured retries
+    await assert.rejects(client.get('/down'), WikiServerError);
+    assert.strictEqual(hits['/down'], 4);
+  } finally {
+    server.close();
+  }
+
+  console.log('wikiClient test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
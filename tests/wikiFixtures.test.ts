@@ -0,0 +1,91 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WikiClient, WikiFixtureMissingError } from '../src/server/services/wiki-client.js';
+import {
+  DEFAULT_FIXTURES_DIR,
+  fixtureFileName,
+  resolveWikiApiMode,
+  shiftLatestPrices,
+} from '../src/server/services/wiki-fixtures.js';
+import { OSRSItem, OSRSLatestPrices } from '../src/types/api.js';
+
+async function run() {
+  // Endpoints map to readable file names
+  assert.strictEqual(fixtureFileName('/mapping'), 'mapping.json');
+  assert.strictEqual(
+    fixtureFileName('/timeseries?id=4151&timestep=1h'),
+    'timeseries__id-4151_timestep-1h.json'
+  );
+  assert.strictEqual(resolveWikiApiMode(undefined), 'live');
+  assert.throws(() => resolveWikiApiMode('offline'));
+
+  // Replay serves the shipped fixtures without network access
+  const replay = new WikiClient({ baseURL: 'http://127.0.0.1:1', userAgent: 'test', mode: 'replay' });
+  const mapping = await replay.get<OSRSItem[]>('/mapping');
+  const latest = await replay.get<{ data: OSRSLatestPrices }>('/latest');
+  assert(mapping.length > 0);
+  for (const item of mapping) {
+    assert(latest.data[item.id], `latest.json should price ${item.name}`);
+  }
+  for (const endpoint of ['/5m', '/1h', '/24h']) {
+    assert((await replay.get<{ data: object }>(endpoint)).data);
+  }
+  await assert.rejects(replay.get('/timeseries', { id: 1, timestep: '1h' }), WikiFixtureMissingError);
+
+  // Replayed trade times move to the present and keep their recorded gaps
+  const now = new Date('2030-01-01T00:00:00Z');
+  const nowSeconds = now.getTime() / 1000;
+  const shifted = shiftLatestPrices({
+    '1': { high: 10, highTime: 1000, low: 9, lowTime: 940 },
+    '2': { high: 20, highTime: 700 },
+  }, now);
+  assert.deepStrictEqual(shifted, {
+    '1': { high: 10, highTime: nowSeconds, low: 9, lowTime: nowSeconds - 60 },
+    '2': { high: 20, highTime: nowSeconds - 300, lowTime: undefined },
+  });
+  const replayed = shiftLatestPrices(latest.data, now);
+  assert.strictEqual(
+    Math.max(...Object.values(replayed).map(price => Math.max(price.highTime || 0, price.lowTime || 0))),
+    nowSeconds
+  );
+
+  // Record saves live responses in the fixture format
+  const server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: [{ timestamp: 1, avgHighPrice: 10 }], path: req.url }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const dir = await mkdtemp(join(tmpdir(), 'wiki-fixtures-'));
+
+  try {
+    const record = new WikiClient({
+      baseURL: `http://127.0.0.1:${port}`,
+      userAgent: 'test',
+      mode: 'record',
+      fixturesDir: dir,
+    });
+    const live = await record.get('/timeseries', { id: 4151, timestep: '1h' });
+    const saved = JSON.parse(await readFile(join(dir, 'timeseries__id-4151_timestep-1h.json'), 'utf-8'));
+    assert.deepStrictEqual(saved, live);
+
+    // The recording replays identically
+    const replayRecorded = new WikiClient({ baseURL: 'http://127.0.0.1:1', userAgent: 'test', mode: 'replay', fixturesDir: dir });
+    assert.deepStrictEqual(await replayRecorded.get('/timeseries', { id: 4151, timestep: '1h' }), live);
+  } finally {
+    server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  assert(DEFAULT_FIXTURES_DIR.endsWith(join('data', 'wiki-fixtures')));
+  console.log('wikiFixtures test passed');
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});